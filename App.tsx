@@ -1,11 +1,19 @@
 import React, { useState, useEffect, lazy, Suspense } from 'react';
-import { Routes, Route, useNavigate } from 'react-router-dom';
-import { GenerationSettings, MagicItemResult } from './types';
+import { Routes, Route, useNavigate, useLocation } from 'react-router-dom';
+import { GenerationSettings, MagicItemResult, PartialGeneratedContent } from './types';
 import { DEFAULT_SETTINGS } from './constants';
-import { generateMagicItemText, generateMagicItemImage } from './services/geminiService';
+import { streamMagicItemText, generateMagicItemImages } from './services/geminiService';
+import { isProviderConfigured } from './services/aiProvider';
+import { analyzeItemBalance, MAX_BALANCE_REROLLS } from './services/balanceAnalyzer';
+import { getGameSystem } from './services/gameSystems';
 import { saveItem, getSavedItems, SavedMagicItem } from './services/storageService';
 import { checkClientRateLimit } from './services/rateLimit';
+import { getErrorMessage } from './services/generationErrors';
 import { GeneratorForm } from './components/GeneratorForm';
+import { VocabularyManager } from './components/VocabularyManager';
+import { PartyManager } from './components/PartyManager';
+import { CampaignManager } from './components/CampaignManager';
+import { PromptTemplateEditor } from './components/PromptTemplateEditor';
 import { MagicItemDisplay } from './components/MagicItemDisplay';
 import { ItemView } from './pages/ItemView';
 import { useMetaTags } from './hooks/useMetaTags';
@@ -13,15 +21,22 @@ import { useMetaTags } from './hooks/useMetaTags';
 // Lazy load components that aren't needed immediately
 const SavedItems = lazy(() => import('./components/SavedItems').then(module => ({ default: module.SavedItems })));
 const RecentItems = lazy(() => import('./components/RecentItems').then(module => ({ default: module.RecentItems })));
+const HoardForge = lazy(() => import('./components/HoardForge').then(module => ({ default: module.HoardForge })));
+const InPlayTracker = lazy(() => import('./components/InPlayTracker').then(module => ({ default: module.InPlayTracker })));
+const ShopForge = lazy(() => import('./components/ShopForge').then(module => ({ default: module.ShopForge })));
+const RandomTableBuilder = lazy(() => import('./components/RandomTableBuilder').then(module => ({ default: module.RandomTableBuilder })));
 
-type ViewMode = 'generate' | 'saved';
+type ViewMode = 'generate' | 'saved' | 'hoard' | 'shop' | 'tables' | 'play';
 
 const ForgePage: React.FC = () => {
   const navigate = useNavigate();
+  const location = useLocation();
   const [settings, setSettings] = useState<GenerationSettings>(DEFAULT_SETTINGS);
   const [isGenerating, setIsGenerating] = useState(false);
   const [result, setResult] = useState<MagicItemResult | null>(null);
+  const [streamingContent, setStreamingContent] = useState<PartialGeneratedContent | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [imageError, setImageError] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>('generate');
   const [recentItems, setRecentItems] = useState<SavedMagicItem[]>([]);
 
@@ -44,6 +59,24 @@ const ForgePage: React.FC = () => {
     }
   }, [viewMode]);
 
+  const handleForgeAgain = (recorded: GenerationSettings) => {
+    // Records made before newer options existed fall back to their defaults
+    const forgeSettings = { ...DEFAULT_SETTINGS, ...recorded };
+    setSettings(forgeSettings);
+    setViewMode('generate');
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+    handleGenerate(forgeSettings);
+  };
+
+  // "Forge again" from an item's own page arrives here through router state
+  useEffect(() => {
+    const forgeAgain = (location.state as { forgeAgain?: GenerationSettings } | null)?.forgeAgain;
+    if (forgeAgain) {
+      navigate(location.pathname, { replace: true, state: null });
+      handleForgeAgain(forgeAgain);
+    }
+  }, [location.state]);
+
   const loadRecentItems = async () => {
     try {
       const items = await getSavedItems(6); // Only fetch 6 items
@@ -53,7 +86,10 @@ const ForgePage: React.FC = () => {
     }
   };
 
-  const handleGenerate = async () => {
+  // Pass settings to forge with something other than the form's current values (e.g. "forge again")
+  const handleGenerate = async (overrides?: GenerationSettings) => {
+    const forgeSettings = overrides ?? settings;
+
     const rate = checkClientRateLimit();
     if (!rate.allowed) {
       setError(
@@ -62,19 +98,36 @@ const ForgePage: React.FC = () => {
       return;
     }
 
-    if (!process.env.API_KEY) {
+    if (!isProviderConfigured()) {
       setError("API Key is missing. The forge cannot operate without fuel.");
       return;
     }
 
     setIsGenerating(true);
     setError(null);
+    setImageError(null);
     setResult(null);
+    setStreamingContent(null);
 
     try {
-      // Step 1: Generate Text Content
-      const content = await generateMagicItemText(settings);
-      
+      // Step 1: Generate Text Content, rendering the card progressively as it streams in
+      let content = await streamMagicItemText(forgeSettings, setStreamingContent);
+
+      // Optionally re-roll items that came back stronger than their rarity allows
+      const canRebalance = forgeSettings.autoRebalance && getGameSystem(forgeSettings.gameSystem).balanceChecks;
+      for (let reroll = 0; canRebalance && reroll < MAX_BALANCE_REROLLS; reroll++) {
+        if (!analyzeItemBalance(content.itemData).isOvertuned) break;
+        // Each re-roll is a full generation; keep the overtuned item rather than exceed the limit
+        if (!checkClientRateLimit().allowed) {
+          console.warn('Rate limit reached, keeping the overtuned item instead of re-rolling.');
+          break;
+        }
+        console.warn(`Item came back overtuned, re-rolling (${reroll + 1}/${MAX_BALANCE_REROLLS})`);
+        setStreamingContent(null);
+        content = await streamMagicItemText(forgeSettings, setStreamingContent);
+      }
+      setStreamingContent(null);
+
       // Update UI immediately with text while image loads
       const partialResult: MagicItemResult = { ...content };
       setResult(partialResult);
@@ -82,12 +135,19 @@ const ForgePage: React.FC = () => {
       // Step 2: Generate Image
       let finalResult = partialResult;
       try {
-        const imageUrl = await generateMagicItemImage(content.imagePrompt, settings.style);
-        finalResult = { ...content, imageUrl };
+        const aspectRatio = forgeSettings.aspectRatio ?? '1:1';
+        const [imageUrl, ...alternateImageUrls] = await generateMagicItemImages(
+          content.imagePrompt,
+          forgeSettings.style,
+          forgeSettings.imageCount ?? 1,
+          aspectRatio
+        );
+        finalResult = { ...content, imageUrl, alternateImageUrls, imageAspectRatio: aspectRatio };
         setResult(finalResult);
       } catch (imgErr) {
         // Image generation failed (likely quota/API limits), but item was created successfully
         console.warn("Visual manifestation failed, but the scroll was written.", imgErr);
+        setImageError(getErrorMessage(imgErr));
         // Result already set with text content, so we continue without image
       }
 
@@ -111,8 +171,9 @@ const ForgePage: React.FC = () => {
 
     } catch (err) {
       console.error(err);
-      setError(err instanceof Error ? err.message : "The arcane rituals failed unexpectedly.");
+      setError(getErrorMessage(err));
     } finally {
+      setStreamingContent(null);
       setIsGenerating(false);
     }
   };
@@ -153,6 +214,46 @@ const ForgePage: React.FC = () => {
             >
               Forge
             </button>
+            <button
+              onClick={() => setViewMode('hoard')}
+              className={`px-4 py-2 rounded text-sm font-fantasy uppercase tracking-wider transition-colors ${
+                viewMode === 'hoard'
+                  ? 'bg-amber-950/30 border border-amber-600 text-amber-400'
+                  : 'bg-[#0f0f13] border border-[#2a2a35] text-slate-400 hover:text-amber-400 hover:border-amber-600/50'
+              }`}
+            >
+              Hoard
+            </button>
+            <button
+              onClick={() => setViewMode('shop')}
+              className={`px-4 py-2 rounded text-sm font-fantasy uppercase tracking-wider transition-colors ${
+                viewMode === 'shop'
+                  ? 'bg-amber-950/30 border border-amber-600 text-amber-400'
+                  : 'bg-[#0f0f13] border border-[#2a2a35] text-slate-400 hover:text-amber-400 hover:border-amber-600/50'
+              }`}
+            >
+              Shop
+            </button>
+            <button
+              onClick={() => setViewMode('tables')}
+              className={`px-4 py-2 rounded text-sm font-fantasy uppercase tracking-wider transition-colors ${
+                viewMode === 'tables'
+                  ? 'bg-amber-950/30 border border-amber-600 text-amber-400'
+                  : 'bg-[#0f0f13] border border-[#2a2a35] text-slate-400 hover:text-amber-400 hover:border-amber-600/50'
+              }`}
+            >
+              Tables
+            </button>
+            <button
+              onClick={() => setViewMode('play')}
+              className={`px-4 py-2 rounded text-sm font-fantasy uppercase tracking-wider transition-colors ${
+                viewMode === 'play'
+                  ? 'bg-amber-950/30 border border-amber-600 text-amber-400'
+                  : 'bg-[#0f0f13] border border-[#2a2a35] text-slate-400 hover:text-amber-400 hover:border-amber-600/50'
+              }`}
+            >
+              In Play
+            </button>
             <button
               onClick={() => setViewMode('saved')}
               className={`px-4 py-2 rounded text-sm font-fantasy uppercase tracking-wider transition-colors ${
@@ -201,6 +302,46 @@ const ForgePage: React.FC = () => {
               }}
             />
           </Suspense>
+        ) : viewMode === 'hoard' ? (
+          <Suspense fallback={null}>
+            <HoardForge
+              onViewItem={(item) => {
+                const savedId = (item as any).id;
+                if (savedId) {
+                  navigate(`/item/${savedId}`);
+                } else {
+                  // Hoard wasn't archived (Supabase not configured): show it on the forge
+                  setResult(item);
+                  setViewMode('generate');
+                  window.scrollTo({ top: 0, behavior: 'smooth' });
+                }
+              }}
+            />
+          </Suspense>
+        ) : viewMode === 'shop' ? (
+          <Suspense fallback={null}>
+            <ShopForge
+              onViewItem={(item) => {
+                const savedId = (item as any).id;
+                if (savedId) {
+                  navigate(`/item/${savedId}`);
+                } else {
+                  // Shop wasn't archived (Supabase not configured): show the item on the forge
+                  setResult(item);
+                  setViewMode('generate');
+                  window.scrollTo({ top: 0, behavior: 'smooth' });
+                }
+              }}
+            />
+          </Suspense>
+        ) : viewMode === 'tables' ? (
+          <Suspense fallback={null}>
+            <RandomTableBuilder onViewItem={(id) => navigate(`/item/${id}`)} />
+          </Suspense>
+        ) : viewMode === 'play' ? (
+          <Suspense fallback={null}>
+            <InPlayTracker onViewItem={(item) => navigate(`/item/${item.id}`)} />
+          </Suspense>
         ) : (
           <>
             {/* Form Area */}
@@ -208,15 +349,26 @@ const ForgePage: React.FC = () => {
               <GeneratorForm 
                 settings={settings} 
                 onSettingsChange={setSettings} 
-                onGenerate={handleGenerate}
+                onGenerate={() => handleGenerate()}
                 isGenerating={isGenerating}
               />
 
+              <VocabularyManager />
+              <PartyManager />
+              <CampaignManager />
+              <PromptTemplateEditor settings={settings} />
+
               {error && (
                 <div className="mt-6 p-4 bg-red-950/30 border border-red-900/50 rounded text-red-300 text-center text-sm max-w-2xl mx-auto font-serif italic">
                   ⚠️ {error}
                 </div>
               )}
+
+              {imageError && !error && (
+                <div className="mt-6 p-4 bg-amber-950/20 border border-amber-900/40 rounded text-amber-300/80 text-center text-sm max-w-2xl mx-auto font-serif italic">
+                  The item was forged, but its artwork was not. {imageError}
+                </div>
+              )}
             </section>
 
             {/* Output Area */}
@@ -233,7 +385,7 @@ const ForgePage: React.FC = () => {
               )}
               
               {/* Loading State */}
-              {isGenerating && !result && (
+              {isGenerating && !result && !streamingContent && (
                   <div className="flex flex-col items-center justify-center py-32 animate-pulse">
                     <div className="relative w-24 h-24">
                        <div className="absolute inset-0 border-4 border-t-amber-500 border-r-transparent border-b-purple-500 border-l-transparent rounded-full animate-spin"></div>
@@ -244,9 +396,21 @@ const ForgePage: React.FC = () => {
                   </div>
               )}
 
+              {/* Streaming Preview */}
+              {!result && streamingContent && (
+                <MagicItemDisplay result={streamingContent} isStreaming />
+              )}
+
               {/* Results */}
               {result && (
-                <MagicItemDisplay result={result} />
+                <MagicItemDisplay
+                  result={result}
+                  onItemChange={(item) => {
+                    setResult(item);
+                    loadRecentItems();
+                  }}
+                  onForgeAgain={handleForgeAgain}
+                />
               )}
             </section>
 
@@ -0,0 +1,35 @@
+import React from 'react';
+import { ItemArtifactProperties } from '../types';
+import { ARTIFACT_PROPERTY_KINDS, ARTIFACT_PROPERTY_LABELS } from '../services/artifactProperties';
+
+interface ArtifactSectionProps {
+  artifact: Partial<ItemArtifactProperties>;
+  // Formats property text, e.g. to turn dice into roll chips
+  renderText?: (text: string) => React.ReactNode;
+}
+
+const headingClass = "font-bold font-fantasy text-[#7a2020] text-xl mb-3 border-b border-[#7a2020]/30 pb-1";
+
+// Rendered on the parchment card, so it uses the card's ink palette
+export const ArtifactSection: React.FC<ArtifactSectionProps> = ({ artifact, renderText = (text) => text }) => (
+  <>
+    {ARTIFACT_PROPERTY_KINDS.filter((kind) => (artifact[kind] || []).length > 0).map((kind) => (
+      <div key={kind} className="mt-8">
+        <h4 className={headingClass}>{ARTIFACT_PROPERTY_LABELS[kind]}</h4>
+        {artifact[kind]!.map((property, index) => (
+          <div key={index} className="flex items-start gap-3 mb-2 pl-2 text-[#2c2c2c]">
+            <span className="text-[#922828] text-[10px] mt-[6px] transform rotate-45">◆</span>
+            <p className="leading-relaxed text-lg">{renderText(property)}</p>
+          </div>
+        ))}
+      </div>
+    ))}
+
+    {artifact.destruction && (
+      <div className="mt-8">
+        <h4 className={headingClass}>Destroying the Artifact</h4>
+        <p className="text-[#2c2c2c] leading-relaxed text-lg italic font-serif">{artifact.destruction}</p>
+      </div>
+    )}
+  </>
+);
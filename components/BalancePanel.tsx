@@ -0,0 +1,42 @@
+import React, { useMemo } from 'react';
+import { ItemData } from '../types';
+import { analyzeItemBalance } from '../services/balanceAnalyzer';
+
+interface BalancePanelProps {
+  itemData: ItemData;
+}
+
+export const BalancePanel: React.FC<BalancePanelProps> = ({ itemData }) => {
+  const report = useMemo(() => analyzeItemBalance(itemData), [itemData]);
+
+  if (report.warnings.length === 0) {
+    return (
+      <p className="text-[10px] uppercase tracking-widest text-emerald-600/80 font-fantasy">
+        ✓ Balanced for {itemData.rarity}
+      </p>
+    );
+  }
+
+  return (
+    <div className={`bg-[#0f0f13] border rounded p-4 ${report.isOvertuned ? 'border-red-900/60' : 'border-[#2a2a35]'}`}>
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-xs font-fantasy text-slate-500 uppercase tracking-widest">Balance Check</span>
+        {report.isOvertuned && (
+          <span className="text-xs font-fantasy text-red-400 uppercase tracking-widest">
+            Reads as {report.assessedRarity}
+          </span>
+        )}
+      </div>
+      <ul className="space-y-1">
+        {report.warnings.map((warning) => (
+          <li
+            key={warning.code}
+            className={`text-sm font-serif ${warning.severity === 'warning' ? 'text-red-300' : 'text-slate-400 italic'}`}
+          >
+            {warning.severity === 'warning' ? '⚠️ ' : ''}{warning.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
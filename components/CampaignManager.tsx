@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { CampaignField, CampaignProfile } from '../types';
+import {
+  CAMPAIGN_FIELD_LABELS,
+  CAMPAIGN_FIELDS,
+  emptyCampaignProfile,
+  MAX_CAMPAIGN_FIELD_LENGTH,
+  MAX_CAMPAIGN_NAME_LENGTH,
+  removeCampaignProfile,
+  saveCampaignProfile,
+} from '../services/campaignProfiles';
+import { useCampaignProfiles } from '../hooks/useCampaignProfiles';
+
+const FIELD_PLACEHOLDERS: Record<CampaignField, string> = {
+  setting: 'The world and the campaign\'s premise, e.g. "A drowned empire rebuilt on the backs of titanic turtles..."',
+  pantheon: 'Gods, saints and powers that are worshipped or feared',
+  factions: 'Guilds, cults, houses and who they oppose',
+  places: 'Cities, ruins and regions the party knows',
+  tone: 'e.g. "Grim and low-magic, with gallows humour"',
+  bannedContent: 'Topics the table has ruled out, e.g. "spiders, harm to children"',
+};
+
+/**
+ * Write, edit and remove campaign profiles (world bibles). Profiles are kept
+ * in this browser and can be chosen in the forge under "Campaign".
+ */
+export const CampaignManager: React.FC = () => {
+  const profiles = useCampaignProfiles();
+  const [draft, setDraft] = useState<CampaignProfile>(emptyCampaignProfile);
+  const [error, setError] = useState<string | null>(null);
+
+  const inputClass = "w-full bg-[#050505] border border-[#2a2a35] text-slate-300 rounded-sm px-3 py-2 text-sm focus:border-amber-600 focus:ring-1 focus:ring-amber-900 focus:outline-none transition-colors font-serif tracking-wide placeholder:text-slate-700";
+  const labelClass = "block text-[10px] uppercase tracking-[0.2em] text-amber-600/80 mb-1 font-fantasy";
+
+  const handleSave = () => {
+    try {
+      saveCampaignProfile(draft);
+      setDraft(emptyCampaignProfile());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the campaign.');
+    }
+  };
+
+  const editing = profiles.some((profile) => profile.name.toLowerCase() === draft.name.trim().toLowerCase());
+
+  return (
+    <details className="group bg-[#0f0f13] border border-[#2a2a35] rounded p-4 mt-6 max-w-7xl mx-auto">
+      <summary className="text-xs font-fantasy text-slate-500 uppercase tracking-widest cursor-pointer hover:text-amber-400 transition-colors list-none flex items-center gap-2">
+        <span className="w-2 h-2 border-l border-b border-current transform -rotate-45 group-open:rotate-0 transition-transform"></span>
+        Campaigns ({profiles.length})
+      </summary>
+
+      <div className="mt-4 space-y-4">
+        {profiles.length > 0 ? (
+          <ul className="space-y-1">
+            {profiles.map((profile) => (
+              <li key={profile.name} className="flex items-start justify-between gap-4 text-sm font-serif">
+                <button
+                  onClick={() => {
+                    setDraft(profile);
+                    setError(null);
+                  }}
+                  className="text-left text-slate-300 hover:text-amber-400 transition-colors"
+                >
+                  {profile.name}
+                  {profile.setting && <span className="text-slate-500 italic line-clamp-1"> — {profile.setting}</span>}
+                </button>
+                <button
+                  onClick={() => removeCampaignProfile(profile.name)}
+                  aria-label={`Remove ${profile.name}`}
+                  className="text-slate-600 hover:text-red-400 transition-colors"
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-slate-600 font-serif italic">No campaigns yet. Describe your world to forge items that belong in it.</p>
+        )}
+
+        <div>
+          <label className={labelClass}>Campaign Name</label>
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value.slice(0, MAX_CAMPAIGN_NAME_LENGTH) })}
+            placeholder="e.g. The Drowned Crown"
+            className={inputClass}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {CAMPAIGN_FIELDS.map((field) => (
+            <div key={field}>
+              <div className="flex items-baseline justify-between">
+                <label className={labelClass}>{CAMPAIGN_FIELD_LABELS[field]}</label>
+                <span className="text-[10px] text-slate-600 font-mono">
+                  {draft[field].length}/{MAX_CAMPAIGN_FIELD_LENGTH}
+                </span>
+              </div>
+              <textarea
+                value={draft[field]}
+                onChange={(e) => setDraft({ ...draft, [field]: e.target.value.slice(0, MAX_CAMPAIGN_FIELD_LENGTH) })}
+                placeholder={FIELD_PLACEHOLDERS[field]}
+                rows={field === 'setting' ? 4 : 2}
+                className={`${inputClass} resize-y`}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 bg-[#0f0f13] border border-[#2a2a35] rounded text-xs font-fantasy uppercase tracking-wider transition-colors text-slate-400 hover:text-amber-400 hover:border-amber-600/50"
+          >
+            {editing ? 'Update Campaign' : '+ Add Campaign'}
+          </button>
+          {(draft.name || CAMPAIGN_FIELDS.some((field) => draft[field])) && (
+            <button
+              onClick={() => {
+                setDraft(emptyCampaignProfile());
+                setError(null);
+              }}
+              className="px-4 py-2 text-xs font-fantasy uppercase tracking-wider text-slate-600 hover:text-slate-400 transition-colors"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <p className="text-xs text-red-300 font-serif italic">⚠️ {error}</p>
+        )}
+      </div>
+    </details>
+  );
+};
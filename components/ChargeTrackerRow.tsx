@@ -0,0 +1,78 @@
+import React from 'react';
+import { UsageTracker } from '../types';
+import { RECHARGE_TRIGGERS } from '../services/usageTracker';
+
+interface ChargeTrackerRowProps {
+  tracker: UsageTracker;
+  // Positive to spend charges, negative to restore them
+  onSpend: (amount: number) => void;
+  onRemove?: () => void;
+  disabled?: boolean;
+}
+
+// Small pools read best as pips; larger ones as a count
+const MAX_PIPS = 10;
+
+const describeRecharge = (tracker: UsageTracker) => {
+  const trigger = RECHARGE_TRIGGERS.find((option) => option.value === tracker.recharge)!.label;
+  if (tracker.recharge === 'manual') return 'Recharged by hand';
+  return `${tracker.rechargeDice ? `Regains ${tracker.rechargeDice}` : 'Refills'} at ${trigger.toLowerCase()}`;
+};
+
+export const ChargeTrackerRow: React.FC<ChargeTrackerRowProps> = ({ tracker, onSpend, onRemove, disabled }) => {
+  const buttonClass = "w-7 h-7 bg-[#050505] border border-[#2a2a35] rounded-sm text-slate-400 hover:text-amber-400 hover:border-amber-600/50 transition-colors disabled:opacity-30 disabled:cursor-not-allowed";
+
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <div className="min-w-0">
+        <p className="text-sm text-slate-300 font-serif truncate">{tracker.name}</p>
+        <p className="text-[10px] uppercase tracking-wider text-slate-600">{describeRecharge(tracker)}</p>
+      </div>
+
+      <div className="flex items-center gap-2 shrink-0">
+        <button
+          onClick={() => onSpend(1)}
+          disabled={disabled || tracker.current === 0}
+          aria-label={`Spend a charge of ${tracker.name}`}
+          className={buttonClass}
+        >
+          −
+        </button>
+        {tracker.max <= MAX_PIPS ? (
+          <span className="flex gap-1" aria-label={`${tracker.current} of ${tracker.max}`}>
+            {Array.from({ length: tracker.max }, (_, i) => (
+              <span
+                key={i}
+                className={`w-2.5 h-2.5 rotate-45 border ${
+                  i < tracker.current ? 'bg-amber-500 border-amber-400' : 'border-slate-700'
+                }`}
+              ></span>
+            ))}
+          </span>
+        ) : (
+          <span className="text-sm font-mono text-amber-500 w-14 text-center">
+            {tracker.current}/{tracker.max}
+          </span>
+        )}
+        <button
+          onClick={() => onSpend(-1)}
+          disabled={disabled || tracker.current === tracker.max}
+          aria-label={`Restore a charge of ${tracker.name}`}
+          className={buttonClass}
+        >
+          +
+        </button>
+        {onRemove && (
+          <button
+            onClick={onRemove}
+            disabled={disabled}
+            aria-label={`Remove ${tracker.name}`}
+            className="text-slate-600 hover:text-red-400 transition-colors ml-1"
+          >
+            ✕
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
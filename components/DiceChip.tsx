@@ -0,0 +1,18 @@
+import React from 'react';
+
+interface DiceChipProps {
+  expression: string;
+  onRoll: (expression: string) => void;
+}
+
+// Inline dice expression on the parchment card; click to roll it
+export const DiceChip: React.FC<DiceChipProps> = ({ expression, onRoll }) => (
+  <button
+    type="button"
+    onClick={() => onRoll(expression)}
+    title={`Roll ${expression}`}
+    className="inline px-1 mx-0.5 rounded-sm border border-[#922828]/40 bg-[#922828]/10 text-[#7a2020] font-bold hover:bg-[#922828]/20 transition-colors cursor-pointer"
+  >
+    🎲 {expression}
+  </button>
+);
@@ -0,0 +1,86 @@
+import React from 'react';
+import { describeRoll, RollMode } from '../services/dice';
+import { DiceRoller } from '../hooks/useDiceRoller';
+
+interface DiceRollLogProps {
+  roller: DiceRoller;
+}
+
+const MODES: { value: RollMode; label: string }[] = [
+  { value: 'disadvantage', label: 'Disadvantage' },
+  { value: 'normal', label: 'Normal' },
+  { value: 'advantage', label: 'Advantage' },
+];
+
+/**
+ * Roll options and the log of rolls made from the dice chips on the card.
+ */
+export const DiceRollLog: React.FC<DiceRollLogProps> = ({ roller }) => {
+  const { rolls, mode, setMode, critical, setCritical, clear } = roller;
+
+  return (
+    <div className="bg-[#0f0f13] border border-[#2a2a35] rounded p-4 space-y-3">
+      <div className="flex justify-between items-center">
+        <span className="text-xs font-fantasy text-slate-500 uppercase tracking-widest">Dice Rolls</span>
+        {rolls.length > 0 && (
+          <button
+            onClick={clear}
+            className="text-[10px] uppercase tracking-wider text-slate-600 hover:text-slate-400 transition-colors"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <div className="flex flex-1 bg-[#050505] border border-[#2a2a35] p-1 rounded-sm">
+          {MODES.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setMode(option.value)}
+              className={`flex-1 py-1 text-[10px] uppercase tracking-wider transition-all duration-300 ${
+                mode === option.value
+                  ? 'bg-[#1a1a2e] text-amber-400 border border-amber-900/50'
+                  : 'text-slate-600 hover:text-slate-400'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => setCritical(!critical)}
+          aria-pressed={critical}
+          title="Double the dice on the next roll"
+          className={`px-3 border rounded-sm text-[10px] uppercase tracking-wider transition-colors ${
+            critical
+              ? 'border-red-700/60 text-red-400 bg-[#1a1a2e]'
+              : 'border-[#2a2a35] text-slate-600 hover:text-slate-400'
+          }`}
+        >
+          Crit
+        </button>
+      </div>
+
+      {rolls.length > 0 ? (
+        <ul className="space-y-1 max-h-48 overflow-y-auto">
+          {rolls.map((roll, index) => (
+            <li
+              key={roll.id}
+              className={`flex justify-between gap-4 text-sm font-serif ${index === 0 ? 'text-slate-200' : 'text-slate-500'}`}
+            >
+              <span>
+                <span className="text-amber-500/80">{roll.label ? `${roll.label} (${roll.expression})` : roll.expression}</span>
+                {roll.critical && <span className="text-red-400"> · crit</span>}
+                {roll.mode !== 'normal' && <span className="text-slate-500"> · {roll.mode} (other {roll.discarded})</span>}
+              </span>
+              <span className="font-mono text-xs whitespace-nowrap">{describeRoll(roll)}</span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-slate-600 font-serif italic">Click a 🎲 expression on the card to roll it.</p>
+      )}
+    </div>
+  );
+};
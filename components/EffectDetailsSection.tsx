@@ -0,0 +1,64 @@
+import React from 'react';
+import { ItemEffect } from '../types';
+import { DiceChip } from './DiceChip';
+
+interface EffectDetailsSectionProps {
+  effects: ItemEffect[];
+  // Makes each effect's dice rollable, logged under the effect's name
+  onRoll?: (expression: string, label?: string) => void;
+}
+
+// "DC 15 DEX save", "DC 15 save" or "DEX save"
+const formatSave = (effect: ItemEffect) =>
+  effect.save_dc !== undefined || effect.save_ability
+    ? [effect.save_dc !== undefined ? `DC ${effect.save_dc}` : '', effect.save_ability, 'save'].filter(Boolean).join(' ')
+    : '';
+
+const formatUses = (effect: ItemEffect) => {
+  if (effect.charges === undefined) return effect.recharge ? `Recharges: ${effect.recharge}` : '';
+  const uses = `${effect.charges} ${effect.charges === 1 ? 'charge' : 'charges'}`;
+  return effect.recharge ? `${uses}, recharge ${effect.recharge}` : uses;
+};
+
+// Rendered on the parchment card, so it uses the card's ink palette
+export const EffectDetailsSection: React.FC<EffectDetailsSectionProps> = ({ effects, onRoll }) => (
+  <div className="mt-8">
+    <h4 className="font-bold font-fantasy text-[#7a2020] text-xl mb-3 border-b border-[#7a2020]/30 pb-1">
+      At a Glance
+    </h4>
+
+    <table className="w-full text-left text-base font-serif text-[#2c2c2c]">
+      <tbody>
+        {effects.map((effect, index) => {
+          const rollable = !!(onRoll && effect.dice);
+          const stats = [
+            rollable ? '' : [effect.dice, effect.damage_type].filter(Boolean).join(' '),
+            formatSave(effect),
+            effect.range,
+            effect.duration,
+            formatUses(effect),
+          ].filter(Boolean);
+
+          return (
+            <tr key={index} className="border-b border-[#922828]/20 last:border-b-0 align-top">
+              <th scope="row" className="py-1.5 pr-4 font-bold text-[#1a1a1a] whitespace-nowrap">
+                {effect.name}
+                <span className="block text-[10px] font-fantasy uppercase tracking-widest text-[#922828]">{effect.kind}</span>
+              </th>
+              <td className="py-1.5">
+                {rollable && (
+                  <>
+                    <DiceChip expression={effect.dice!} onRoll={(dice) => onRoll!(dice, effect.name)} />
+                    {effect.damage_type && ` ${effect.damage_type}`}
+                    {stats.length > 0 && ' · '}
+                  </>
+                )}
+                {stats.length > 0 ? stats.join(' · ') : !rollable && '—'}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  </div>
+);
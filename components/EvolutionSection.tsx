@@ -0,0 +1,63 @@
+import React from 'react';
+import { ItemStage } from '../types';
+
+interface EvolutionSectionProps {
+  stages: Partial<ItemStage>[];
+  // Index of the stage the item has reached
+  currentStage: number;
+  // Enables the stage selector; without it the stages are read-only
+  onStageChange?: (stage: number) => void;
+  disabled?: boolean;
+  // Formats effect text, e.g. to turn dice into roll chips
+  renderText?: (text: string) => React.ReactNode;
+}
+
+// Rendered on the parchment card, so it uses the card's ink palette
+export const EvolutionSection: React.FC<EvolutionSectionProps> = ({ stages, currentStage, onStageChange, disabled, renderText = (text) => text }) => (
+  <div className="mt-8">
+    <h4 className="font-bold font-fantasy text-[#7a2020] text-xl mb-3 border-b border-[#7a2020]/30 pb-1">
+      Evolution
+    </h4>
+
+    {onStageChange && (
+      <div className="flex border border-[#922828]/40 mb-4" role="group" aria-label="Current stage">
+        {stages.map((stage, index) => (
+          <button
+            key={index}
+            onClick={() => onStageChange(index)}
+            disabled={disabled}
+            aria-pressed={index === currentStage}
+            className={`flex-1 py-1 text-xs font-fantasy uppercase tracking-widest transition-colors disabled:cursor-wait ${
+              index === currentStage
+                ? 'bg-[#922828] text-[#e3dacb]'
+                : 'text-[#922828] hover:bg-[#922828]/10'
+            }`}
+          >
+            {stage.name || `Stage ${index + 1}`}
+          </button>
+        ))}
+      </div>
+    )}
+
+    {stages.map((stage, index) => {
+      const unlocked = index <= currentStage;
+      return (
+        <div key={index} className={`mb-4 transition-opacity ${unlocked ? '' : 'opacity-50'}`}>
+          <p className="text-[#2c2c2c] text-lg font-serif">
+            <strong className="font-bold font-fantasy text-[#1a1a1a]">{stage.name}</strong>
+            {!unlocked && <span className="text-xs font-fantasy uppercase tracking-widest text-[#922828]"> · Locked</span>}
+          </p>
+          {stage.unlock && (
+            <p className="text-[#4a4a4a] italic leading-relaxed font-serif mb-1">Unlocks: {stage.unlock}</p>
+          )}
+          {(stage.effects || []).map((effect, effectIndex) => (
+            <div key={effectIndex} className="flex items-start gap-3 mb-1 pl-2 text-[#2c2c2c]">
+              <span className="text-[#922828] text-[10px] mt-[6px] transform rotate-45">◆</span>
+              <p className="leading-relaxed text-lg">{renderText(effect)}</p>
+            </div>
+          ))}
+        </div>
+      );
+    })}
+  </div>
+);
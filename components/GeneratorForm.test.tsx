@@ -3,6 +3,7 @@ import { render, screen, fireEvent } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { GeneratorForm } from './GeneratorForm';
 import { GenerationSettings } from '../types';
+import { CUSTOM_VOCABULARY_KEY } from '../services/customVocabulary';
 
 const defaultSettings: GenerationSettings = {
   rarity: 'Rare',
@@ -69,6 +70,15 @@ describe('GeneratorForm', () => {
     expect(onSettingsChange).toHaveBeenCalledWith({ ...defaultSettings, style: 'Watercolor' });
   });
 
+  it('calls onSettingsChange with image aspect ratio and variation count', () => {
+    renderForm();
+    fireEvent.change(screen.getByDisplayValue('Square (1:1)'), { target: { value: '3:4' } });
+    expect(onSettingsChange).toHaveBeenCalledWith({ ...defaultSettings, aspectRatio: '3:4' });
+
+    fireEvent.change(screen.getByDisplayValue('1 image'), { target: { value: '3' } });
+    expect(onSettingsChange).toHaveBeenCalledWith({ ...defaultSettings, imageCount: 3 });
+  });
+
   it('calls onSettingsChange when a power band is clicked', () => {
     renderForm();
     // Power band labels are truncated to the first word: 'Low', 'Standard', 'High', 'Mythic'
@@ -88,6 +98,56 @@ describe('GeneratorForm', () => {
     expect(onSettingsChange).toHaveBeenCalledWith({ ...defaultSettings, includePlotHook: false });
   });
 
+  it('calls onSettingsChange when sentience toggle is clicked', () => {
+    renderForm();
+    fireEvent.click(screen.getByText(/awaken: sentience/i));
+    expect(onSettingsChange).toHaveBeenCalledWith({ ...defaultSettings, includeSentience: true });
+  });
+
+  it('calls onSettingsChange when balance toggle is clicked', () => {
+    renderForm();
+    fireEvent.click(screen.getByText(/temper: balance/i));
+    expect(onSettingsChange).toHaveBeenCalledWith({ ...defaultSettings, autoRebalance: true });
+  });
+
+  it('switches game system, falling back to its default type and a rarity it offers', () => {
+    renderForm({ rarity: 'Legendary' });
+    fireEvent.click(screen.getByText('PF2e'));
+    expect(onSettingsChange).toHaveBeenCalledWith({
+      ...defaultSettings,
+      gameSystem: 'pf2e',
+      type: 'Worn Item',
+      rarity: 'Rare',
+    });
+  });
+
+  it('calls onSettingsChange with the output language', () => {
+    renderForm();
+    fireEvent.change(screen.getByDisplayValue('English'), { target: { value: 'de' } });
+    expect(onSettingsChange).toHaveBeenCalledWith({ ...defaultSettings, language: 'de' });
+  });
+
+  it('merges homebrew vocabulary into the selects', () => {
+    localStorage.setItem(CUSTOM_VOCABULARY_KEY, JSON.stringify({
+      themes: [{ name: 'Sunken Empire', description: '' }],
+      styles: [{ name: 'Woodcut Print', description: 'bold black linework' }],
+      itemTypes: [{ name: 'Tattoo', description: '' }],
+    }));
+    renderForm();
+    localStorage.removeItem(CUSTOM_VOCABULARY_KEY);
+
+    expect(screen.getByRole('option', { name: 'Sunken Empire' })).toBeInTheDocument();
+    expect(screen.getByRole('option', { name: 'Woodcut Print' })).toBeInTheDocument();
+    expect(screen.getByRole('option', { name: 'Tattoo' })).toBeInTheDocument();
+  });
+
+  it('offers the item types and rarities of the selected system', () => {
+    renderForm({ gameSystem: 'pf2e', type: 'Worn Item' });
+    expect(screen.getByRole('option', { name: 'Unique' })).toBeInTheDocument();
+    expect(screen.queryByRole('option', { name: 'Wondrous Item' })).not.toBeInTheDocument();
+    expect(screen.queryByText(/temper: balance/i)).not.toBeInTheDocument();
+  });
+
   it('calls onSettingsChange when lore seed changes', () => {
     renderForm();
     const textarea = screen.getByPlaceholderText(/a blade forged/i);
@@ -1,17 +1,23 @@
-import React from 'react';
-import { GenerationSettings, Rarity, PowerBand } from '../types';
+import React, { useEffect } from 'react';
+import { GenerationSettings, Rarity, PowerBand, ImageAspectRatio, GameSystemId, ItemLanguage, ArtifactPropertyMode, PartyTarget } from '../types';
 import {
-  RARITIES,
   POWER_BANDS,
-  SIMPLE_MELEE_WEAPONS,
-  SIMPLE_RANGED_WEAPONS,
-  MARTIAL_MELEE_WEAPONS,
-  MARTIAL_RANGED_WEAPONS,
-  OTHER_ITEM_TYPES,
   THEMES,
   VISUAL_STYLES,
+  ASPECT_RATIOS,
+  MAX_IMAGE_VARIATIONS,
+  LANGUAGES,
+  ARTIFACT_PROPERTY_MODES,
 } from '../constants';
 import { Button } from './Button';
+import { GAME_SYSTEM_IDS, GAME_SYSTEMS, getGameSystem, getItemTypes } from '../services/gameSystems';
+import { useCustomVocabulary } from '../hooks/useCustomVocabulary';
+import { useParty } from '../hooks/useParty';
+import { useCampaignProfiles } from '../hooks/useCampaignProfiles';
+import { canTargetUseItemType } from '../services/partyService';
+
+// "Forge For" select value for the party as a whole; characters are `member:<name>`
+const WHOLE_PARTY = 'party';
 
 interface GeneratorFormProps {
   settings: GenerationSettings;
@@ -31,6 +37,56 @@ export const GeneratorForm: React.FC<GeneratorFormProps> = ({
     onSettingsChange({ ...settings, [key]: value });
   };
 
+  const system = getGameSystem(settings.gameSystem);
+  const vocabulary = useCustomVocabulary();
+
+  // Keep the type and rarity when the new system has them, otherwise fall back to its defaults
+  const handleSystemChange = (id: GameSystemId) => {
+    const next = getGameSystem(id);
+    onSettingsChange({
+      ...settings,
+      gameSystem: id,
+      type: [...getItemTypes(next), ...vocabulary.itemTypes.map((entry) => entry.name)].includes(settings.type)
+        ? settings.type
+        : next.defaultType,
+      rarity: next.rarities.includes(settings.rarity) ? settings.rarity : 'Rare',
+    });
+  };
+
+  // The settings carry a snapshot of the party, so it follows the party as it changes
+  const party = useParty();
+  const target = settings.partyTarget;
+  useEffect(() => {
+    if (!target) return;
+    const character = party.some((member) => member.name === target.character) ? target.character : undefined;
+    const next: PartyTarget | undefined = party.length > 0 ? { members: party, ...(character ? { character } : {}) } : undefined;
+    if (JSON.stringify(next) !== JSON.stringify(target)) {
+      handleChange('partyTarget', next);
+    }
+  }, [party]);
+
+  const handleTargetChange = (value: string) => {
+    if (!value) {
+      handleChange('partyTarget', undefined);
+      return;
+    }
+    const character = value.startsWith('member:') ? value.slice('member:'.length) : undefined;
+    handleChange('partyTarget', { members: party, ...(character ? { character } : {}) });
+  };
+
+  const targetValue = !target ? '' : target.character ? `member:${target.character}` : WHOLE_PARTY;
+  const canUseType = (type: string) => !target || canTargetUseItemType(target, type);
+
+  // Likewise the selected campaign profile, dropped if it is removed
+  const campaigns = useCampaignProfiles();
+  useEffect(() => {
+    if (!settings.campaign) return;
+    const current = campaigns.find((profile) => profile.name === settings.campaign!.name);
+    if (JSON.stringify(current) !== JSON.stringify(settings.campaign)) {
+      handleChange('campaign', current);
+    }
+  }, [campaigns]);
+
   const labelClass = "block text-[10px] uppercase tracking-[0.2em] text-amber-600/80 mb-1 font-fantasy";
   const selectClass = "w-full bg-[#050505] border border-[#2a2a35] text-slate-300 rounded-sm px-3 py-2 text-sm focus:border-amber-600 focus:ring-1 focus:ring-amber-900 focus:outline-none transition-colors font-serif tracking-wide";
 
@@ -60,41 +116,24 @@ export const GeneratorForm: React.FC<GeneratorFormProps> = ({
                 onChange={(e) => handleChange('type', e.target.value)}
                 className={selectClass}
               >
-                <optgroup label="Weapons – Simple Melee">
-                  {SIMPLE_MELEE_WEAPONS.map((t) => (
-                    <option key={t} value={t}>
-                      {t}
-                    </option>
-                  ))}
-                </optgroup>
-                <optgroup label="Weapons – Simple Ranged">
-                  {SIMPLE_RANGED_WEAPONS.map((t) => (
-                    <option key={t} value={t}>
-                      {t}
-                    </option>
-                  ))}
-                </optgroup>
-                <optgroup label="Weapons – Martial Melee">
-                  {MARTIAL_MELEE_WEAPONS.map((t) => (
-                    <option key={t} value={t}>
-                      {t}
-                    </option>
-                  ))}
-                </optgroup>
-                <optgroup label="Weapons – Martial Ranged">
-                  {MARTIAL_RANGED_WEAPONS.map((t) => (
-                    <option key={t} value={t}>
-                      {t}
-                    </option>
-                  ))}
-                </optgroup>
-                <optgroup label="Other Magic Items">
-                  {OTHER_ITEM_TYPES.map((t) => (
-                    <option key={t} value={t}>
-                      {t}
-                    </option>
-                  ))}
-                </optgroup>
+                {system.itemTypeGroups.map((group) => (
+                  <optgroup key={group.label} label={group.label}>
+                    {group.types.map((t) => (
+                      <option key={t} value={t} disabled={!canUseType(t)}>
+                        {t}
+                      </option>
+                    ))}
+                  </optgroup>
+                ))}
+                {vocabulary.itemTypes.length > 0 && (
+                  <optgroup label="Homebrew">
+                    {vocabulary.itemTypes.map((entry) => (
+                      <option key={entry.name} value={entry.name}>
+                        {entry.name}
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
               </select>
             </div>
             <div>
@@ -104,7 +143,7 @@ export const GeneratorForm: React.FC<GeneratorFormProps> = ({
                 onChange={(e) => handleChange('rarity', e.target.value as Rarity)}
                 className={selectClass}
               >
-                {RARITIES.map(r => <option key={r} value={r}>{r}</option>)}
+                {system.rarities.map(r => <option key={r} value={r}>{r}</option>)}
               </select>
             </div>
             <div>
@@ -115,6 +154,11 @@ export const GeneratorForm: React.FC<GeneratorFormProps> = ({
                 className={selectClass}
               >
                 {THEMES.map(t => <option key={t} value={t}>{t}</option>)}
+                {vocabulary.themes.length > 0 && (
+                  <optgroup label="Homebrew">
+                    {vocabulary.themes.map(t => <option key={t.name} value={t.name}>{t.name}</option>)}
+                  </optgroup>
+                )}
               </select>
             </div>
             <div>
@@ -125,12 +169,35 @@ export const GeneratorForm: React.FC<GeneratorFormProps> = ({
                 className={selectClass}
               >
                 {VISUAL_STYLES.map(s => <option key={s} value={s}>{s}</option>)}
+                {vocabulary.styles.length > 0 && (
+                  <optgroup label="Homebrew">
+                    {vocabulary.styles.map(s => <option key={s.name} value={s.name}>{s.name}</option>)}
+                  </optgroup>
+                )}
               </select>
             </div>
           </div>
 
-          {/* Column 5: Power Band (4 columns wide total) */}
+          {/* Column 5: Game System and Power Band (4 columns wide total) */}
           <div className="lg:col-span-4">
+            <label className={labelClass}>Game System</label>
+            <div className="flex bg-[#050505] border border-[#2a2a35] p-1 rounded-sm h-[38px] mb-4">
+              {GAME_SYSTEM_IDS.map((id) => (
+                <button
+                  key={id}
+                  onClick={() => handleSystemChange(id)}
+                  title={GAME_SYSTEMS[id].label}
+                  className={`flex-1 text-[10px] uppercase tracking-wider transition-all duration-300 ${
+                    system.id === id
+                      ? 'bg-[#1a1a2e] text-amber-400 border border-amber-900/50 shadow-[0_0_10px_rgba(199,160,89,0.1)]'
+                      : 'text-slate-600 hover:text-slate-400'
+                  }`}
+                >
+                  {GAME_SYSTEMS[id].shortLabel}
+                </button>
+              ))}
+            </div>
+
             <div className="flex items-center gap-1.5 mb-1">
               <label className={labelClass}>Resonance Level</label>
               <div className="relative group flex items-center" style={{ marginTop: '-6px' }}>
@@ -164,6 +231,91 @@ export const GeneratorForm: React.FC<GeneratorFormProps> = ({
                 </button>
               ))}
             </div>
+
+            <div className="grid grid-cols-2 gap-4 mt-4">
+              <div>
+                <label className={labelClass}>Aspect</label>
+                <select
+                  value={settings.aspectRatio ?? '1:1'}
+                  onChange={(e) => handleChange('aspectRatio', e.target.value as ImageAspectRatio)}
+                  className={selectClass}
+                >
+                  {ASPECT_RATIOS.map(a => <option key={a.value} value={a.value}>{a.label}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Variations</label>
+                <select
+                  value={settings.imageCount ?? 1}
+                  onChange={(e) => handleChange('imageCount', Number(e.target.value))}
+                  className={selectClass}
+                >
+                  {Array.from({ length: MAX_IMAGE_VARIATIONS }, (_, i) => i + 1).map(n => (
+                    <option key={n} value={n}>{n === 1 ? '1 image' : `${n} images`}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="mt-4">
+              <label className={labelClass}>Language</label>
+              <select
+                value={settings.language ?? 'en'}
+                onChange={(e) => handleChange('language', e.target.value as ItemLanguage)}
+                className={selectClass}
+              >
+                {LANGUAGES.map(l => <option key={l.value} value={l.value}>{l.label}</option>)}
+              </select>
+            </div>
+
+            {settings.rarity === 'Artifact' && (
+              <div className="mt-4">
+                <label className={labelClass}>Artifact Properties</label>
+                <select
+                  value={settings.artifactProperties ?? 'none'}
+                  onChange={(e) => handleChange('artifactProperties', e.target.value as ArtifactPropertyMode)}
+                  className={selectClass}
+                >
+                  {ARTIFACT_PROPERTY_MODES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                </select>
+              </div>
+            )}
+
+            {campaigns.length > 0 && (
+              <div className="mt-4">
+                <label className={labelClass}>Campaign</label>
+                <select
+                  value={settings.campaign?.name ?? ''}
+                  onChange={(e) => handleChange('campaign', campaigns.find((profile) => profile.name === e.target.value))}
+                  className={selectClass}
+                >
+                  <option value="">No Campaign</option>
+                  {campaigns.map(c => <option key={c.name} value={c.name}>{c.name}</option>)}
+                </select>
+              </div>
+            )}
+
+            {party.length > 0 && (
+              <div className="mt-4">
+                <label className={labelClass}>Forge For</label>
+                <select
+                  value={targetValue}
+                  onChange={(e) => handleTargetChange(e.target.value)}
+                  className={selectClass}
+                >
+                  <option value="">Anyone</option>
+                  <option value={WHOLE_PARTY}>The Whole Party</option>
+                  {party.map(m => <option key={m.name} value={`member:${m.name}`}>{m.name} ({m.className} {m.level})</option>)}
+                </select>
+                {!canUseType(settings.type) && (
+                  <p className="mt-1 text-[10px] text-amber-700 font-serif italic">
+                    {target?.character
+                      ? `${target.character} is not proficient with ${settings.type}.`
+                      : `No one in the party is proficient with ${settings.type}.`}
+                  </p>
+                )}
+              </div>
+            )}
           </div>
 
         </div>
@@ -192,7 +344,7 @@ export const GeneratorForm: React.FC<GeneratorFormProps> = ({
         <div className="mt-6 pt-6 border-t border-[#2a2a35] flex flex-col md:flex-row items-center justify-between gap-6">
             
             {/* Left: Toggles */}
-            <div className="flex gap-8">
+            <div className="flex flex-wrap gap-8">
                {/* Curse Toggle */}
                <label className="flex items-center gap-3 cursor-pointer group">
                   <div className={`w-4 h-4 border transition-colors duration-300 flex items-center justify-center ${settings.includeCurse ? 'border-red-500 bg-red-900/20' : 'border-slate-700 bg-[#050505]'}`}>
@@ -224,6 +376,56 @@ export const GeneratorForm: React.FC<GeneratorFormProps> = ({
                     Weave: Plot Hook
                   </span>
                </label>
+
+               {/* Sentience Toggle */}
+               <label className="flex items-center gap-3 cursor-pointer group">
+                  <div className={`w-4 h-4 border transition-colors duration-300 flex items-center justify-center ${settings.includeSentience ? 'border-purple-500 bg-purple-900/20' : 'border-slate-700 bg-[#050505]'}`}>
+                    {settings.includeSentience && <div className="w-2 h-2 bg-purple-500 shadow-[0_0_8px_rgba(168,85,247,0.8)]" />}
+                  </div>
+                  <input 
+                    type="checkbox" 
+                    checked={!!settings.includeSentience}
+                    onChange={(e) => handleChange('includeSentience', e.target.checked)}
+                    className="hidden"
+                  />
+                  <span className={`text-xs uppercase tracking-widest font-fantasy transition-colors ${settings.includeSentience ? 'text-purple-400' : 'text-slate-500 group-hover:text-slate-300'}`}>
+                    Awaken: Sentience
+                  </span>
+               </label>
+
+               {/* Evolution Toggle */}
+               <label className="flex items-center gap-3 cursor-pointer group">
+                  <div className={`w-4 h-4 border transition-colors duration-300 flex items-center justify-center ${settings.includeEvolution ? 'border-amber-500 bg-amber-900/20' : 'border-slate-700 bg-[#050505]'}`}>
+                    {settings.includeEvolution && <div className="w-2 h-2 bg-amber-500 shadow-[0_0_8px_rgba(245,158,11,0.8)]" />}
+                  </div>
+                  <input 
+                    type="checkbox" 
+                    checked={!!settings.includeEvolution}
+                    onChange={(e) => handleChange('includeEvolution', e.target.checked)}
+                    className="hidden"
+                  />
+                  <span className={`text-xs uppercase tracking-widest font-fantasy transition-colors ${settings.includeEvolution ? 'text-amber-400' : 'text-slate-500 group-hover:text-slate-300'}`}>
+                    Grow: Evolving Stages
+                  </span>
+               </label>
+
+               {/* Balance Toggle (the analyzer is calibrated for 5e) */}
+               {system.balanceChecks && (
+                 <label className="flex items-center gap-3 cursor-pointer group">
+                    <div className={`w-4 h-4 border transition-colors duration-300 flex items-center justify-center ${settings.autoRebalance ? 'border-emerald-500 bg-emerald-900/20' : 'border-slate-700 bg-[#050505]'}`}>
+                      {settings.autoRebalance && <div className="w-2 h-2 bg-emerald-500 shadow-[0_0_8px_rgba(16,185,129,0.8)]" />}
+                    </div>
+                    <input 
+                      type="checkbox" 
+                      checked={!!settings.autoRebalance}
+                      onChange={(e) => handleChange('autoRebalance', e.target.checked)}
+                      className="hidden"
+                    />
+                    <span className={`text-xs uppercase tracking-widest font-fantasy transition-colors ${settings.autoRebalance ? 'text-emerald-400' : 'text-slate-500 group-hover:text-slate-300'}`}>
+                      Temper: Balance
+                    </span>
+                 </label>
+               )}
             </div>
 
             {/* Right: Action */}
@@ -0,0 +1,243 @@
+import React, { useState } from 'react';
+import { ChallengeRatingBand, CoinPurse, HoardSettings, MagicItemResult, PowerBand, TreasureHoard } from '../types';
+import { CR_BANDS, DEFAULT_HOARD_SETTINGS, POWER_BANDS, THEMES, VISUAL_STYLES } from '../constants';
+import { forgeHoard, getHoardValue } from '../services/hoardService';
+import { saveHoard } from '../services/storageService';
+import { isProviderConfigured } from '../services/aiProvider';
+import { getErrorMessage } from '../services/generationErrors';
+import { Button } from './Button';
+
+interface HoardForgeProps {
+  onViewItem: (item: MagicItemResult) => void;
+}
+
+const COIN_LABELS: Record<keyof CoinPurse, string> = {
+  cp: 'Copper',
+  sp: 'Silver',
+  ep: 'Electrum',
+  gp: 'Gold',
+  pp: 'Platinum',
+};
+
+const rarityColors: Record<string, string> = {
+  'Common': 'text-slate-400',
+  'Uncommon': 'text-emerald-400',
+  'Rare': 'text-blue-400',
+  'Very Rare': 'text-purple-400',
+  'Legendary': 'text-amber-400',
+  'Artifact': 'text-red-500',
+};
+
+export const HoardForge: React.FC<HoardForgeProps> = ({ onViewItem }) => {
+  const [settings, setSettings] = useState<HoardSettings>(DEFAULT_HOARD_SETTINGS);
+  const [hoard, setHoard] = useState<TreasureHoard | null>(null);
+  // waitSeconds is set while the forge waits out the rate limit
+  const [progress, setProgress] = useState<{ completed: number; total: number; waitSeconds?: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleChange = <K extends keyof HoardSettings>(key: K, value: HoardSettings[K]) => {
+    setSettings({ ...settings, [key]: value });
+  };
+
+  const handleForge = async () => {
+    if (!isProviderConfigured()) {
+      setError("API Key is missing. The forge cannot operate without fuel.");
+      return;
+    }
+
+    setError(null);
+    setHoard(null);
+    setProgress({ completed: 0, total: 0 });
+
+    let planned = 0;
+    try {
+      let result = await forgeHoard(
+        settings,
+        (completed, total) => {
+          planned = total;
+          setProgress({ completed, total });
+        },
+        (waitSeconds) => setProgress((current) => current && { ...current, waitSeconds })
+      );
+      setHoard(result);
+      if (result.items.length < planned) {
+        setError(`Only ${result.items.length} of ${planned} magic items could be forged; the hoard was saved without the rest.`);
+      }
+
+      // Save the items and link them as a group (silently skipped if Supabase not configured)
+      try {
+        const saved = await saveHoard(result);
+        if (saved) {
+          result = saved;
+          setHoard(result);
+        }
+      } catch (saveErr) {
+        console.warn('Failed to save hoard to database:', saveErr);
+      }
+    } catch (err) {
+      console.error(err);
+      setError(getErrorMessage(err));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const labelClass = "block text-[10px] uppercase tracking-[0.2em] text-amber-600/80 mb-1 font-fantasy";
+  const selectClass = "w-full bg-[#050505] border border-[#2a2a35] text-slate-300 rounded-sm px-3 py-2 text-sm focus:border-amber-600 focus:ring-1 focus:ring-amber-900 focus:outline-none transition-colors font-serif tracking-wide";
+  const panelClass = "bg-[#0f0f13] border border-[#2a2a35] rounded-md p-4";
+
+  return (
+    <div className="w-full max-w-7xl mx-auto animate-fade-in">
+      <div className="mb-8">
+        <h2 className="text-3xl font-fantasy font-bold tracking-widest text-transparent bg-clip-text bg-gradient-to-r from-amber-200 via-amber-500 to-amber-700 mb-2">
+          TREASURE HOARD
+        </h2>
+        <p className="text-sm text-slate-500 font-mono">
+          Roll coins, gems, art objects and a rarity-weighted set of magic items for an encounter.
+        </p>
+      </div>
+
+      {/* Hoard Settings */}
+      <div className={`${panelClass} mb-6`}>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+          <div>
+            <label className={labelClass}>Challenge Rating</label>
+            <div className="flex bg-[#050505] border border-[#2a2a35] p-1 rounded-sm h-[38px]">
+              {CR_BANDS.map((band) => (
+                <button
+                  key={band}
+                  onClick={() => handleChange('crBand', band as ChallengeRatingBand)}
+                  className={`flex-1 text-[10px] uppercase tracking-wider transition-all duration-300 ${
+                    settings.crBand === band
+                      ? 'bg-[#1a1a2e] text-amber-400 border border-amber-900/50'
+                      : 'text-slate-600 hover:text-slate-400'
+                  }`}
+                >
+                  {band}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className={labelClass} htmlFor="hoard-party-size">Party Size</label>
+            <input
+              id="hoard-party-size"
+              type="number"
+              min={1}
+              max={10}
+              value={settings.partySize}
+              onChange={(e) => handleChange('partySize', Math.min(10, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+              className={selectClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Theme</label>
+            <select value={settings.theme} onChange={(e) => handleChange('theme', e.target.value)} className={selectClass}>
+              {THEMES.map(t => <option key={t} value={t}>{t}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Art Style</label>
+            <select value={settings.style} onChange={(e) => handleChange('style', e.target.value)} className={selectClass}>
+              {VISUAL_STYLES.map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Resonance Level</label>
+            <select value={settings.powerBand} onChange={(e) => handleChange('powerBand', e.target.value as PowerBand)} className={selectClass}>
+              {POWER_BANDS.map(pb => <option key={pb} value={pb}>{pb}</option>)}
+            </select>
+          </div>
+        </div>
+
+        <div className="mt-6 pt-6 border-t border-[#2a2a35] flex flex-col md:flex-row items-center justify-between gap-4">
+          <p className="text-xs text-slate-500 font-mono">
+            {progress?.waitSeconds
+              ? `The forge is cooling; resuming in about ${progress.waitSeconds}s...`
+              : progress && progress.total > 0
+              ? `Forging item ${Math.min(progress.completed + 1, progress.total)} of ${progress.total}...`
+              : 'Each magic item is forged and archived individually, then linked as one hoard.'}
+          </p>
+          <Button onClick={handleForge} isLoading={!!progress} className="w-full md:w-64">
+            <span className="text-lg mr-2">💰</span> Roll Hoard
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-950/30 border border-red-900/50 rounded text-red-300 text-center text-sm max-w-2xl mx-auto font-serif italic">
+          ⚠️ {error}
+        </div>
+      )}
+
+      {hoard && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {/* Coins */}
+            <div className={panelClass}>
+              <h3 className="text-xs font-fantasy text-amber-500 uppercase tracking-widest mb-3">Coinage</h3>
+              <ul className="space-y-1 font-serif">
+                {(Object.keys(COIN_LABELS) as (keyof CoinPurse)[])
+                  .filter((coin) => hoard.coins[coin] > 0)
+                  .map((coin) => (
+                    <li key={coin} className="flex justify-between text-slate-300">
+                      <span>{COIN_LABELS[coin]}</span>
+                      <span className="font-mono text-amber-400">{hoard.coins[coin].toLocaleString()} {coin}</span>
+                    </li>
+                  ))}
+              </ul>
+            </div>
+
+            {/* Gems & Art */}
+            <div className={panelClass}>
+              <h3 className="text-xs font-fantasy text-amber-500 uppercase tracking-widest mb-3">Gems &amp; Art Objects</h3>
+              <ul className="space-y-1 font-serif">
+                {hoard.valuables.map((v) => (
+                  <li key={`${v.name}-${v.value_gp}`} className="flex justify-between text-slate-300">
+                    <span>{v.quantity > 1 ? `${v.quantity}× ` : ''}{v.name}</span>
+                    <span className="font-mono text-slate-500">{v.value_gp.toLocaleString()} gp each</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+
+          <div className={`${panelClass} flex justify-between items-center`}>
+            <span className="text-xs font-fantasy text-slate-500 uppercase tracking-widest">Mundane Treasure Value</span>
+            <span className="text-amber-500 text-xl font-serif font-bold">{getHoardValue(hoard).toLocaleString()} <span className="text-xs text-amber-700">gp</span></span>
+          </div>
+
+          {/* Magic Items */}
+          <div>
+            <h3 className="text-xs font-fantasy text-amber-500 uppercase tracking-widest mb-3">Magic Items</h3>
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+              {hoard.items.map((item, index) => (
+                <div
+                  key={(item as any).id || index}
+                  onClick={() => onViewItem(item)}
+                  className="bg-[#0f0f13] border border-[#2a2a35] rounded-md p-3 cursor-pointer hover:border-amber-600/50 transition-all duration-300"
+                >
+                  <div className="aspect-square rounded mb-3 overflow-hidden bg-black">
+                    {item.imageUrl ? (
+                      <img src={item.imageUrl} alt={item.itemData.name} className="w-full h-full object-cover" loading="lazy" decoding="async" />
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center bg-[#050505]">
+                        <span className="text-2xl opacity-30">🔮</span>
+                      </div>
+                    )}
+                  </div>
+                  <h4 className={`text-sm font-fantasy font-bold line-clamp-1 ${rarityColors[item.itemData.rarity] || rarityColors['Common']}`}>
+                    {item.itemData.name}
+                  </h4>
+                  <p className="text-[10px] text-slate-500 font-serif italic line-clamp-1">
+                    {item.itemData.rarity} {item.itemData.type}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
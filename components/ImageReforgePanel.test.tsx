@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+
+vi.mock('../services/geminiService', () => ({
+  generateMagicItemImage: vi.fn(),
+}));
+
+vi.mock('../services/storageService', () => ({
+  updateItem: vi.fn(),
+  updateItemImage: vi.fn(),
+}));
+
+import { ImageReforgePanel } from './ImageReforgePanel';
+import { generateMagicItemImage } from '../services/geminiService';
+import { updateItem, updateItemImage } from '../services/storageService';
+import { MAX_GENERATIONS_PER_MINUTE, RATE_LIMIT_KEY } from '../services/rateLimit';
+import { MAX_IMAGE_VARIATIONS } from '../constants';
+import { MagicItemResult } from '../types';
+
+const item = (overrides?: Partial<MagicItemResult> & { id?: string }): MagicItemResult => ({
+  itemData: {
+    name: 'Emberheart Blade',
+    type: 'Weapon (Longsword)',
+    rarity: 'Rare',
+    style: 'Oil Painting',
+    theme: 'None',
+    powerBand: 'Standard',
+    description: 'A blade that smoulders.',
+    mechanics: { attunement: true, effects: ['+1 to attack rolls.'], activation: '', scaling: '' },
+    curse: '',
+    plot_hook: '',
+    price_gp: 4000,
+  },
+  imagePrompt: 'A longsword with glowing embers.',
+  itemCard: 'card',
+  imageUrl: 'data:image/png;base64,current',
+  ...overrides,
+});
+
+describe('ImageReforgePanel', () => {
+  let onItemChange: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    localStorage.removeItem(RATE_LIMIT_KEY);
+    onItemChange = vi.fn();
+    vi.mocked(generateMagicItemImage).mockReset().mockResolvedValue('data:image/png;base64,new');
+    vi.mocked(updateItem).mockReset();
+    vi.mocked(updateItemImage).mockReset();
+  });
+
+  const repaint = async (result: MagicItemResult) => {
+    render(<ImageReforgePanel result={result} onItemChange={onItemChange} />);
+    fireEvent.click(screen.getByText(/Repaint$/));
+    await waitFor(() => expect(onItemChange).toHaveBeenCalled());
+    return onItemChange.mock.calls[0][0] as MagicItemResult;
+  };
+
+  it('keeps the previous image as an alternate', async () => {
+    const updated = await repaint(item());
+
+    expect(updated.imageUrl).toBe('data:image/png;base64,new');
+    expect(updated.alternateImageUrls).toEqual(['data:image/png;base64,current']);
+  });
+
+  it('never keeps more images than a fresh forge would', async () => {
+    const alternates = Array.from({ length: MAX_IMAGE_VARIATIONS }, (_, i) => `data:image/png;base64,old${i}`);
+    const updated = await repaint({ ...item(), id: 'saved-1', alternateImageUrls: alternates } as MagicItemResult);
+
+    expect(updated.alternateImageUrls).toHaveLength(MAX_IMAGE_VARIATIONS - 1);
+    expect(updated.alternateImageUrls![0]).toBe('data:image/png;base64,current');
+    expect(updateItemImage).toHaveBeenCalledWith('saved-1', 'data:image/png;base64,new', updated.alternateImageUrls);
+    // Prompt and style are unchanged, so only the image is written
+    expect(updateItem).not.toHaveBeenCalled();
+  });
+
+  it('waits out the rate limit instead of painting', () => {
+    localStorage.setItem(RATE_LIMIT_KEY, JSON.stringify(Array.from({ length: MAX_GENERATIONS_PER_MINUTE }, () => Date.now())));
+    render(<ImageReforgePanel result={item()} onItemChange={onItemChange} />);
+    fireEvent.click(screen.getByText(/Repaint$/));
+
+    expect(screen.getByText(/must cool for a moment/)).toBeInTheDocument();
+    expect(generateMagicItemImage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { MagicItemResult } from '../types';
+import { MAX_IMAGE_VARIATIONS, VISUAL_STYLES } from '../constants';
+import { generateMagicItemImage } from '../services/geminiService';
+import { updateItem, updateItemImage } from '../services/storageService';
+import { checkClientRateLimit } from '../services/rateLimit';
+import { getErrorMessage } from '../services/generationErrors';
+import { useCustomVocabulary } from '../hooks/useCustomVocabulary';
+
+interface ImageReforgePanelProps {
+  result: MagicItemResult;
+  onItemChange: (item: MagicItemResult) => void;
+}
+
+export const ImageReforgePanel: React.FC<ImageReforgePanelProps> = ({ result, onItemChange }) => {
+  const [imagePrompt, setImagePrompt] = useState(result.imagePrompt);
+  const [style, setStyle] = useState(result.itemData.style || VISUAL_STYLES[0]);
+  const [isPainting, setIsPainting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const vocabulary = useCustomVocabulary();
+
+  const savedId: string | undefined = (result as any).id;
+
+  const handleRepaint = async () => {
+    const rate = checkClientRateLimit();
+    if (!rate.allowed) {
+      setError(`The forge must cool for a moment. Please wait about ${rate.retryAfterSeconds}s.`);
+      return;
+    }
+
+    setIsPainting(true);
+    setError(null);
+    try {
+      const prompt = imagePrompt.trim() || result.imagePrompt;
+      const imageUrl = await generateMagicItemImage(prompt, style, result.imageAspectRatio);
+      // Keep the previous image as an alternate so the repaint can be undone from the strip;
+      // the oldest drop off so an item never holds more images than a fresh forge would
+      const alternateImageUrls = [result.imageUrl, ...(result.alternateImageUrls || [])]
+        .filter((url): url is string => !!url)
+        .slice(0, MAX_IMAGE_VARIATIONS - 1);
+      const updated: MagicItemResult = {
+        ...result,
+        itemData: { ...result.itemData, style },
+        imagePrompt: prompt,
+        imageUrl,
+        alternateImageUrls,
+      };
+
+      if (savedId) {
+        if (prompt !== result.imagePrompt || style !== result.itemData.style) {
+          await updateItem(savedId, updated);
+        }
+        await updateItemImage(savedId, imageUrl, alternateImageUrls);
+      }
+      onItemChange(updated);
+    } catch (err) {
+      console.error(err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsPainting(false);
+    }
+  };
+
+  return (
+    <details className="group bg-[#0f0f13] border border-[#2a2a35] rounded p-4">
+      <summary className="text-xs font-fantasy text-slate-500 uppercase tracking-widest cursor-pointer hover:text-amber-400 transition-colors list-none flex items-center gap-2">
+        <span className="w-2 h-2 border-l border-b border-current transform -rotate-45 group-open:rotate-0 transition-transform"></span>
+        {result.imageUrl ? 'Repaint the Artwork' : 'Paint the Missing Artwork'}
+      </summary>
+
+      <div className="mt-4 space-y-3">
+        <div>
+          <label className="block text-[10px] uppercase tracking-[0.2em] text-amber-600/80 mb-1 font-fantasy">Image Prompt</label>
+          <textarea
+            value={imagePrompt}
+            onChange={(e) => setImagePrompt(e.target.value.slice(0, 1000))}
+            rows={4}
+            className="w-full bg-[#050505] border border-[#2a2a35] text-slate-300 rounded-sm px-3 py-2 text-sm focus:border-amber-600 focus:ring-1 focus:ring-amber-900 focus:outline-none transition-colors font-serif tracking-wide resize-none"
+          />
+        </div>
+        <div>
+          <label className="block text-[10px] uppercase tracking-[0.2em] text-amber-600/80 mb-1 font-fantasy">Art Style</label>
+          <select
+            value={style}
+            onChange={(e) => setStyle(e.target.value)}
+            className="w-full bg-[#050505] border border-[#2a2a35] text-slate-300 rounded-sm px-3 py-2 text-sm focus:border-amber-600 focus:ring-1 focus:ring-amber-900 focus:outline-none transition-colors font-serif tracking-wide"
+          >
+            {VISUAL_STYLES.map(s => <option key={s} value={s}>{s}</option>)}
+            {vocabulary.styles.length > 0 && (
+              <optgroup label="Homebrew">
+                {vocabulary.styles.map(s => <option key={s.name} value={s.name}>{s.name}</option>)}
+              </optgroup>
+            )}
+          </select>
+        </div>
+        <button
+          onClick={handleRepaint}
+          disabled={isPainting}
+          className="w-full px-4 py-2 bg-[#0f0f13] border border-[#2a2a35] rounded text-xs font-fantasy uppercase tracking-wider transition-colors text-slate-400 hover:text-amber-400 hover:border-amber-600/50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isPainting ? 'Painting...' : '🖌 Repaint'}
+        </button>
+
+        {error && (
+          <p className="text-xs text-red-300 font-serif italic">⚠️ {error}</p>
+        )}
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+
+interface ImageVariationStripProps {
+  images: string[];
+  selected?: string;
+  aspectClass: string;
+  disabled?: boolean;
+  onSelect: (imageUrl: string) => void;
+}
+
+export const ImageVariationStrip: React.FC<ImageVariationStripProps> = ({
+  images,
+  selected,
+  aspectClass,
+  disabled = false,
+  onSelect,
+}) => {
+  // Keep the order the variations arrived in, so choosing one doesn't shuffle the strip
+  const [order] = useState(images);
+  const visible = [...order.filter((url) => images.includes(url)), ...images.filter((url) => !order.includes(url))];
+
+  return (
+    <div>
+      <p className="text-[10px] uppercase tracking-[0.2em] text-amber-600/80 font-fantasy mb-2">
+        Choose a Variation
+      </p>
+      <div className="grid grid-cols-4 gap-2">
+        {visible.map((url, index) => (
+          <button
+            key={index}
+            onClick={() => onSelect(url)}
+            disabled={disabled || url === selected}
+            aria-pressed={url === selected}
+            aria-label={`Variation ${index + 1}`}
+            className={`${aspectClass} rounded overflow-hidden border-2 bg-black transition-colors disabled:cursor-default ${
+              url === selected ? 'border-amber-500' : 'border-[#2a2a35] hover:border-amber-600/50 opacity-70 hover:opacity-100'
+            }`}
+          >
+            <img src={url} alt="" className="w-full h-full object-cover" loading="lazy" decoding="async" />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import { ItemUsage, RestEvent } from '../types';
+import { getItemsInPlay, SavedMagicItem, updateItemUsage } from '../services/storageService';
+import { rechargeUsage, REST_EVENTS, spendCharges } from '../services/usageTracker';
+import { ChargeTrackerRow } from './ChargeTrackerRow';
+
+interface InPlayTrackerProps {
+  onViewItem: (item: SavedMagicItem) => void;
+}
+
+/**
+ * Every saved item with usage trackers, grouped by set. Resting a set
+ * recharges the trackers of all its items that the rest triggers.
+ */
+export const InPlayTracker: React.FC<InPlayTrackerProps> = ({ onViewItem }) => {
+  const [items, setItems] = useState<SavedMagicItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getItemsInPlay()
+      .then(setItems)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load items in play.'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  // Persist new usage for the given items, then show it
+  const saveUsages = async (updates: Record<string, ItemUsage>) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await Promise.all(Object.entries(updates).map(([id, usage]) => updateItemUsage(id, usage)));
+      setItems((current) => current.map((item) => (updates[item.id] ? { ...item, usage: updates[item.id] } : item)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the trackers.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRest = (setName: string, event: RestEvent) => {
+    const updates: Record<string, ItemUsage> = {};
+    items
+      .filter((item) => item.usage?.set === setName)
+      .forEach((item) => {
+        updates[item.id] = rechargeUsage(item.usage!, event);
+      });
+    saveUsages(updates);
+  };
+
+  const sets = items
+    .map((item) => item.usage!.set)
+    .filter((setName, index, all) => all.indexOf(setName) === index);
+
+  if (isLoading) {
+    return <p className="text-sm text-slate-500 font-mono text-center py-20">Loading items in play...</p>;
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-8">
+      <div className="text-center">
+        <h2 className="text-3xl font-fantasy text-amber-500 tracking-widest">In Play</h2>
+        <p className="text-sm text-slate-500 font-serif italic mt-2">
+          Charges and limited uses of the items your party carries.
+        </p>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-300 font-serif italic text-center">⚠️ {error}</p>
+      )}
+
+      {sets.length === 0 && !error && (
+        <p className="text-center text-slate-600 font-serif italic">
+          Nothing is being tracked yet. Open a saved item and add trackers under "Charges &amp; Uses".
+        </p>
+      )}
+
+      {sets.map((setName) => (
+        <section key={setName} className="bg-[#0f0f13] border border-[#2a2a35] rounded p-6 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3 border-b border-[#2a2a35] pb-3">
+            <h3 className="text-xl font-fantasy text-slate-300 tracking-wider">{setName}</h3>
+            <div className="flex flex-wrap gap-2">
+              {REST_EVENTS.map((event) => (
+                <button
+                  key={event.value}
+                  onClick={() => handleRest(setName, event.value)}
+                  disabled={isSaving}
+                  className="px-3 py-1.5 bg-[#050505] border border-[#2a2a35] rounded-sm text-[10px] font-fantasy uppercase tracking-wider text-slate-400 hover:text-amber-400 hover:border-amber-600/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {event.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {items
+            .filter((item) => item.usage!.set === setName)
+            .map((item) => (
+              <div key={item.id} className="space-y-2">
+                <button
+                  onClick={() => onViewItem(item)}
+                  className="text-amber-500/90 font-fantasy tracking-wide hover:text-amber-400 transition-colors"
+                >
+                  {item.itemData.name}
+                </button>
+                <div className="space-y-2 pl-4 border-l border-[#2a2a35]">
+                  {item.usage!.trackers.map((tracker, index) => (
+                    <ChargeTrackerRow
+                      key={`${tracker.name}-${index}`}
+                      tracker={tracker}
+                      disabled={isSaving}
+                      onSpend={(amount) => saveUsages({
+                        [item.id]: {
+                          ...item.usage!,
+                          trackers: item.usage!.trackers.map((t, i) => (i === index ? spendCharges(t, amount) : t)),
+                        },
+                      })}
+                    />
+                  ))}
+                </div>
+              </div>
+            ))}
+        </section>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import { ItemFieldChange } from '../services/itemDiff';
+
+interface ItemDiffViewProps {
+  changes: ItemFieldChange[];
+}
+
+export const ItemDiffView: React.FC<ItemDiffViewProps> = ({ changes }) => {
+  if (changes.length === 0) {
+    return (
+      <p className="text-sm text-slate-500 font-serif italic">
+        The reforged item is identical to the original.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-3">
+      {changes.map((change) => (
+        <li key={change.path} className="border border-[#2a2a35] rounded p-3 bg-[#050505]">
+          <p className="text-[10px] uppercase tracking-[0.2em] text-amber-600/80 font-fantasy mb-2">
+            {change.label}
+          </p>
+          {change.before && (
+            <p className="text-sm font-serif text-red-300/80 line-through decoration-red-500/60 whitespace-pre-wrap mb-1">
+              {change.before}
+            </p>
+          )}
+          {change.after ? (
+            <p className="text-sm font-serif text-emerald-300 whitespace-pre-wrap">
+              {change.after}
+            </p>
+          ) : (
+            <p className="text-xs font-mono text-slate-600">(removed)</p>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -1,16 +1,77 @@
 import React, { useState, useEffect } from 'react';
-import { MagicItemResult } from '../types';
-import { getItemFullImageUrl } from '../services/storageService';
+import { GenerationSettings, ImageAspectRatio, ItemData, ItemLanguage, MagicItemResult, PartialGeneratedContent, PartialItemData } from '../types';
+import { getItemFullImageUrl, updateItemImage, updateItemStage } from '../services/storageService';
 import { ShareButton } from './ShareButton';
+import { RefinePanel } from './RefinePanel';
+import { SentienceSection } from './SentienceSection';
+import { EffectDetailsSection } from './EffectDetailsSection';
+import { EvolutionSection } from './EvolutionSection';
+import { ArtifactSection } from './ArtifactSection';
+import { BalancePanel } from './BalancePanel';
+import { PriceBreakdown } from './PriceBreakdown';
+import { ImageVariationStrip } from './ImageVariationStrip';
+import { ImageReforgePanel } from './ImageReforgePanel';
+import { ProvenancePanel } from './ProvenancePanel';
+import { TranslationPanel } from './TranslationPanel';
+import { UsageTrackerPanel } from './UsageTrackerPanel';
+import { DiceChip } from './DiceChip';
+import { DiceRollLog } from './DiceRollLog';
+import { getGameSystem } from '../services/gameSystems';
+import { findDiceExpressions } from '../services/dice';
+import { useDiceRoller } from '../hooks/useDiceRoller';
 
 interface MagicItemDisplayProps {
-  result: MagicItemResult;
+  result: MagicItemResult | PartialGeneratedContent;
+  // Render fields as they arrive from a streamed generation, with placeholders for the rest
+  isStreaming?: boolean;
+  // Enables the refine panel; called with the revision once it is kept or saved
+  onItemChange?: (item: MagicItemResult) => void;
+  // Offered from the provenance panel to start a new generation with the same settings
+  onForgeAgain?: (settings: GenerationSettings) => void;
 }
 
-export const MagicItemDisplay: React.FC<MagicItemDisplayProps> = ({ result }) => {
-  const { itemData, itemCard, imageUrl: initialImageUrl } = result;
+const ASPECT_CLASSES: Record<ImageAspectRatio, string> = {
+  '1:1': 'aspect-square',
+  '3:4': 'aspect-[3/4]',
+  '16:9': 'aspect-video',
+};
+
+// Pulsing bar shown in place of a field that hasn't streamed in yet
+const StreamingPlaceholder: React.FC<{ className?: string }> = ({ className = 'w-40 h-4' }) => (
+  <span className={`inline-block align-middle rounded-sm bg-current opacity-20 animate-pulse ${className}`}></span>
+);
+
+export const MagicItemDisplay: React.FC<MagicItemDisplayProps> = ({ result, isStreaming = false, onItemChange, onForgeAgain }) => {
+  const {
+    itemCard: originalCard = '',
+    imageUrl: initialImageUrl,
+    alternateImageUrls = [],
+    imageAspectRatio = '1:1',
+    provenance,
+    translations,
+    currentStage: savedStage = 0,
+  } = result as Partial<MagicItemResult>;
+  const [viewLanguage, setViewLanguage] = useState<ItemLanguage | null>(null);
+  // Text is shown in the chosen translation; price, balance and image always come from the original
+  const translation = viewLanguage ? translations?.[viewLanguage] : undefined;
+  const originalItemData: PartialItemData = result.itemData || {};
+  const itemData: PartialItemData = translation?.itemData || originalItemData;
+  const itemCard = translation?.itemCard ?? originalCard;
+  const mechanics = itemData.mechanics || {};
   const [imageUrl, setImageUrl] = useState<string | undefined>(initialImageUrl);
   const [isLoadingFullImage, setIsLoadingFullImage] = useState(false);
+  const [isSavingImage, setIsSavingImage] = useState(false);
+  const [currentStage, setCurrentStage] = useState(savedStage);
+  const [isSavingStage, setIsSavingStage] = useState(false);
+  const aspectClass = ASPECT_CLASSES[imageAspectRatio] || ASPECT_CLASSES['1:1'];
+  const system = getGameSystem(itemData.gameSystem);
+  const cardTags = system.card.tags(itemData);
+  const diceRoller = useDiceRoller();
+  const hasDice = !isStreaming && (
+    findDiceExpressions(itemCard).length > 0
+    || !!mechanics.effect_details?.some((effect) => effect.dice)
+    || !!itemData.stages?.some((stage) => stage.effects?.some((effect) => findDiceExpressions(effect).length > 0))
+  );
 
   // Progressive loading: if we have a thumbnail, load full image
   useEffect(() => {
@@ -38,6 +99,46 @@ export const MagicItemDisplay: React.FC<MagicItemDisplayProps> = ({ result }) =>
     }
   }, [initialImageUrl, result]);
 
+  useEffect(() => {
+    setCurrentStage(savedStage);
+  }, [savedStage]);
+
+  const handleStageChange = async (stage: number) => {
+    const savedId: string | undefined = (result as any).id;
+    setCurrentStage(stage);
+    setIsSavingStage(true);
+    try {
+      if (savedId) {
+        await updateItemStage(savedId, stage);
+      }
+      onItemChange?.({ ...(result as MagicItemResult), currentStage: stage });
+    } catch (err) {
+      console.error('Failed to save the item stage:', err);
+    } finally {
+      setIsSavingStage(false);
+    }
+  };
+
+  // Promote a variation to the main image; the previous choice becomes an alternate
+  const handleSelectVariation = async (chosen: string) => {
+    const allImages = [initialImageUrl, ...alternateImageUrls].filter((url): url is string => !!url);
+    const alternates = allImages.filter((url) => url !== chosen);
+    const savedId: string | undefined = (result as any).id;
+
+    setImageUrl(chosen);
+    setIsSavingImage(true);
+    try {
+      if (savedId) {
+        await updateItemImage(savedId, chosen, alternates);
+      }
+      onItemChange?.({ ...(result as MagicItemResult), imageUrl: chosen, alternateImageUrls: alternates });
+    } catch (err) {
+      console.error('Failed to save the chosen image:', err);
+    } finally {
+      setIsSavingImage(false);
+    }
+  };
+
   const rarityConfig: Record<string, { color: string; border: string; shadow: string }> = {
     'Common': { color: 'text-slate-400', border: 'border-slate-600', shadow: 'shadow-slate-900' },
     'Uncommon': { color: 'text-emerald-400', border: 'border-emerald-600', shadow: 'shadow-emerald-900/40' },
@@ -45,9 +146,10 @@ export const MagicItemDisplay: React.FC<MagicItemDisplayProps> = ({ result }) =>
     'Very Rare': { color: 'text-purple-400', border: 'border-purple-500', shadow: 'shadow-purple-900/40' },
     'Legendary': { color: 'text-amber-400', border: 'border-amber-500', shadow: 'shadow-amber-900/40' },
     'Artifact': { color: 'text-red-500', border: 'border-red-500', shadow: 'shadow-red-900/40' },
+    'Unique': { color: 'text-red-500', border: 'border-red-500', shadow: 'shadow-red-900/40' },
   };
 
-  const config = rarityConfig[itemData.rarity] || rarityConfig['Common'];
+  const config = rarityConfig[itemData.rarity || ''] || rarityConfig['Common'];
 
   // Helper to parse inline markdown (bold/italic)
   const renderInlineMarkdown = (text: string) => {
@@ -57,15 +159,31 @@ export const MagicItemDisplay: React.FC<MagicItemDisplayProps> = ({ result }) =>
     
     return parts.map((part, i) => {
       if (part.startsWith('**') && part.endsWith('**')) {
-        return <strong key={i} className="font-bold text-[#1a1a1a]">{part.slice(2, -2)}</strong>;
+        return <strong key={i} className="font-bold text-[#1a1a1a]">{renderDice(part.slice(2, -2))}</strong>;
       }
       if (part.startsWith('*') && part.endsWith('*')) {
-        return <em key={i} className="italic text-[#4a4a4a]">{part.slice(1, -1)}</em>;
+        return <em key={i} className="italic text-[#4a4a4a]">{renderDice(part.slice(1, -1))}</em>;
       }
-      return part;
+      return <React.Fragment key={i}>{renderDice(part)}</React.Fragment>;
     });
   };
 
+  // Turn dice expressions into roll chips once the text has finished streaming
+  const renderDice = (text: string): React.ReactNode => {
+    const found = isStreaming ? [] : findDiceExpressions(text);
+    if (found.length === 0) return text;
+
+    const nodes: React.ReactNode[] = [];
+    let last = 0;
+    found.forEach(({ start, end, expression }) => {
+      nodes.push(text.slice(last, start));
+      nodes.push(<DiceChip key={start} expression={expression} onRoll={(dice) => diceRoller.roll(dice)} />);
+      last = end;
+    });
+    nodes.push(text.slice(last));
+    return nodes;
+  };
+
   // Helper to render the card content
   const renderCardContent = (text: string) => {
     const lines = text.split('\n');
@@ -75,14 +193,14 @@ export const MagicItemDisplay: React.FC<MagicItemDisplayProps> = ({ result }) =>
       if (!trimmed) return <div key={index} className="h-3"></div>;
 
       // Skip if the line is just the Item Name (since we print it in the header)
-      if (index < 3 && trimmed.toLowerCase().includes(itemData.name.toLowerCase()) && trimmed.length < itemData.name.length + 10) {
+      if (index < 3 && itemData.name && trimmed.toLowerCase().includes(itemData.name.toLowerCase()) && trimmed.length < itemData.name.length + 10) {
         return null;
       }
 
       // Skip if the line contains type, rarity, and attunement info (already in header)
       const lowerTrimmed = trimmed.toLowerCase();
-      const hasType = lowerTrimmed.includes(itemData.type.toLowerCase());
-      const hasRarity = lowerTrimmed.includes(itemData.rarity.toLowerCase());
+      const hasType = !!itemData.type && lowerTrimmed.includes(itemData.type.toLowerCase());
+      const hasRarity = !!itemData.rarity && lowerTrimmed.includes(itemData.rarity.toLowerCase());
       const hasAttunement = lowerTrimmed.includes('attunement') || lowerTrimmed.includes('requires attunement');
       
       // If it has type, rarity, and possibly attunement, it's likely the redundant header line
@@ -122,6 +240,28 @@ export const MagicItemDisplay: React.FC<MagicItemDisplayProps> = ({ result }) =>
     });
   };
 
+  // While streaming, the card text arrives last: preview the description and effects meanwhile
+  const renderStreamingBody = () => (
+    <>
+      {itemData.description ? (
+        <p className="mb-3 text-[#2c2c2c] leading-relaxed text-lg font-serif italic">
+          {itemData.description}
+        </p>
+      ) : (
+        <p className="mb-3 text-[#2c2c2c]"><StreamingPlaceholder className="w-full h-4" /></p>
+      )}
+      {(mechanics.effects || []).map((effect, index) => (
+        <div key={index} className="flex items-start gap-3 mb-2 pl-2 text-[#2c2c2c]">
+          <span className="text-[#922828] text-[10px] mt-[6px] transform rotate-45">◆</span>
+          <p className="leading-relaxed text-lg">{renderInlineMarkdown(effect)}</p>
+        </div>
+      ))}
+      <p className="mt-6 text-sm font-fantasy text-[#6a6a5a] uppercase tracking-[0.2em] animate-pulse">
+        The scribe is still writing...
+      </p>
+    </>
+  );
+
   return (
     <div className="w-full max-w-5xl mx-auto grid grid-cols-1 lg:grid-cols-2 gap-12 animate-fade-in pb-20">
       
@@ -129,7 +269,7 @@ export const MagicItemDisplay: React.FC<MagicItemDisplayProps> = ({ result }) =>
       <div className="space-y-6">
         
         {/* Image Frame */}
-        <div className={`relative aspect-square rounded-lg overflow-hidden border-2 ${config.border} bg-black shadow-[0_0_30px_rgba(0,0,0,0.5)] group`}>
+        <div className={`relative ${aspectClass} rounded-lg overflow-hidden border-2 ${config.border} bg-black shadow-[0_0_30px_rgba(0,0,0,0.5)] group`}>
             {/* Rarity Glow */}
             <div className={`absolute inset-0 opacity-20 pointer-events-none shadow-[inset_0_0_100px_currentColor] ${config.color}`}></div>
             
@@ -157,28 +297,46 @@ export const MagicItemDisplay: React.FC<MagicItemDisplayProps> = ({ result }) =>
              {/* Overlay Details */}
              <div className="absolute bottom-0 inset-x-0 bg-gradient-to-t from-black via-black/80 to-transparent p-6 pt-12">
                 <h2 className={`text-2xl font-fantasy font-bold tracking-wide ${config.color} drop-shadow-md`}>
-                  {itemData.name}
+                  {itemData.name || <StreamingPlaceholder className="w-48 h-6" />}
                 </h2>
                 <p className="text-slate-400 font-serif italic text-lg">
-                  {itemData.rarity} {itemData.type}
+                  {system.card.subtitle(itemData)}
                 </p>
                 {itemData.powerBand && (
                   <p className="text-amber-500/80 font-fantasy text-xs uppercase tracking-widest mt-1">
                     Resonance: {itemData.powerBand}
+                    {itemData.gameSystem && <span className="text-slate-500"> · {system.label}</span>}
                   </p>
                 )}
              </div>
         </div>
 
+        {alternateImageUrls.length > 0 && initialImageUrl && (
+          <ImageVariationStrip
+            images={[initialImageUrl, ...alternateImageUrls]}
+            selected={imageUrl}
+            aspectClass={aspectClass}
+            disabled={isSavingImage}
+            onSelect={handleSelectVariation}
+          />
+        )}
+
         {/* Price Tag and Share */}
         <div className="space-y-3">
           <div className="bg-[#0f0f13] border border-[#2a2a35] p-4 rounded flex justify-between items-center">
               <span className="text-xs font-fantasy text-slate-500 uppercase tracking-widest">Estimated Value</span>
               <div className="flex items-center gap-2">
-                 <span className="text-amber-500 text-xl font-serif font-bold">{itemData.price_gp.toLocaleString()}</span>
+                 {typeof originalItemData.price_gp === 'number' && !isStreaming ? (
+                   <span className="text-amber-500 text-xl font-serif font-bold">{originalItemData.price_gp.toLocaleString()}</span>
+                 ) : (
+                   <StreamingPlaceholder className="w-16 h-5 text-amber-500" />
+                 )}
                  <span className="text-xs text-amber-700">gp</span>
               </div>
           </div>
+          {!isStreaming && originalItemData.mechanics && (
+            <PriceBreakdown result={result as MagicItemResult} onItemChange={onItemChange} />
+          )}
           {(result as any)?.id && (
             <ShareButton 
               itemId={(result as any).id} 
@@ -188,18 +346,51 @@ export const MagicItemDisplay: React.FC<MagicItemDisplayProps> = ({ result }) =>
           )}
         </div>
 
+        {hasDice && <DiceRollLog roller={diceRoller} />}
+
+        {onItemChange && !isStreaming && (result as any).id && (
+          <UsageTrackerPanel result={result as MagicItemResult} onItemChange={onItemChange} />
+        )}
+
+        {!isStreaming && originalItemData.mechanics && system.balanceChecks && (
+          <BalancePanel itemData={originalItemData as ItemData} />
+        )}
+
+        {onItemChange && !isStreaming && (
+          <ImageReforgePanel result={result as MagicItemResult} onItemChange={onItemChange} />
+        )}
+
+        {onItemChange && !isStreaming && (
+          <RefinePanel result={result as MagicItemResult} onItemChange={onItemChange} />
+        )}
+
+        {!isStreaming && originalItemData.mechanics && (
+          <TranslationPanel
+            result={result as MagicItemResult}
+            viewLanguage={translation ? viewLanguage : null}
+            onViewLanguageChange={setViewLanguage}
+            onItemChange={onItemChange}
+          />
+        )}
+
+        {!isStreaming && provenance && (
+          <ProvenancePanel provenance={provenance} onForgeAgain={onForgeAgain} />
+        )}
+
          {/* JSON Data (Collapsed) */}
-         <details className="group">
-            <summary className="text-[10px] uppercase tracking-widest text-slate-600 cursor-pointer hover:text-indigo-400 transition-colors list-none flex items-center gap-2">
-               <span className="w-2 h-2 border-l border-b border-current transform -rotate-45 group-open:rotate-0 transition-transform"></span>
-               Inspect Arcane Matrix (JSON)
-            </summary>
-            <div className="mt-2 p-4 bg-black/50 rounded border border-slate-800/50 overflow-hidden">
-              <pre className="text-xs font-mono text-emerald-500/80 overflow-x-auto whitespace-pre-wrap">
-                {JSON.stringify(itemData, null, 2)}
-              </pre>
-            </div>
-        </details>
+         {!isStreaming && (
+           <details className="group">
+              <summary className="text-[10px] uppercase tracking-widest text-slate-600 cursor-pointer hover:text-indigo-400 transition-colors list-none flex items-center gap-2">
+                 <span className="w-2 h-2 border-l border-b border-current transform -rotate-45 group-open:rotate-0 transition-transform"></span>
+                 Inspect Arcane Matrix (JSON)
+              </summary>
+              <div className="mt-2 p-4 bg-black/50 rounded border border-slate-800/50 overflow-hidden">
+                <pre className="text-xs font-mono text-emerald-500/80 overflow-x-auto whitespace-pre-wrap">
+                  {JSON.stringify(itemData, null, 2)}
+                </pre>
+              </div>
+          </details>
+         )}
       </div>
 
 
@@ -216,28 +407,57 @@ export const MagicItemDisplay: React.FC<MagicItemDisplayProps> = ({ result }) =>
                 {/* Header */}
                 <div className="border-b-2 border-[#922828] pb-4 mb-6 text-center">
                    <h3 className="text-3xl md:text-4xl font-bold font-fantasy text-[#922828] uppercase tracking-wide mb-2 leading-none">
-                     {itemData.name}
+                     {itemData.name || <StreamingPlaceholder className="w-64 h-8" />}
                    </h3>
                    <p className="text-lg italic text-[#4a4a4a] font-semibold">
-                     {itemData.rarity} {itemData.type}
+                     {system.card.subtitle(itemData)}
                    </p>
                    {itemData.powerBand && (
                       <p className="text-sm font-bold text-[#7a4a2a] uppercase tracking-widest mt-1">
                         Resonance Level: {itemData.powerBand}
                       </p>
                    )}
-                   {itemData.mechanics.attunement && (
-                      <p className="text-sm font-bold text-[#58180d] uppercase tracking-widest mt-1">
-                        (Requires Attunement)
-                      </p>
+                   {cardTags.length > 0 && (
+                      <div className="flex flex-wrap justify-center gap-1.5 mt-2">
+                        {cardTags.map((tag) => (
+                          <span key={tag} className="text-xs font-bold text-[#58180d] uppercase tracking-widest border border-[#58180d]/40 px-2 py-0.5">
+                            {tag}
+                          </span>
+                        ))}
+                      </div>
                    )}
                 </div>
 
                 {/* Formatted Text Body */}
                 <div>
-                  {renderCardContent(itemCard)}
+                  {itemCard ? renderCardContent(itemCard) : isStreaming && renderStreamingBody()}
                 </div>
 
+                {itemCard && mechanics.effect_details && mechanics.effect_details.length > 0 && (
+                  <EffectDetailsSection
+                    effects={mechanics.effect_details}
+                    onRoll={isStreaming ? undefined : diceRoller.roll}
+                  />
+                )}
+
+                {itemData.stages && itemData.stages.length > 0 && (
+                  <EvolutionSection
+                    stages={itemData.stages}
+                    currentStage={Math.min(currentStage, itemData.stages.length - 1)}
+                    onStageChange={isStreaming ? undefined : handleStageChange}
+                    disabled={isSavingStage}
+                    renderText={renderInlineMarkdown}
+                  />
+                )}
+
+                {itemData.artifact && (
+                  <ArtifactSection artifact={itemData.artifact} renderText={renderInlineMarkdown} />
+                )}
+
+                {itemData.sentience && (
+                  <SentienceSection sentience={itemData.sentience} />
+                )}
+
                 {/* Footer Flavor */}
                 <div className="mt-12 pt-4 border-t border-[#4a4a3a]/20 text-center">
                    <p className="text-xs font-fantasy text-[#6a6a5a] uppercase tracking-[0.2em]">
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import {
+  addPartyMember,
+  removePartyMember,
+  MAX_CHARACTER_LEVEL,
+  MAX_MEMBER_NAME_LENGTH,
+  MAX_MEMBER_NOTES_LENGTH,
+  PARTY_CLASSES,
+} from '../services/partyService';
+import { useParty } from '../hooks/useParty';
+
+/**
+ * Add and remove the characters of the user's party. The party is kept in
+ * this browser and appears in the forge under "Forge For".
+ */
+export const PartyManager: React.FC = () => {
+  const party = useParty();
+  const [name, setName] = useState('');
+  const [className, setClassName] = useState('');
+  const [level, setLevel] = useState(1);
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const inputClass = "w-full bg-[#050505] border border-[#2a2a35] text-slate-300 rounded-sm px-3 py-2 text-sm focus:border-amber-600 focus:ring-1 focus:ring-amber-900 focus:outline-none transition-colors font-serif tracking-wide placeholder:text-slate-700";
+
+  const handleAdd = () => {
+    try {
+      addPartyMember({ name, className, level, notes });
+      setName('');
+      setClassName('');
+      setLevel(1);
+      setNotes('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add the character.');
+    }
+  };
+
+  return (
+    <details className="group bg-[#0f0f13] border border-[#2a2a35] rounded p-4 mt-6 max-w-7xl mx-auto">
+      <summary className="text-xs font-fantasy text-slate-500 uppercase tracking-widest cursor-pointer hover:text-amber-400 transition-colors list-none flex items-center gap-2">
+        <span className="w-2 h-2 border-l border-b border-current transform -rotate-45 group-open:rotate-0 transition-transform"></span>
+        Party ({party.length})
+      </summary>
+
+      <div className="mt-4 space-y-4">
+        {party.length > 0 ? (
+          <ul className="space-y-1">
+            {party.map((member) => (
+              <li key={member.name} className="flex items-start justify-between gap-4 text-sm font-serif">
+                <span>
+                  <span className="text-slate-300">{member.name}</span>
+                  <span className="text-slate-400"> — level {member.level} {member.className}</span>
+                  {member.notes && <span className="text-slate-500 italic">. {member.notes}</span>}
+                </span>
+                <button
+                  onClick={() => removePartyMember(member.name)}
+                  aria-label={`Remove ${member.name}`}
+                  className="text-slate-600 hover:text-red-400 transition-colors"
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-slate-600 font-serif italic">No characters yet. Add your party to forge items made for them.</p>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_5rem_2fr_auto] gap-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value.slice(0, MAX_MEMBER_NAME_LENGTH))}
+            placeholder="e.g. Thalia Emberwood"
+            className={inputClass}
+          />
+          <input
+            value={className}
+            onChange={(e) => setClassName(e.target.value.slice(0, MAX_MEMBER_NAME_LENGTH))}
+            placeholder="Class, e.g. Wizard"
+            list="party-classes"
+            className={inputClass}
+          />
+          <datalist id="party-classes">
+            {PARTY_CLASSES.map(c => <option key={c} value={c} />)}
+          </datalist>
+          <input
+            type="number"
+            min={1}
+            max={MAX_CHARACTER_LEVEL}
+            value={level}
+            onChange={(e) => setLevel(Number(e.target.value))}
+            aria-label="Level"
+            className={inputClass}
+          />
+          <input
+            value={notes}
+            onChange={(e) => setNotes(e.target.value.slice(0, MAX_MEMBER_NOTES_LENGTH))}
+            placeholder='Playstyle notes (optional), e.g. "sneaky, loves fire spells"'
+            className={inputClass}
+          />
+          <button
+            onClick={handleAdd}
+            className="px-4 py-2 bg-[#0f0f13] border border-[#2a2a35] rounded text-xs font-fantasy uppercase tracking-wider transition-colors text-slate-400 hover:text-amber-400 hover:border-amber-600/50"
+          >
+            + Add
+          </button>
+        </div>
+
+        {error && (
+          <p className="text-xs text-red-300 font-serif italic">⚠️ {error}</p>
+        )}
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,80 @@
+import React, { useMemo, useState } from 'react';
+import { MagicItemResult } from '../types';
+import { priceItem } from '../services/pricingService';
+import { updateItem } from '../services/storageService';
+
+interface PriceBreakdownProps {
+  result: MagicItemResult;
+  onItemChange?: (item: MagicItemResult) => void;
+}
+
+export const PriceBreakdown: React.FC<PriceBreakdownProps> = ({ result, onItemChange }) => {
+  const estimate = useMemo(() => priceItem(result.itemData), [result.itemData]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const savedId: string | undefined = (result as any).id;
+  const isOffPrice = result.itemData.price_gp !== estimate.suggested;
+
+  const handleReprice = async () => {
+    if (!onItemChange) return;
+    const repriced = { ...result, itemData: { ...result.itemData, price_gp: estimate.suggested } };
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (savedId) {
+        await updateItem(savedId, repriced);
+      }
+      onItemChange(repriced);
+    } catch (err) {
+      setError('Failed to save the new price. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <details className="group bg-[#0f0f13] border border-[#2a2a35] rounded p-4">
+      <summary className="text-xs font-fantasy text-slate-500 uppercase tracking-widest cursor-pointer hover:text-amber-400 transition-colors list-none flex items-center justify-between gap-2">
+        <span className="flex items-center gap-2">
+          <span className="w-2 h-2 border-l border-b border-current transform -rotate-45 group-open:rotate-0 transition-transform"></span>
+          Price Range
+        </span>
+        <span className="font-serif normal-case tracking-normal text-amber-600">
+          {estimate.min.toLocaleString()}–{estimate.max.toLocaleString()} gp
+        </span>
+      </summary>
+
+      <ul className="mt-4 space-y-1 text-sm font-serif text-slate-400">
+        <li className="flex justify-between">
+          <span>{estimate.baseLabel} base</span>
+          <span>{estimate.base.toLocaleString()} gp</span>
+        </li>
+        {estimate.breakdown.map((adjustment) => (
+          <li key={adjustment.label} className="flex justify-between">
+            <span>{adjustment.label}</span>
+            <span>×{Number(adjustment.multiplier.toFixed(2))}</span>
+          </li>
+        ))}
+        <li className="flex justify-between pt-1 border-t border-[#2a2a35] text-amber-500">
+          <span>Suggested</span>
+          <span>{estimate.suggested.toLocaleString()} gp</span>
+        </li>
+      </ul>
+
+      {onItemChange && isOffPrice && (
+        <button
+          onClick={handleReprice}
+          disabled={isSaving}
+          className="mt-3 w-full px-4 py-2 bg-[#0f0f13] border border-[#2a2a35] rounded text-xs font-fantasy uppercase tracking-wider transition-colors text-slate-400 hover:text-amber-400 hover:border-amber-600/50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'Re-pricing...' : `Re-price at ${estimate.suggested.toLocaleString()} gp`}
+        </button>
+      )}
+
+      {error && (
+        <p className="mt-2 text-xs text-red-300 font-serif italic">⚠️ {error}</p>
+      )}
+    </details>
+  );
+};
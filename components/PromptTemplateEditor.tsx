@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { GenerationSettings, PromptSchemaDescriptions, PromptTemplate } from '../types';
+import {
+  BUILTIN_PROMPT_TEMPLATE_ID,
+  DESCRIPTION_LABELS,
+  findUnknownVariables,
+  MAX_TEMPLATE_NAME_LENGTH,
+  MAX_TEMPLATE_TEXT_LENGTH,
+  PROMPT_VARIABLES,
+  PromptTemplateDraft,
+  removePromptTemplate,
+  savePromptTemplate,
+  setActivePromptTemplate,
+} from '../services/promptTemplates';
+import { previewItemPrompt } from '../services/geminiService';
+import { usePromptTemplates } from '../hooks/usePromptTemplates';
+
+interface PromptTemplateEditorProps {
+  settings: GenerationSettings; // The form's current settings, used for the preview
+}
+
+// The built-in template is read-only, so editing it starts a new template
+const draftFrom = (template: PromptTemplate): PromptTemplateDraft => ({
+  ...(template.id === BUILTIN_PROMPT_TEMPLATE_ID ? {} : { id: template.id }),
+  name: template.id === BUILTIN_PROMPT_TEMPLATE_ID ? '' : template.name,
+  systemInstruction: template.systemInstruction,
+  prompt: template.prompt,
+  descriptions: { ...template.descriptions },
+});
+
+/**
+ * Edit, preview and choose the prompt templates item generation renders.
+ * Each saved edit is a new version, recorded on the items it forges.
+ */
+export const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ settings }) => {
+  const { templates, active } = usePromptTemplates();
+  const [selectedId, setSelectedId] = useState(active.id);
+  const selected = templates.find((template) => template.id === selectedId) || active;
+  const [draft, setDraft] = useState<PromptTemplateDraft>(() => draftFrom(selected));
+  const [showPreview, setShowPreview] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const inputClass = "w-full bg-[#050505] border border-[#2a2a35] text-slate-300 rounded-sm px-3 py-2 text-sm focus:border-amber-600 focus:ring-1 focus:ring-amber-900 focus:outline-none transition-colors font-serif tracking-wide placeholder:text-slate-700";
+  const codeClass = "w-full bg-[#050505] border border-[#2a2a35] text-slate-300 rounded-sm px-3 py-2 text-xs focus:border-amber-600 focus:ring-1 focus:ring-amber-900 focus:outline-none transition-colors font-mono resize-y";
+  const labelClass = "block text-[10px] uppercase tracking-[0.2em] text-amber-600/80 mb-1 font-fantasy";
+  const buttonClass = "px-4 py-2 bg-[#0f0f13] border border-[#2a2a35] rounded text-xs font-fantasy uppercase tracking-wider transition-colors text-slate-400 hover:text-amber-400 hover:border-amber-600/50 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  const select = (template: PromptTemplate) => {
+    setSelectedId(template.id);
+    setDraft(draftFrom(template));
+    setError(null);
+  };
+
+  const handleSave = (asCopy: boolean) => {
+    try {
+      const saved = savePromptTemplate(asCopy ? { ...draft, id: undefined } : draft);
+      select(saved);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the template.');
+    }
+  };
+
+  const handleUse = () => {
+    try {
+      setActivePromptTemplate(selected.id);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to choose the template.');
+    }
+  };
+
+  const handleDelete = () => {
+    removePromptTemplate(selected.id);
+    select(templates[0]);
+  };
+
+  const setDescription = (key: keyof PromptSchemaDescriptions, value: string) =>
+    setDraft({ ...draft, descriptions: { ...draft.descriptions, [key]: value.slice(0, MAX_TEMPLATE_TEXT_LENGTH) } });
+
+  const unknown = findUnknownVariables([draft.systemInstruction, draft.prompt, ...Object.values(draft.descriptions)].join('\n'));
+  const preview = showPreview ? previewItemPrompt(settings, { ...selected, ...draft, id: selected.id }) : null;
+  const isBuiltin = selected.id === BUILTIN_PROMPT_TEMPLATE_ID;
+
+  return (
+    <details className="group bg-[#0f0f13] border border-[#2a2a35] rounded p-4 mt-6 max-w-7xl mx-auto">
+      <summary className="text-xs font-fantasy text-slate-500 uppercase tracking-widest cursor-pointer hover:text-amber-400 transition-colors list-none flex items-center gap-2">
+        <span className="w-2 h-2 border-l border-b border-current transform -rotate-45 group-open:rotate-0 transition-transform"></span>
+        Prompt Templates <span className="normal-case tracking-normal font-mono text-slate-600">({active.name} · {active.version})</span>
+      </summary>
+
+      <div className="mt-4 space-y-4">
+        <div className="flex flex-col md:flex-row md:items-end gap-2">
+          <div className="flex-1">
+            <label className={labelClass}>Template</label>
+            <select
+              value={selected.id}
+              onChange={(e) => select(templates.find((template) => template.id === e.target.value)!)}
+              className={inputClass}
+            >
+              {templates.map((template) => (
+                <option key={template.id} value={template.id}>
+                  {template.name} ({template.version}){template.id === active.id ? ' — in use' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+          <button onClick={handleUse} disabled={selected.id === active.id} className={buttonClass}>
+            Use for Forging
+          </button>
+          {!isBuiltin && (
+            <button onClick={handleDelete} className={`${buttonClass} hover:text-red-400 hover:border-red-900/50`}>
+              Delete
+            </button>
+          )}
+        </div>
+
+        <div>
+          <label className={labelClass}>Name</label>
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value.slice(0, MAX_TEMPLATE_NAME_LENGTH) })}
+            placeholder={isBuiltin ? 'The built-in template is read-only; name your copy to save changes' : 'Template name'}
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <div className="flex items-baseline justify-between">
+            <label className={labelClass}>System Instruction</label>
+            <span className="text-[10px] text-slate-600 font-mono">
+              {draft.systemInstruction.length}/{MAX_TEMPLATE_TEXT_LENGTH}
+            </span>
+          </div>
+          <textarea
+            value={draft.systemInstruction}
+            onChange={(e) => setDraft({ ...draft, systemInstruction: e.target.value.slice(0, MAX_TEMPLATE_TEXT_LENGTH) })}
+            rows={16}
+            spellCheck={false}
+            className={codeClass}
+          />
+        </div>
+
+        <div>
+          <label className={labelClass}>Prompt</label>
+          <input
+            value={draft.prompt}
+            onChange={(e) => setDraft({ ...draft, prompt: e.target.value.slice(0, MAX_TEMPLATE_TEXT_LENGTH) })}
+            spellCheck={false}
+            className={codeClass}
+          />
+        </div>
+
+        <details>
+          <summary className={`${labelClass} cursor-pointer list-none`}>Schema Descriptions</summary>
+          <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-4">
+            {(Object.keys(DESCRIPTION_LABELS) as (keyof PromptSchemaDescriptions)[]).map((key) => (
+              <div key={key}>
+                <label className={labelClass}>{DESCRIPTION_LABELS[key]}</label>
+                <textarea
+                  value={draft.descriptions[key]}
+                  onChange={(e) => setDescription(key, e.target.value)}
+                  rows={4}
+                  spellCheck={false}
+                  className={codeClass}
+                />
+              </div>
+            ))}
+          </div>
+        </details>
+
+        <details>
+          <summary className={`${labelClass} cursor-pointer list-none`}>Variables</summary>
+          <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+            {Object.entries(PROMPT_VARIABLES).map(([name, description]) => (
+              <React.Fragment key={name}>
+                <dt className="font-mono text-amber-500/80">{`{{${name}}}`}</dt>
+                <dd className="text-slate-500 font-serif">{description}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+        </details>
+
+        {unknown.length > 0 && (
+          <p className="text-xs text-amber-600 font-serif italic">
+            Unknown {unknown.length === 1 ? 'variable' : 'variables'}: {unknown.map((name) => `{{${name}}}`).join(', ')}
+          </p>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <button onClick={() => handleSave(isBuiltin)} className={buttonClass}>
+            {isBuiltin ? '+ Save as New Template' : 'Save New Version'}
+          </button>
+          {!isBuiltin && (
+            <button onClick={() => handleSave(true)} className={buttonClass}>
+              Save as Copy
+            </button>
+          )}
+          <button onClick={() => setShowPreview(!showPreview)} className={buttonClass}>
+            {showPreview ? 'Hide Preview' : 'Preview'}
+          </button>
+        </div>
+
+        {error && (
+          <p className="text-xs text-red-300 font-serif italic">⚠️ {error}</p>
+        )}
+
+        {preview && (
+          <div className="space-y-2">
+            <p className="text-[10px] text-slate-600 font-mono">Rendered with the form's current settings.</p>
+            <pre className="max-h-96 overflow-auto whitespace-pre-wrap bg-[#050505] border border-[#2a2a35] rounded-sm p-3 text-xs text-slate-400 font-mono">
+              {preview.systemInstruction}
+            </pre>
+            <pre className="whitespace-pre-wrap bg-[#050505] border border-[#2a2a35] rounded-sm p-3 text-xs text-slate-400 font-mono">
+              {preview.prompt}
+            </pre>
+          </div>
+        )}
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,96 @@
+import React from 'react';
+import { GenerationSettings, ItemProvenance } from '../types';
+import { LANGUAGES } from '../constants';
+import { getGameSystem } from '../services/gameSystems';
+import { wantsArtifactProperties } from '../services/artifactProperties';
+
+interface ProvenancePanelProps {
+  provenance: ItemProvenance;
+  onForgeAgain?: (settings: GenerationSettings) => void;
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export const ProvenancePanel: React.FC<ProvenancePanelProps> = ({ provenance, onForgeAgain }) => {
+  const { settings } = provenance;
+  const rows: [string, string][] = [
+    ['Forged', formatDate(provenance.generatedAt)],
+    ['Provider', provenance.provider],
+    ['Text Model', provenance.textModel],
+    ['Image Model', provenance.imageModel || '—'],
+    ['Temperature', String(provenance.temperature)],
+    ['Prompt Version', provenance.promptVersion],
+    ['Game System', getGameSystem(settings.gameSystem).label],
+    ['Requested', `${settings.rarity} ${settings.type}, ${settings.powerBand}`],
+    ['Theme / Style', `${settings.theme} / ${settings.style}`],
+    ['Language', LANGUAGES.find((option) => option.value === (settings.language || 'en'))?.label || settings.language || 'English'],
+    ['Options', [
+      settings.includeCurse && 'curse',
+      settings.includePlotHook && 'plot hook',
+      settings.includeSentience && 'sentience',
+      settings.includeEvolution && 'evolving',
+      wantsArtifactProperties(settings) && (settings.artifactProperties === 'roll' ? 'rolled artifact properties' : 'artifact properties'),
+      settings.autoRebalance && 'balance re-roll',
+    ].filter(Boolean).join(', ') || 'none'],
+    ...(settings.campaign ? [['Campaign', settings.campaign.name] as [string, string]] : []),
+    ...(settings.partyTarget
+      ? [['Forged For', settings.partyTarget.character
+          ? settings.partyTarget.character
+          : `The party (${settings.partyTarget.members.map((member) => member.name).join(', ')})`] as [string, string]]
+      : []),
+  ];
+
+  return (
+    <details className="group bg-[#0f0f13] border border-[#2a2a35] rounded p-4">
+      <summary className="text-xs font-fantasy text-slate-500 uppercase tracking-widest cursor-pointer hover:text-amber-400 transition-colors list-none flex items-center gap-2">
+        <span className="w-2 h-2 border-l border-b border-current transform -rotate-45 group-open:rotate-0 transition-transform"></span>
+        Provenance
+      </summary>
+
+      <dl className="mt-4 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm font-serif">
+        {rows.map(([label, value]) => (
+          <React.Fragment key={label}>
+            <dt className="text-slate-500">{label}</dt>
+            <dd className="text-slate-300 break-words">{value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+
+      {settings.customPrompt?.trim() && (
+        <div className="mt-3">
+          <p className="text-[10px] uppercase tracking-[0.2em] text-amber-600/80 font-fantasy mb-1">Lore Seed</p>
+          <p className="text-sm text-slate-400 font-serif italic whitespace-pre-wrap">{settings.customPrompt}</p>
+        </div>
+      )}
+
+      {provenance.refinements && provenance.refinements.length > 0 && (
+        <div className="mt-3">
+          <p className="text-[10px] uppercase tracking-[0.2em] text-amber-600/80 font-fantasy mb-1">Reforged</p>
+          <ol className="space-y-1 text-sm text-slate-400 font-serif list-decimal list-inside">
+            {provenance.refinements.map((refinement, index) => (
+              <li key={index}>
+                "{refinement.instruction}" <span className="text-slate-600">({refinement.textModel}, {formatDate(refinement.refinedAt)})</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {onForgeAgain && (
+        <button
+          onClick={() => onForgeAgain(settings)}
+          className="mt-4 w-full px-4 py-2 bg-[#0f0f13] border border-[#2a2a35] rounded text-xs font-fantasy uppercase tracking-wider transition-colors text-slate-400 hover:text-amber-400 hover:border-amber-600/50"
+        >
+          ⚒ Forge Again With These Settings
+        </button>
+      )}
+    </details>
+  );
+};
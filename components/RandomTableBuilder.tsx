@@ -0,0 +1,355 @@
+import React, { useEffect, useState } from 'react';
+import { GenerationSettings, MagicItemResult, RandomTable, RandomTableDie, RandomTableEntry, Rarity } from '../types';
+import { DEFAULT_SETTINGS, RARITIES, THEMES } from '../constants';
+import { saveItem, searchSavedItems, SavedMagicItem } from '../services/storageService';
+import {
+  buildTableRows,
+  entryFromItem,
+  forgeTableItems,
+  formatRange,
+  MAX_BATCH_ITEMS,
+  RandomTableRow,
+  rollTable,
+  TABLE_DIE_SIDES,
+  tableToCsv,
+  tableToMarkdown,
+} from '../services/randomTable';
+import { isProviderConfigured } from '../services/aiProvider';
+import { getErrorMessage } from '../services/generationErrors';
+import { Button } from './Button';
+
+interface RandomTableBuilderProps {
+  onViewItem: (id: string) => void;
+}
+
+// Archive results listed for picking at once
+const SEARCH_LIMIT = 12;
+
+const downloadText = (filename: string, text: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const fileStem = (table: RandomTable) =>
+  table.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'magic-item-table';
+
+/**
+ * Assemble archived or freshly forged items into a weighted d20/d100 table,
+ * roll on it, and export it as Markdown or CSV.
+ */
+export const RandomTableBuilder: React.FC<RandomTableBuilderProps> = ({ onViewItem }) => {
+  const [table, setTable] = useState<RandomTable>({ name: '', die: 'd100', entries: [] });
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SavedMagicItem[]>([]);
+  const [batch, setBatch] = useState({ count: 4, rarity: 'Uncommon' as Rarity, theme: 'None' });
+  // waitSeconds is set while the forge waits out the rate limit
+  const [progress, setProgress] = useState<{ completed: number; total: number; waitSeconds?: number } | null>(null);
+  const [lastRoll, setLastRoll] = useState<{ roll: number; row: RandomTableRow } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      searchSavedItems(query, SEARCH_LIMIT)
+        .then(setResults)
+        .catch((err) => console.error('Failed to search items:', err));
+    }, 300); // Debounce search
+    return () => clearTimeout(timeoutId);
+  }, [query]);
+
+  const faces = TABLE_DIE_SIDES[table.die];
+  const rows = table.entries.length <= faces ? buildTableRows(table) : [];
+
+  const updateEntries = (entries: RandomTableEntry[]) => {
+    setTable({ ...table, entries });
+    setLastRoll(null);
+  };
+
+  // Functional update: a batch lands after the table may have changed
+  const addEntries = (added: RandomTableEntry[]) => {
+    if (table.entries.length + added.length > faces) {
+      setError(`A ${table.die} table holds at most ${faces} items; the rest were left out.`);
+    }
+    setTable((current) => {
+      const room = TABLE_DIE_SIDES[current.die] - current.entries.length;
+      return { ...current, entries: [...current.entries, ...added.slice(0, Math.max(0, room))] };
+    });
+    setLastRoll(null);
+  };
+
+  const handleForgeBatch = async () => {
+    if (!isProviderConfigured()) {
+      setError("API Key is missing. The forge cannot operate without fuel.");
+      return;
+    }
+
+    setError(null);
+    setProgress({ completed: 0, total: batch.count });
+    try {
+      const settings: GenerationSettings = { ...DEFAULT_SETTINGS, rarity: batch.rarity, theme: batch.theme };
+      const items = await forgeTableItems(
+        settings,
+        batch.count,
+        (completed, total) => setProgress({ completed, total }),
+        undefined,
+        (waitSeconds) => setProgress((current) => current && { ...current, waitSeconds })
+      );
+      if (items.length < batch.count) {
+        setError(`Only ${items.length} of ${batch.count} items could be forged; the rest were left out.`);
+      }
+
+      // Archive each item so its entry links to it (silently skipped if Supabase not configured)
+      const saved: MagicItemResult[] = await Promise.all(items.map(async (item) => {
+        try {
+          return (await saveItem(item)) || item;
+        } catch (saveErr) {
+          console.warn('Failed to save table item to database:', saveErr);
+          return item;
+        }
+      }));
+      addEntries(saved.map((item) => entryFromItem(item)));
+    } catch (err) {
+      console.error(err);
+      setError(getErrorMessage(err));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleRoll = () => {
+    try {
+      setError(null);
+      setLastRoll(rollTable(table));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to roll the table.');
+    }
+  };
+
+  const labelClass = "block text-[10px] uppercase tracking-[0.2em] text-amber-600/80 mb-1 font-fantasy";
+  const inputClass = "w-full bg-[#050505] border border-[#2a2a35] text-slate-300 rounded-sm px-3 py-2 text-sm focus:border-amber-600 focus:ring-1 focus:ring-amber-900 focus:outline-none transition-colors font-serif tracking-wide";
+  const panelClass = "bg-[#0f0f13] border border-[#2a2a35] rounded-md p-4";
+  const actionClass = "px-3 py-1.5 bg-[#050505] border border-[#2a2a35] rounded-sm text-[10px] font-fantasy uppercase tracking-wider text-slate-400 hover:text-amber-400 hover:border-amber-600/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="w-full max-w-7xl mx-auto animate-fade-in">
+      <div className="mb-8">
+        <h2 className="text-3xl font-fantasy font-bold tracking-widest text-transparent bg-clip-text bg-gradient-to-r from-amber-200 via-amber-500 to-amber-700 mb-2">
+          RANDOM TABLES
+        </h2>
+        <p className="text-sm text-slate-500 font-mono">
+          Build a weighted d20 or d100 magic item table from your archives or a fresh batch, roll on it, and export it.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Sources */}
+        <div className="space-y-6">
+          <div className={panelClass}>
+            <h3 className="text-xs font-fantasy text-amber-500 uppercase tracking-widest mb-3">From the Archives</h3>
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by name, type, rarity, theme..."
+              className={inputClass}
+            />
+            <ul className="mt-3 space-y-1 font-serif">
+              {results.map((item) => (
+                <li key={item.id} className="flex items-center justify-between gap-3 text-slate-300">
+                  <span className="line-clamp-1">
+                    {item.itemData.name}
+                    <span className="text-xs text-slate-500 italic"> · {item.itemData.rarity} {item.itemData.type}</span>
+                  </span>
+                  <button
+                    onClick={() => addEntries([entryFromItem(item)])}
+                    disabled={table.entries.some((entry) => entry.itemId === item.id)}
+                    className={actionClass}
+                  >
+                    + Add
+                  </button>
+                </li>
+              ))}
+              {results.length === 0 && (
+                <li className="text-xs text-slate-600 italic">No archived items found.</li>
+              )}
+            </ul>
+          </div>
+
+          <div className={panelClass}>
+            <h3 className="text-xs font-fantasy text-amber-500 uppercase tracking-widest mb-3">Forge a Batch</h3>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className={labelClass}>Items</label>
+                <select
+                  value={batch.count}
+                  onChange={(e) => setBatch({ ...batch, count: Number(e.target.value) })}
+                  className={inputClass}
+                >
+                  {Array.from({ length: MAX_BATCH_ITEMS }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Rarity</label>
+                <select
+                  value={batch.rarity}
+                  onChange={(e) => setBatch({ ...batch, rarity: e.target.value as Rarity })}
+                  className={inputClass}
+                >
+                  {RARITIES.map(r => <option key={r} value={r}>{r}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Theme</label>
+                <select
+                  value={batch.theme}
+                  onChange={(e) => setBatch({ ...batch, theme: e.target.value })}
+                  className={inputClass}
+                >
+                  {THEMES.map(t => <option key={t} value={t}>{t}</option>)}
+                </select>
+              </div>
+            </div>
+            <div className="mt-4 flex items-center justify-between gap-4">
+              <p className="text-xs text-slate-500 font-mono">
+                {progress?.waitSeconds
+                  ? `The forge is cooling; resuming in about ${progress.waitSeconds}s...`
+                  : progress && progress.total > 0
+                  ? `Forging item ${Math.min(progress.completed + 1, progress.total)} of ${progress.total}...`
+                  : 'Items of random types, added to the table as they are archived.'}
+              </p>
+              <Button onClick={handleForgeBatch} isLoading={!!progress} className="w-48">
+                Forge Batch
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {/* Table */}
+        <div className={panelClass}>
+          <div className="grid grid-cols-3 gap-4 mb-4">
+            <div className="col-span-2">
+              <label className={labelClass} htmlFor="random-table-name">Table Name</label>
+              <input
+                id="random-table-name"
+                value={table.name}
+                onChange={(e) => setTable({ ...table, name: e.target.value })}
+                placeholder="e.g. Sunken Temple Loot"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Die</label>
+              <select
+                value={table.die}
+                onChange={(e) => {
+                  setTable({ ...table, die: e.target.value as RandomTableDie });
+                  setLastRoll(null);
+                }}
+                className={inputClass}
+              >
+                {(Object.keys(TABLE_DIE_SIDES) as RandomTableDie[]).map(die => (
+                  <option key={die} value={die} disabled={table.entries.length > TABLE_DIE_SIDES[die]}>{die}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {rows.length === 0 ? (
+            <p className="text-center text-slate-600 font-serif italic py-8">Add items from the archives or forge a batch.</p>
+          ) : (
+            <table className="w-full text-sm font-serif">
+              <thead>
+                <tr className="text-[10px] font-fantasy uppercase tracking-widest text-slate-500 border-b border-[#2a2a35]">
+                  <th className="text-left py-2 w-20">{table.die}</th>
+                  <th className="text-left py-2">Magic Item</th>
+                  <th className="text-left py-2 w-20">Weight</th>
+                  <th className="w-8"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, index) => (
+                  <tr
+                    key={index}
+                    className={`border-b border-[#2a2a35]/50 ${lastRoll?.row === row ? 'bg-amber-950/30' : ''}`}
+                  >
+                    <td className="py-2 font-mono text-amber-400">{formatRange(row, table.die)}</td>
+                    <td className="py-2 text-slate-300">
+                      {row.entry.itemId ? (
+                        <button onClick={() => onViewItem(row.entry.itemId!)} className="hover:text-amber-400 transition-colors text-left">
+                          {row.entry.name}
+                        </button>
+                      ) : row.entry.name}
+                      <span className="block text-xs text-slate-500 italic">{row.entry.rarity} {row.entry.type}</span>
+                    </td>
+                    <td className="py-2">
+                      <input
+                        type="number"
+                        min={1}
+                        max={faces}
+                        value={row.entry.weight}
+                        onChange={(e) => updateEntries(table.entries.map((entry, i) => (
+                          i === index ? { ...entry, weight: Math.min(faces, Math.max(1, parseInt(e.target.value, 10) || 1)) } : entry
+                        )))}
+                        aria-label={`Weight of ${row.entry.name}`}
+                        className="w-16 bg-[#050505] border border-[#2a2a35] text-slate-300 rounded-sm px-2 py-1 text-sm font-mono"
+                      />
+                    </td>
+                    <td className="py-2 text-right">
+                      <button
+                        onClick={() => updateEntries(table.entries.filter((_, i) => i !== index))}
+                        aria-label={`Remove ${row.entry.name}`}
+                        className="text-slate-600 hover:text-red-400 transition-colors"
+                      >
+                        ✕
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {lastRoll && (
+            <p className="mt-4 text-center font-serif text-slate-300">
+              Rolled <span className="font-mono text-amber-400">{lastRoll.roll}</span>: <strong className="font-fantasy text-amber-500">{lastRoll.row.entry.name}</strong>
+            </p>
+          )}
+
+          <div className="mt-6 pt-4 border-t border-[#2a2a35] flex flex-wrap gap-2">
+            <button onClick={handleRoll} disabled={rows.length === 0} className={actionClass}>
+              🎲 Roll {table.die}
+            </button>
+            <button
+              onClick={() => downloadText(`${fileStem(table)}.md`, tableToMarkdown(table), 'text/markdown')}
+              disabled={rows.length === 0}
+              className={actionClass}
+            >
+              Export Markdown
+            </button>
+            <button
+              onClick={() => downloadText(`${fileStem(table)}.csv`, tableToCsv(table), 'text/csv')}
+              disabled={rows.length === 0}
+              className={actionClass}
+            >
+              Export CSV
+            </button>
+            {table.entries.length > 0 && (
+              <button onClick={() => updateEntries([])} className={actionClass}>
+                Clear
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-6 p-4 bg-red-950/30 border border-red-900/50 rounded text-red-300 text-center text-sm max-w-2xl mx-auto font-serif italic">
+          ⚠️ {error}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { MagicItemResult } from '../types';
+import { refineMagicItem } from '../services/geminiService';
+import { diffItems } from '../services/itemDiff';
+import { saveItem, updateItem } from '../services/storageService';
+import { checkClientRateLimit } from '../services/rateLimit';
+import { getErrorMessage } from '../services/generationErrors';
+import { ItemDiffView } from './ItemDiffView';
+
+interface RefinePanelProps {
+  result: MagicItemResult;
+  onItemChange: (item: MagicItemResult) => void;
+}
+
+export const RefinePanel: React.FC<RefinePanelProps> = ({ result, onItemChange }) => {
+  const [instruction, setInstruction] = useState('');
+  const [revision, setRevision] = useState<MagicItemResult | null>(null);
+  const [isRefining, setIsRefining] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const savedId: string | undefined = (result as any).id;
+
+  const handleRefine = async () => {
+    const rate = checkClientRateLimit();
+    if (!rate.allowed) {
+      setError(`The forge must cool for a moment. Please wait about ${rate.retryAfterSeconds}s.`);
+      return;
+    }
+
+    setIsRefining(true);
+    setError(null);
+    setRevision(null);
+    try {
+      const revised = await refineMagicItem(result, instruction);
+      // The artwork is not regenerated, so carry the original image across
+      setRevision({
+        ...revised,
+        imageUrl: result.imageUrl,
+        alternateImageUrls: result.alternateImageUrls,
+        imageAspectRatio: result.imageAspectRatio,
+      });
+    } catch (err) {
+      console.error(err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
+  const handleSaveOver = async () => {
+    if (!revision || !savedId) return;
+    setIsSaving(true);
+    try {
+      await updateItem(savedId, revision);
+      onItemChange({ ...revision, id: savedId } as MagicItemResult);
+      setRevision(null);
+      setInstruction('');
+    } catch (err) {
+      setError('Failed to save the revision. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveAlongside = async () => {
+    if (!revision) return;
+    setIsSaving(true);
+    try {
+      // Falls back to keeping the revision locally when the archive isn't configured
+      const saved = await saveItem(revision);
+      onItemChange(saved || revision);
+      setRevision(null);
+      setInstruction('');
+    } catch (err) {
+      setError('Failed to save the revision. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const actionClass = "flex-1 px-4 py-2 bg-[#0f0f13] border border-[#2a2a35] rounded text-xs font-fantasy uppercase tracking-wider transition-colors text-slate-400 hover:text-amber-400 hover:border-amber-600/50 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <details className="group bg-[#0f0f13] border border-[#2a2a35] rounded p-4">
+      <summary className="text-xs font-fantasy text-slate-500 uppercase tracking-widest cursor-pointer hover:text-amber-400 transition-colors list-none flex items-center gap-2">
+        <span className="w-2 h-2 border-l border-b border-current transform -rotate-45 group-open:rotate-0 transition-transform"></span>
+        Reforge This Part
+      </summary>
+
+      <div className="mt-4 space-y-3">
+        <textarea
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value.slice(0, 300))}
+          placeholder="e.g. 'make the curse nastier', 'drop to Uncommon', 'replace the second effect'"
+          rows={2}
+          className="w-full bg-[#050505] border border-[#2a2a35] text-slate-300 rounded-sm px-3 py-2 text-sm focus:border-amber-600 focus:ring-1 focus:ring-amber-900 focus:outline-none transition-colors font-serif tracking-wide resize-none placeholder:text-slate-700"
+        />
+        <button
+          onClick={handleRefine}
+          disabled={isRefining || !instruction.trim()}
+          className={`${actionClass} w-full`}
+        >
+          {isRefining ? 'Reforging...' : '⚒ Reforge'}
+        </button>
+
+        {error && (
+          <p className="text-xs text-red-300 font-serif italic">⚠️ {error}</p>
+        )}
+
+        {revision && (
+          <div className="space-y-3 pt-3 border-t border-[#2a2a35]">
+            <ItemDiffView changes={diffItems(result, revision)} />
+            <div className="flex gap-2">
+              {savedId && (
+                <button onClick={handleSaveOver} disabled={isSaving} className={actionClass}>
+                  Save Over Original
+                </button>
+              )}
+              <button onClick={handleSaveAlongside} disabled={isSaving} className={actionClass}>
+                {savedId ? 'Save As New Item' : 'Keep Revision'}
+              </button>
+              <button onClick={() => setRevision(null)} disabled={isSaving} className={actionClass}>
+                Discard
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </details>
+  );
+};
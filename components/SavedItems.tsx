@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { SavedMagicItem } from '../services/storageService';
-import { getSavedItems, searchSavedItems, removeItem, getItemImageUrls, getSavedItemsCount } from '../services/storageService';
+import { getSavedItems, searchSavedItems, removeItem, getItemImageUrls, getSavedItemsCount, repriceSavedItems } from '../services/storageService';
 import { MagicItemResult } from '../types';
 
 const ITEMS_PER_PAGE = 12;
@@ -106,6 +106,7 @@ export const SavedItems: React.FC<SavedItemsProps> = ({ onViewItem }) => {
   const [imageUrls, setImageUrls] = useState<Record<string, string | null>>({});
   const [currentPage, setCurrentPage] = useState(1);
   const [totalCount, setTotalCount] = useState(0);
+  const [isRepricing, setIsRepricing] = useState(false);
 
   const loadItems = async (page: number = 1) => {
     setIsLoading(true);
@@ -234,6 +235,29 @@ export const SavedItems: React.FC<SavedItemsProps> = ({ onViewItem }) => {
     }
   };
 
+  const handleRepriceAll = async () => {
+    if (!window.confirm('Re-price every archived item using the pricing rules?')) {
+      return;
+    }
+    setIsRepricing(true);
+    try {
+      const changed = await repriceSavedItems();
+      alert(changed === 1 ? '1 item was re-priced.' : `${changed} items were re-priced.`);
+      if (changed > 0) {
+        if (searchQuery.trim()) {
+          await loadSearchResults(searchQuery, currentPage);
+        } else {
+          await loadItems(currentPage);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to re-price items:', error);
+      alert('Failed to re-price items. Please try again.');
+    } finally {
+      setIsRepricing(false);
+    }
+  };
+
   const handlePageChange = async (newPage: number) => {
     setCurrentPage(newPage);
     // Load data directly when user navigates
@@ -249,19 +273,30 @@ export const SavedItems: React.FC<SavedItemsProps> = ({ onViewItem }) => {
   return (
     <div className="w-full max-w-7xl mx-auto animate-fade-in">
       {/* Header */}
-      <div className="mb-8">
-        <h2 className="text-3xl font-fantasy font-bold tracking-widest text-transparent bg-clip-text bg-gradient-to-r from-amber-200 via-amber-500 to-amber-700 mb-2">
-          ARCHIVED ARTIFACTS
-        </h2>
-        <p className="text-sm text-slate-500 font-mono">
-          {totalCount > 0 ? (
-            <>
-              Showing {((currentPage - 1) * ITEMS_PER_PAGE) + 1}-{Math.min(currentPage * ITEMS_PER_PAGE, totalCount)} of {totalCount} {totalCount === 1 ? 'item' : 'items'}
-            </>
-          ) : (
-            '0 items in collection'
-          )}
-        </p>
+      <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-fantasy font-bold tracking-widest text-transparent bg-clip-text bg-gradient-to-r from-amber-200 via-amber-500 to-amber-700 mb-2">
+            ARCHIVED ARTIFACTS
+          </h2>
+          <p className="text-sm text-slate-500 font-mono">
+            {totalCount > 0 ? (
+              <>
+                Showing {((currentPage - 1) * ITEMS_PER_PAGE) + 1}-{Math.min(currentPage * ITEMS_PER_PAGE, totalCount)} of {totalCount} {totalCount === 1 ? 'item' : 'items'}
+              </>
+            ) : (
+              '0 items in collection'
+            )}
+          </p>
+        </div>
+        {totalCount > 0 && (
+          <button
+            onClick={handleRepriceAll}
+            disabled={isRepricing}
+            className="px-4 py-2 bg-[#0f0f13] border border-[#2a2a35] rounded text-xs font-fantasy uppercase tracking-wider transition-colors text-slate-400 hover:text-amber-400 hover:border-amber-600/50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isRepricing ? 'Re-pricing...' : 'Re-price Archive'}
+          </button>
+        )}
       </div>
 
       {/* Search and Filter Bar */}
@@ -0,0 +1,52 @@
+import React from 'react';
+import { ItemSentience } from '../types';
+
+interface SentienceSectionProps {
+  sentience: Partial<ItemSentience>;
+}
+
+const formatScore = (score?: number) => {
+  if (typeof score !== 'number') return '—';
+  const modifier = Math.floor((score - 10) / 2);
+  return `${score} (${modifier >= 0 ? '+' : ''}${modifier})`;
+};
+
+// Rendered on the parchment card, so it uses the card's ink palette
+export const SentienceSection: React.FC<SentienceSectionProps> = ({ sentience }) => {
+  const traits: { label: string; value?: string }[] = [
+    { label: 'Alignment', value: sentience.alignment },
+    { label: 'Senses', value: sentience.senses },
+    { label: 'Communication', value: sentience.communication },
+    { label: 'Special Purpose', value: sentience.special_purpose },
+    { label: 'Conflict', value: sentience.conflict },
+  ];
+
+  return (
+    <div className="mt-8">
+      <h4 className="font-bold font-fantasy text-[#7a2020] text-xl mb-3 border-b border-[#7a2020]/30 pb-1">
+        Sentience
+      </h4>
+
+      <div className="grid grid-cols-3 gap-2 mb-4 text-center border-y border-[#922828]/40 py-2">
+        {([
+          ['INT', sentience.intelligence],
+          ['WIS', sentience.wisdom],
+          ['CHA', sentience.charisma],
+        ] as const).map(([label, score]) => (
+          <div key={label}>
+            <p className="text-xs font-bold font-fantasy text-[#922828] tracking-widest">{label}</p>
+            <p className="text-lg text-[#2c2c2c]">{formatScore(score)}</p>
+          </div>
+        ))}
+      </div>
+
+      {traits
+        .filter((trait) => trait.value)
+        .map((trait) => (
+          <p key={trait.label} className="mb-2 text-[#2c2c2c] leading-relaxed text-lg font-serif">
+            <strong className="font-bold text-[#1a1a1a]">{trait.label}.</strong> {trait.value}
+          </p>
+        ))}
+    </div>
+  );
+};
@@ -0,0 +1,299 @@
+import React, { useEffect, useState } from 'react';
+import { MagicItemResult, MerchantShop, SettlementSize, ShopSettings, ShopType, WealthLevel } from '../types';
+import { DEFAULT_SHOP_SETTINGS, SETTLEMENT_SIZES, SHOP_TYPES, THEMES, VISUAL_STYLES, WEALTH_LEVELS } from '../constants';
+import { forgeShop, getNextRestockAt, getStockSize, restockShop } from '../services/shopService';
+import { getSavedShops, getShopById, saveShop, SavedShopSummary, updateShopStock } from '../services/storageService';
+import { isProviderConfigured } from '../services/aiProvider';
+import { getErrorMessage } from '../services/generationErrors';
+import { Button } from './Button';
+
+interface ShopForgeProps {
+  onViewItem: (item: MagicItemResult) => void;
+}
+
+const rarityColors: Record<string, string> = {
+  'Common': 'text-slate-400',
+  'Uncommon': 'text-emerald-400',
+  'Rare': 'text-blue-400',
+  'Very Rare': 'text-purple-400',
+  'Legendary': 'text-amber-400',
+  'Artifact': 'text-red-500',
+};
+
+export const ShopForge: React.FC<ShopForgeProps> = ({ onViewItem }) => {
+  const [settings, setSettings] = useState<ShopSettings>(DEFAULT_SHOP_SETTINGS);
+  const [shop, setShop] = useState<(MerchantShop & { id?: string }) | null>(null);
+  const [savedShops, setSavedShops] = useState<SavedShopSummary[]>([]);
+  // waitSeconds is set while the forge waits out the rate limit
+  const [progress, setProgress] = useState<{ completed: number; total: number; waitSeconds?: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSavedShops = () =>
+    getSavedShops()
+      .then(setSavedShops)
+      .catch((err) => console.error('Failed to load shops:', err));
+
+  useEffect(() => {
+    loadSavedShops();
+  }, []);
+
+  const handleChange = <K extends keyof ShopSettings>(key: K, value: ShopSettings[K]) => {
+    setSettings({ ...settings, [key]: value });
+  };
+
+  // Shared guard for anything that forges items
+  const canForge = () => {
+    if (!isProviderConfigured()) {
+      setError("API Key is missing. The forge cannot operate without fuel.");
+      return false;
+    }
+    return true;
+  };
+
+  const handleWait = (waitSeconds: number) => setProgress((current) => current && { ...current, waitSeconds });
+
+  const handleForge = async () => {
+    if (!canForge()) return;
+
+    setError(null);
+    setShop(null);
+    setProgress({ completed: 0, total: 0 });
+
+    let planned = 0;
+    try {
+      let result: MerchantShop & { id?: string } = await forgeShop(
+        settings,
+        (completed, total) => {
+          planned = total;
+          setProgress({ completed, total });
+        },
+        handleWait
+      );
+      setShop(result);
+      if (result.items.length < planned) {
+        setError(`Only ${result.items.length} of ${planned} items could be forged; the shop was stocked without the rest.`);
+      }
+
+      // Save the items and link them as a shop (silently skipped if Supabase not configured)
+      try {
+        const saved = await saveShop(result);
+        if (saved) {
+          result = saved;
+          setShop(result);
+          loadSavedShops();
+        }
+      } catch (saveErr) {
+        console.warn('Failed to save shop to database:', saveErr);
+      }
+    } catch (err) {
+      console.error(err);
+      setError(getErrorMessage(err));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleRestock = async () => {
+    if (!shop || !canForge()) return;
+
+    setError(null);
+    setProgress({ completed: 0, total: 0 });
+    try {
+      let restocked: MerchantShop & { id?: string } = await restockShop(
+        shop,
+        (completed, total) => setProgress({ completed, total }),
+        undefined,
+        undefined,
+        handleWait
+      );
+      const forged = restocked.items.length - Math.max(0, shop.items.length - shop.restock.turnover);
+      if (forged < shop.restock.turnover) {
+        setError(`Only ${forged} of ${shop.restock.turnover} new items could be forged; the shelves are short.`);
+      }
+      if (shop.id) {
+        restocked = { ...restocked, ...(await updateShopStock(shop.id, restocked)) };
+        loadSavedShops();
+      }
+      setShop(restocked);
+    } catch (err) {
+      console.error(err);
+      setError(getErrorMessage(err));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleOpen = async (id: string) => {
+    setError(null);
+    try {
+      const opened = await getShopById(id);
+      if (!opened) {
+        setError('That shop could not be found.');
+        return;
+      }
+      setShop(opened);
+      setSettings(opened.settings);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open the shop.');
+    }
+  };
+
+  const nextRestockAt = shop ? getNextRestockAt(shop) : null;
+  const canRestock = !nextRestockAt || nextRestockAt <= new Date();
+
+  const labelClass = "block text-[10px] uppercase tracking-[0.2em] text-amber-600/80 mb-1 font-fantasy";
+  const selectClass = "w-full bg-[#050505] border border-[#2a2a35] text-slate-300 rounded-sm px-3 py-2 text-sm focus:border-amber-600 focus:ring-1 focus:ring-amber-900 focus:outline-none transition-colors font-serif tracking-wide";
+  const panelClass = "bg-[#0f0f13] border border-[#2a2a35] rounded-md p-4";
+
+  return (
+    <div className="w-full max-w-7xl mx-auto animate-fade-in">
+      <div className="mb-8">
+        <h2 className="text-3xl font-fantasy font-bold tracking-widest text-transparent bg-clip-text bg-gradient-to-r from-amber-200 via-amber-500 to-amber-700 mb-2">
+          MERCHANT SHOP
+        </h2>
+        <p className="text-sm text-slate-500 font-mono">
+          Stock a shop with magic items priced for its market, with haggle ranges and restock rules.
+        </p>
+      </div>
+
+      {/* Shop Settings */}
+      <div className={`${panelClass} mb-6`}>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+          <div>
+            <label className={labelClass}>Settlement</label>
+            <select value={settings.settlementSize} onChange={(e) => handleChange('settlementSize', e.target.value as SettlementSize)} className={selectClass}>
+              {SETTLEMENT_SIZES.map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Shop</label>
+            <select value={settings.shopType} onChange={(e) => handleChange('shopType', e.target.value as ShopType)} className={selectClass}>
+              {SHOP_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Wealth</label>
+            <select value={settings.wealth} onChange={(e) => handleChange('wealth', e.target.value as WealthLevel)} className={selectClass}>
+              {WEALTH_LEVELS.map(w => <option key={w} value={w}>{w}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Theme</label>
+            <select value={settings.theme} onChange={(e) => handleChange('theme', e.target.value)} className={selectClass}>
+              {THEMES.map(t => <option key={t} value={t}>{t}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Art Style</label>
+            <select value={settings.style} onChange={(e) => handleChange('style', e.target.value)} className={selectClass}>
+              {VISUAL_STYLES.map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+          </div>
+        </div>
+
+        <div className="mt-6 pt-6 border-t border-[#2a2a35] flex flex-col md:flex-row items-center justify-between gap-4">
+          <p className="text-xs text-slate-500 font-mono">
+            {progress?.waitSeconds
+              ? `The forge is cooling; resuming in about ${progress.waitSeconds}s...`
+              : progress && progress.total > 0
+              ? `Forging item ${Math.min(progress.completed + 1, progress.total)} of ${progress.total}...`
+              : `About ${getStockSize(settings)} items, each forged and archived individually, then linked as one shop.`}
+          </p>
+          <Button onClick={handleForge} isLoading={!!progress} className="w-full md:w-64">
+            <span className="text-lg mr-2">🏪</span> Stock Shop
+          </Button>
+        </div>
+      </div>
+
+      {savedShops.length > 0 && (
+        <details className="group bg-[#0f0f13] border border-[#2a2a35] rounded p-4 mb-6">
+          <summary className="text-xs font-fantasy text-slate-500 uppercase tracking-widest cursor-pointer hover:text-amber-400 transition-colors list-none flex items-center gap-2">
+            <span className="w-2 h-2 border-l border-b border-current transform -rotate-45 group-open:rotate-0 transition-transform"></span>
+            Saved Shops ({savedShops.length})
+          </summary>
+          <ul className="mt-4 space-y-1 font-serif">
+            {savedShops.map((saved) => (
+              <li key={saved.id}>
+                <button
+                  onClick={() => handleOpen(saved.id)}
+                  disabled={!!progress}
+                  className={`w-full flex justify-between text-left transition-colors disabled:opacity-50 ${
+                    shop?.id === saved.id ? 'text-amber-400' : 'text-slate-300 hover:text-amber-400'
+                  }`}
+                >
+                  <span>{saved.settings.wealth} {saved.settings.settlementSize} {saved.settings.shopType}</span>
+                  <span className="font-mono text-xs text-slate-500">
+                    {saved.itemCount} items · restocked {new Date(saved.restockedAt).toLocaleDateString()}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-950/30 border border-red-900/50 rounded text-red-300 text-center text-sm max-w-2xl mx-auto font-serif italic">
+          ⚠️ {error}
+        </div>
+      )}
+
+      {shop && (
+        <div className="space-y-6">
+          <div className={`${panelClass} flex flex-col md:flex-row justify-between items-center gap-4`}>
+            <div>
+              <h3 className="text-xl font-fantasy text-slate-300 tracking-wider">
+                {shop.settings.wealth} {shop.settings.shopType}, {shop.settings.settlementSize}
+              </h3>
+              <p className="text-xs text-slate-500 font-serif italic mt-1">
+                Restocks every {shop.restock.intervalDays} days, replacing {shop.restock.turnover} {shop.restock.turnover === 1 ? 'item' : 'items'}.
+                {' '}Last restocked {new Date(shop.restockedAt).toLocaleDateString()}
+                {canRestock ? '.' : `; next restock on ${nextRestockAt?.toLocaleDateString()}.`}
+              </p>
+            </div>
+            <button
+              onClick={handleRestock}
+              disabled={!!progress || !canRestock}
+              className="px-4 py-2 bg-[#050505] border border-[#2a2a35] rounded text-xs font-fantasy uppercase tracking-wider transition-colors text-slate-400 hover:text-amber-400 hover:border-amber-600/50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Restock
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+            {shop.items.map((item, index) => {
+              const listing = shop.listings[index];
+              return (
+                <div
+                  key={(item as any).id || index}
+                  onClick={() => onViewItem(item)}
+                  className="bg-[#0f0f13] border border-[#2a2a35] rounded-md p-3 cursor-pointer hover:border-amber-600/50 transition-all duration-300"
+                >
+                  <div className="aspect-square rounded mb-3 overflow-hidden bg-black">
+                    {item.imageUrl ? (
+                      <img src={item.imageUrl} alt={item.itemData.name} className="w-full h-full object-cover" loading="lazy" decoding="async" />
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center bg-[#050505]">
+                        <span className="text-2xl opacity-30">🔮</span>
+                      </div>
+                    )}
+                  </div>
+                  <h4 className={`text-sm font-fantasy font-bold line-clamp-1 ${rarityColors[item.itemData.rarity] || rarityColors['Common']}`}>
+                    {listing.quantity > 1 ? `${listing.quantity}× ` : ''}{item.itemData.name}
+                  </h4>
+                  <p className="text-[10px] text-slate-500 font-serif italic line-clamp-1">
+                    {item.itemData.rarity} {item.itemData.type}
+                  </p>
+                  <div className="mt-2 flex justify-between items-baseline">
+                    <span className="text-amber-500 font-serif font-bold">{listing.price_gp.toLocaleString()} <span className="text-[10px] text-amber-700">gp</span></span>
+                    <span className="text-[10px] text-slate-500 font-mono">haggle to {listing.haggle_min_gp.toLocaleString()}</span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
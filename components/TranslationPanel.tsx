@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { ItemLanguage, MagicItemResult } from '../types';
+import { LANGUAGES } from '../constants';
+import { translateMagicItem } from '../services/geminiService';
+import { updateItemTranslations } from '../services/storageService';
+import { checkClientRateLimit } from '../services/rateLimit';
+import { getErrorMessage } from '../services/generationErrors';
+
+interface TranslationPanelProps {
+  result: MagicItemResult;
+  // Language the card is currently shown in; null for the original
+  viewLanguage: ItemLanguage | null;
+  onViewLanguageChange: (language: ItemLanguage | null) => void;
+  // Enables translating; without it only existing translations can be viewed
+  onItemChange?: (item: MagicItemResult) => void;
+}
+
+const languageLabel = (language?: ItemLanguage) =>
+  LANGUAGES.find((option) => option.value === (language || 'en'))!.label;
+
+export const TranslationPanel: React.FC<TranslationPanelProps> = ({
+  result,
+  viewLanguage,
+  onViewLanguageChange,
+  onItemChange,
+}) => {
+  const translations = result.translations || {};
+  const originalLanguage = result.itemData.language || 'en';
+  const available = LANGUAGES.filter(
+    (option) => option.value !== originalLanguage && !translations[option.value]
+  );
+  const [language, setLanguage] = useState<ItemLanguage | ''>(available[0]?.value ?? '');
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const savedId: string | undefined = (result as any).id;
+  const translated = LANGUAGES.filter((option) => translations[option.value]);
+  const target = available.some((option) => option.value === language) ? language : available[0]?.value;
+
+  const handleTranslate = async () => {
+    if (!onItemChange || !target) return;
+    const rate = checkClientRateLimit();
+    if (!rate.allowed) {
+      setError(`The forge must cool for a moment. Please wait about ${rate.retryAfterSeconds}s.`);
+      return;
+    }
+
+    setIsTranslating(true);
+    setError(null);
+    try {
+      const translation = await translateMagicItem(result, target);
+      const updatedTranslations = { ...translations, [target]: translation };
+      if (savedId) {
+        await updateItemTranslations(savedId, updatedTranslations);
+      }
+      onItemChange({ ...result, translations: updatedTranslations });
+      onViewLanguageChange(target);
+    } catch (err) {
+      console.error(err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  if (!onItemChange && translated.length === 0) {
+    return null;
+  }
+
+  const chipClass = (active: boolean) =>
+    `px-3 py-1 border rounded-sm text-[10px] uppercase tracking-wider font-fantasy transition-colors ${
+      active
+        ? 'border-amber-600/60 text-amber-400 bg-[#1a1a2e]'
+        : 'border-[#2a2a35] text-slate-500 hover:text-slate-300'
+    }`;
+
+  return (
+    <details className="group bg-[#0f0f13] border border-[#2a2a35] rounded p-4">
+      <summary className="text-xs font-fantasy text-slate-500 uppercase tracking-widest cursor-pointer hover:text-amber-400 transition-colors list-none flex items-center gap-2">
+        <span className="w-2 h-2 border-l border-b border-current transform -rotate-45 group-open:rotate-0 transition-transform"></span>
+        Translations
+      </summary>
+
+      <div className="mt-4 space-y-3">
+        <div className="flex flex-wrap gap-2">
+          <button onClick={() => onViewLanguageChange(null)} className={chipClass(viewLanguage === null)}>
+            {languageLabel(originalLanguage)} (original)
+          </button>
+          {translated.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => onViewLanguageChange(option.value)}
+              className={chipClass(viewLanguage === option.value)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {onItemChange && target && (
+          <div className="flex gap-2">
+            <select
+              value={target}
+              onChange={(e) => setLanguage(e.target.value as ItemLanguage)}
+              className="flex-1 bg-[#050505] border border-[#2a2a35] text-slate-300 rounded-sm px-3 py-2 text-sm focus:border-amber-600 focus:ring-1 focus:ring-amber-900 focus:outline-none transition-colors font-serif tracking-wide"
+            >
+              {available.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleTranslate}
+              disabled={isTranslating}
+              className="px-4 py-2 bg-[#0f0f13] border border-[#2a2a35] rounded text-xs font-fantasy uppercase tracking-wider transition-colors text-slate-400 hover:text-amber-400 hover:border-amber-600/50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isTranslating ? 'Translating...' : '🌐 Translate'}
+            </button>
+          </div>
+        )}
+
+        {error && (
+          <p className="text-xs text-red-300 font-serif italic">⚠️ {error}</p>
+        )}
+      </div>
+    </details>
+  );
+};
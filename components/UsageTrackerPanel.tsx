@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { ItemUsage, MagicItemResult, RechargeTrigger, UsageTracker } from '../types';
+import {
+  createTracker,
+  DEFAULT_USAGE_SET,
+  MAX_TRACKER_NAME_LENGTH,
+  RECHARGE_TRIGGERS,
+  spendCharges,
+  suggestTrackers,
+} from '../services/usageTracker';
+import { updateItemUsage } from '../services/storageService';
+import { ChargeTrackerRow } from './ChargeTrackerRow';
+
+interface UsageTrackerPanelProps {
+  // Must be a saved item; usage is stored with it
+  result: MagicItemResult;
+  onItemChange: (item: MagicItemResult) => void;
+}
+
+/**
+ * Track charges and limited uses of a saved item during play. Tracked items
+ * are listed under "In Play", where a whole set can rest at once.
+ */
+export const UsageTrackerPanel: React.FC<UsageTrackerPanelProps> = ({ result, onItemChange }) => {
+  const usage = result.usage;
+  const [usageSet, setUsageSet] = useState(usage?.set || DEFAULT_USAGE_SET);
+  const [name, setName] = useState('');
+  const [max, setMax] = useState('1');
+  const [recharge, setRecharge] = useState<RechargeTrigger>('dawn');
+  const [rechargeDice, setRechargeDice] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const savedId: string = (result as any).id;
+  const inputClass = "bg-[#050505] border border-[#2a2a35] text-slate-300 rounded-sm px-3 py-2 text-sm focus:border-amber-600 focus:ring-1 focus:ring-amber-900 focus:outline-none transition-colors font-serif tracking-wide placeholder:text-slate-700";
+  const actionClass = "px-4 py-2 bg-[#0f0f13] border border-[#2a2a35] rounded text-xs font-fantasy uppercase tracking-wider transition-colors text-slate-400 hover:text-amber-400 hover:border-amber-600/50 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  const saveUsage = async (updated: ItemUsage | null) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await updateItemUsage(savedId, updated);
+      onItemChange({ ...result, usage: updated || undefined });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the trackers.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const saveTrackers = (trackers: UsageTracker[]) =>
+    saveUsage(trackers.length > 0 ? { set: usageSet.trim() || DEFAULT_USAGE_SET, trackers } : null);
+
+  const handleAdd = () => {
+    try {
+      const tracker = createTracker({ name, max: Number(max), recharge, rechargeDice });
+      setName('');
+      setRechargeDice('');
+      saveTrackers([...(usage?.trackers || []), tracker]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add the tracker.');
+    }
+  };
+
+  const handleSuggest = () => {
+    const suggestions = suggestTrackers(result.itemData);
+    if (suggestions.length === 0) {
+      setError('No charges or limited uses found in the item text. Add a tracker by hand.');
+      return;
+    }
+    saveTrackers(suggestions);
+  };
+
+  const trackers = usage?.trackers || [];
+
+  return (
+    <details className="group bg-[#0f0f13] border border-[#2a2a35] rounded p-4" open={trackers.length > 0}>
+      <summary className="text-xs font-fantasy text-slate-500 uppercase tracking-widest cursor-pointer hover:text-amber-400 transition-colors list-none flex items-center gap-2">
+        <span className="w-2 h-2 border-l border-b border-current transform -rotate-45 group-open:rotate-0 transition-transform"></span>
+        Charges &amp; Uses
+      </summary>
+
+      <div className="mt-4 space-y-4">
+        {trackers.length > 0 && (
+          <div className="space-y-3">
+            {trackers.map((tracker, index) => (
+              <ChargeTrackerRow
+                key={`${tracker.name}-${index}`}
+                tracker={tracker}
+                disabled={isSaving}
+                onSpend={(amount) => saveTrackers(trackers.map((t, i) => (i === index ? spendCharges(t, amount) : t)))}
+                onRemove={() => saveTrackers(trackers.filter((_, i) => i !== index))}
+              />
+            ))}
+          </div>
+        )}
+
+        <label className="block">
+          <span className="text-[10px] uppercase tracking-wider text-slate-600">Set (items that rest together)</span>
+          <input
+            value={usageSet}
+            onChange={(e) => setUsageSet(e.target.value.slice(0, MAX_TRACKER_NAME_LENGTH))}
+            onBlur={() => usage && usageSet.trim() !== usage.set && saveTrackers(trackers)}
+            className={`${inputClass} w-full mt-1`}
+          />
+        </label>
+
+        <div className="grid grid-cols-2 gap-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value.slice(0, MAX_TRACKER_NAME_LENGTH))}
+            placeholder="e.g. Charges"
+            className={`${inputClass} col-span-2`}
+          />
+          <input
+            type="number"
+            min={1}
+            value={max}
+            onChange={(e) => setMax(e.target.value)}
+            aria-label="Maximum charges"
+            className={inputClass}
+          />
+          <select
+            value={recharge}
+            onChange={(e) => setRecharge(e.target.value as RechargeTrigger)}
+            aria-label="Recharges at"
+            className={inputClass}
+          >
+            {RECHARGE_TRIGGERS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <input
+            value={rechargeDice}
+            onChange={(e) => setRechargeDice(e.target.value)}
+            placeholder="Regains, e.g. 1d6+1 (blank: all)"
+            className={`${inputClass} col-span-2`}
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <button onClick={handleAdd} disabled={isSaving} className={actionClass}>
+            + Add Tracker
+          </button>
+          {trackers.length === 0 && (
+            <button onClick={handleSuggest} disabled={isSaving} className={actionClass}>
+              Suggest From Item
+            </button>
+          )}
+          {trackers.length > 0 && (
+            <button onClick={() => saveUsage(null)} disabled={isSaving} className={actionClass}>
+              Stop Tracking
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <p className="text-xs text-red-300 font-serif italic">⚠️ {error}</p>
+        )}
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { VocabularyKind } from '../types';
+import {
+  addVocabularyEntry,
+  removeVocabularyEntry,
+  MAX_VOCABULARY_DESCRIPTION_LENGTH,
+  MAX_VOCABULARY_NAME_LENGTH,
+  VOCABULARY_KINDS,
+} from '../services/customVocabulary';
+import { useCustomVocabulary } from '../hooks/useCustomVocabulary';
+
+const KIND_LABELS: Record<VocabularyKind, { tab: string; placeholder: string; description: string }> = {
+  themes: {
+    tab: 'Themes',
+    placeholder: 'e.g. Sunken Empire',
+    description: 'What the theme means in your world (optional)',
+  },
+  styles: {
+    tab: 'Art Styles',
+    placeholder: 'e.g. Woodcut Print',
+    description: 'How images in this style should look, e.g. "bold black linework, rough paper grain, two-tone"',
+  },
+  itemTypes: {
+    tab: 'Item Types',
+    placeholder: 'e.g. Tattoo',
+    description: 'What this kind of item is and how it is used (optional)',
+  },
+};
+
+/**
+ * Add and remove homebrew themes, art styles and item types. Entries are kept
+ * in this browser and appear in the forge's selects under "Homebrew".
+ */
+export const VocabularyManager: React.FC = () => {
+  const vocabulary = useCustomVocabulary();
+  const [kind, setKind] = useState<VocabularyKind>('themes');
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const labels = KIND_LABELS[kind];
+  const inputClass = "w-full bg-[#050505] border border-[#2a2a35] text-slate-300 rounded-sm px-3 py-2 text-sm focus:border-amber-600 focus:ring-1 focus:ring-amber-900 focus:outline-none transition-colors font-serif tracking-wide placeholder:text-slate-700";
+
+  const handleAdd = () => {
+    try {
+      addVocabularyEntry(kind, { name, description });
+      setName('');
+      setDescription('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add the entry.');
+    }
+  };
+
+  return (
+    <details className="group bg-[#0f0f13] border border-[#2a2a35] rounded p-4 mt-6 max-w-7xl mx-auto">
+      <summary className="text-xs font-fantasy text-slate-500 uppercase tracking-widest cursor-pointer hover:text-amber-400 transition-colors list-none flex items-center gap-2">
+        <span className="w-2 h-2 border-l border-b border-current transform -rotate-45 group-open:rotate-0 transition-transform"></span>
+        Homebrew Vocabulary
+      </summary>
+
+      <div className="mt-4 space-y-4">
+        <div className="flex bg-[#050505] border border-[#2a2a35] p-1 rounded-sm max-w-md">
+          {VOCABULARY_KINDS.map((option) => (
+            <button
+              key={option}
+              onClick={() => {
+                setKind(option);
+                setError(null);
+              }}
+              className={`flex-1 py-1 text-[10px] uppercase tracking-wider transition-all duration-300 ${
+                kind === option
+                  ? 'bg-[#1a1a2e] text-amber-400 border border-amber-900/50'
+                  : 'text-slate-600 hover:text-slate-400'
+              }`}
+            >
+              {KIND_LABELS[option].tab} ({vocabulary[option].length})
+            </button>
+          ))}
+        </div>
+
+        {vocabulary[kind].length > 0 ? (
+          <ul className="space-y-1">
+            {vocabulary[kind].map((entry) => (
+              <li key={entry.name} className="flex items-start justify-between gap-4 text-sm font-serif">
+                <span>
+                  <span className="text-slate-300">{entry.name}</span>
+                  {entry.description && <span className="text-slate-500 italic"> — {entry.description}</span>}
+                </span>
+                <button
+                  onClick={() => removeVocabularyEntry(kind, entry.name)}
+                  aria-label={`Remove ${entry.name}`}
+                  className="text-slate-600 hover:text-red-400 transition-colors"
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-slate-600 font-serif italic">No homebrew {labels.tab.toLowerCase()} yet.</p>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_2fr_auto] gap-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value.slice(0, MAX_VOCABULARY_NAME_LENGTH))}
+            placeholder={labels.placeholder}
+            className={inputClass}
+          />
+          <input
+            value={description}
+            onChange={(e) => setDescription(e.target.value.slice(0, MAX_VOCABULARY_DESCRIPTION_LENGTH))}
+            placeholder={labels.description}
+            className={inputClass}
+          />
+          <button
+            onClick={handleAdd}
+            className="px-4 py-2 bg-[#0f0f13] border border-[#2a2a35] rounded text-xs font-fantasy uppercase tracking-wider transition-colors text-slate-400 hover:text-amber-400 hover:border-amber-600/50"
+          >
+            + Add
+          </button>
+        </div>
+
+        {error && (
+          <p className="text-xs text-red-300 font-serif italic">⚠️ {error}</p>
+        )}
+      </div>
+    </details>
+  );
+};
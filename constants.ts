@@ -1,4 +1,4 @@
-import { Rarity, PowerBand } from './types';
+import { Rarity, PowerBand, ChallengeRatingBand, HoardSettings, ImageAspectRatio, GameSystemId, ItemLanguage, ArtifactPropertyMode, SettlementSize, ShopSettings, ShopType, WealthLevel } from './types';
 
 export const RARITIES: Rarity[] = [
   'Common',
@@ -109,7 +109,32 @@ export const VISUAL_STYLES = [
   'Sketchbook',
 ];
 
+export const ASPECT_RATIOS: { value: ImageAspectRatio; label: string }[] = [
+  { value: '1:1', label: 'Square (1:1)' },
+  { value: '3:4', label: 'Card Portrait (3:4)' },
+  { value: '16:9', label: 'Handout Wide (16:9)' },
+];
+
+export const MAX_IMAGE_VARIATIONS = 4;
+
+// label is shown in the UI; promptName is how the language is named to the generator
+export const LANGUAGES: { value: ItemLanguage; label: string; promptName: string }[] = [
+  { value: 'en', label: 'English', promptName: 'English' },
+  { value: 'es', label: 'Español', promptName: 'Spanish' },
+  { value: 'de', label: 'Deutsch', promptName: 'German' },
+  { value: 'fr', label: 'Français', promptName: 'French' },
+  { value: 'it', label: 'Italiano', promptName: 'Italian' },
+  { value: 'pt', label: 'Português', promptName: 'Portuguese' },
+];
+
+export const ARTIFACT_PROPERTY_MODES: { value: ArtifactPropertyMode; label: string }[] = [
+  { value: 'generate', label: 'Invent properties' },
+  { value: 'roll', label: 'Roll on the tables' },
+  { value: 'none', label: 'No property tables' },
+];
+
 export const DEFAULT_SETTINGS = {
+  gameSystem: 'dnd5e-2014' as GameSystemId,
   rarity: 'Rare' as Rarity,
   type: 'Wondrous Item',
   theme: 'Ancient Civilization',
@@ -117,5 +142,36 @@ export const DEFAULT_SETTINGS = {
   powerBand: 'Standard' as PowerBand,
   includeCurse: false,
   includePlotHook: true,
+  includeSentience: false,
+  includeEvolution: false,
+  artifactProperties: 'generate' as ArtifactPropertyMode,
+  autoRebalance: false,
+  imageCount: 1,
+  aspectRatio: '1:1' as ImageAspectRatio,
+  language: 'en' as ItemLanguage,
   customPrompt: '',
 };
+
+export const CR_BANDS: ChallengeRatingBand[] = ['0-4', '5-10', '11-16', '17+'];
+
+export const DEFAULT_HOARD_SETTINGS: HoardSettings = {
+  crBand: '5-10',
+  partySize: 4,
+  theme: 'None',
+  style: 'Oil Painting',
+  powerBand: 'Standard',
+};
+
+export const SETTLEMENT_SIZES: SettlementSize[] = ['Village', 'Town', 'City', 'Metropolis'];
+
+export const SHOP_TYPES: ShopType[] = ['Alchemist', 'Smithy', 'Curio Dealer'];
+
+export const WEALTH_LEVELS: WealthLevel[] = ['Poor', 'Modest', 'Prosperous', 'Opulent'];
+
+export const DEFAULT_SHOP_SETTINGS: ShopSettings = {
+  settlementSize: 'Town',
+  shopType: 'Curio Dealer',
+  wealth: 'Modest',
+  theme: 'None',
+  style: 'Oil Painting',
+};
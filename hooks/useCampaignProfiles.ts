@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { CampaignProfile } from '../types';
+import { CAMPAIGN_CHANGE_EVENT, CAMPAIGN_PROFILES_KEY, loadCampaignProfiles } from '../services/campaignProfiles';
+
+/**
+ * The user's campaign profiles, kept in sync with changes made elsewhere in
+ * the app or in another tab.
+ */
+export const useCampaignProfiles = (): CampaignProfile[] => {
+  const [profiles, setProfiles] = useState<CampaignProfile[]>(loadCampaignProfiles);
+
+  useEffect(() => {
+    const reload = () => setProfiles(loadCampaignProfiles());
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === CAMPAIGN_PROFILES_KEY) reload();
+    };
+
+    window.addEventListener(CAMPAIGN_CHANGE_EVENT, reload);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener(CAMPAIGN_CHANGE_EVENT, reload);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, []);
+
+  return profiles;
+};
@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { CustomVocabulary } from '../types';
+import { CUSTOM_VOCABULARY_KEY, loadCustomVocabulary, VOCABULARY_CHANGE_EVENT } from '../services/customVocabulary';
+
+/**
+ * The user's custom themes, art styles and item types, kept in sync with
+ * changes made elsewhere in the app or in another tab.
+ */
+export const useCustomVocabulary = (): CustomVocabulary => {
+  const [vocabulary, setVocabulary] = useState<CustomVocabulary>(loadCustomVocabulary);
+
+  useEffect(() => {
+    const reload = () => setVocabulary(loadCustomVocabulary());
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === CUSTOM_VOCABULARY_KEY) reload();
+    };
+
+    window.addEventListener(VOCABULARY_CHANGE_EVENT, reload);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener(VOCABULARY_CHANGE_EVENT, reload);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, []);
+
+  return vocabulary;
+};
@@ -0,0 +1,40 @@
+import { useCallback, useRef, useState } from 'react';
+import { DiceRoll, parseDiceExpression, rollDice, RollMode } from '../services/dice';
+
+// Oldest rolls fall off the log beyond this
+const MAX_LOGGED_ROLLS = 20;
+
+export type LoggedRoll = DiceRoll & { id: number };
+
+export interface DiceRoller {
+  rolls: LoggedRoll[];
+  mode: RollMode;
+  setMode: (mode: RollMode) => void;
+  // Applies to the next roll only, then resets
+  critical: boolean;
+  setCritical: (critical: boolean) => void;
+  roll: (expression: string, label?: string) => void;
+  clear: () => void;
+}
+
+/**
+ * Roll log for the dice chips on an item card, newest roll first.
+ */
+export const useDiceRoller = (): DiceRoller => {
+  const [rolls, setRolls] = useState<LoggedRoll[]>([]);
+  const nextId = useRef(0);
+  const [mode, setMode] = useState<RollMode>('normal');
+  const [critical, setCritical] = useState(false);
+
+  const roll = useCallback((expression: string, label?: string) => {
+    const parsed = parseDiceExpression(expression);
+    if (!parsed) return;
+    const result = { ...rollDice(parsed, { mode, critical }), label, id: nextId.current++ };
+    setRolls((previous) => [result, ...previous].slice(0, MAX_LOGGED_ROLLS));
+    setCritical(false);
+  }, [mode, critical]);
+
+  const clear = useCallback(() => setRolls([]), []);
+
+  return { rolls, mode, setMode, critical, setCritical, roll, clear };
+};
@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { PartyMember } from '../types';
+import { loadParty, PARTY_CHANGE_EVENT, PARTY_KEY } from '../services/partyService';
+
+/**
+ * The user's party, kept in sync with changes made elsewhere in the app or
+ * in another tab.
+ */
+export const useParty = (): PartyMember[] => {
+  const [party, setParty] = useState<PartyMember[]>(loadParty);
+
+  useEffect(() => {
+    const reload = () => setParty(loadParty());
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === PARTY_KEY) reload();
+    };
+
+    window.addEventListener(PARTY_CHANGE_EVENT, reload);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener(PARTY_CHANGE_EVENT, reload);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, []);
+
+  return party;
+};
@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { PromptTemplate } from '../types';
+import {
+  getActivePromptTemplate,
+  loadPromptTemplates,
+  PROMPT_TEMPLATE_CHANGE_EVENT,
+  PROMPT_TEMPLATES_KEY,
+} from '../services/promptTemplates';
+
+interface PromptTemplatesState {
+  templates: PromptTemplate[];
+  active: PromptTemplate;
+}
+
+const readTemplates = (): PromptTemplatesState => ({ templates: loadPromptTemplates(), active: getActivePromptTemplate() });
+
+/**
+ * The prompt templates and the one generation uses, kept in sync with changes
+ * made elsewhere in the app or in another tab.
+ */
+export const usePromptTemplates = (): PromptTemplatesState => {
+  const [state, setState] = useState<PromptTemplatesState>(readTemplates);
+
+  useEffect(() => {
+    const reload = () => setState(readTemplates());
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === PROMPT_TEMPLATES_KEY) reload();
+    };
+
+    window.addEventListener(PROMPT_TEMPLATE_CHANGE_EVENT, reload);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener(PROMPT_TEMPLATE_CHANGE_EVENT, reload);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, []);
+
+  return state;
+};
@@ -130,7 +130,19 @@ export const ItemView: React.FC = () => {
 
       {/* Item Display */}
       <main className="p-6 md:p-8 lg:p-12">
-        <MagicItemDisplay result={item} />
+        <MagicItemDisplay
+          result={item}
+          onForgeAgain={(settings) => navigate('/', { state: { forgeAgain: settings } })}
+          onItemChange={(updated) => {
+            const updatedId = (updated as any).id;
+            if (updatedId && updatedId !== id) {
+              // Revision was saved alongside the original: open the new item
+              navigate(`/item/${updatedId}`);
+            } else {
+              setItem(updated);
+            }
+          }}
+        />
       </main>
     </div>
   );
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Type, HarmBlockThreshold } from '@google/genai';
+import { createGenerationProvider, isProviderConfigured, ResponseSchema } from './aiProvider';
+import { toGeminiSchema, toGeminiSafetySettings } from './geminiProvider';
+import { toJsonSchema, describeSafetyPolicy } from './openAICompatibleProvider';
+import { SAFETY_POLICY } from './geminiService';
+import { GenerationError } from './generationErrors';
+
+const schema: ResponseSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', description: 'Item name' },
+    rarity: { type: 'string', enum: ['Rare', 'Legendary'] },
+    effects: { type: 'array', items: { type: 'string' } },
+    attunement: { type: 'boolean' },
+    price_gp: { type: 'number' },
+  },
+  required: ['name'],
+  propertyOrdering: ['name', 'rarity'],
+};
+
+const request = {
+  systemInstruction: 'system',
+  prompt: 'prompt',
+  responseSchema: schema,
+  temperature: 0.9,
+  safety: SAFETY_POLICY,
+};
+
+describe('isProviderConfigured', () => {
+  it('requires an API key for Gemini', () => {
+    expect(isProviderConfigured({ provider: 'gemini' })).toBe(false);
+    expect(isProviderConfigured({ provider: 'gemini', apiKey: 'key' })).toBe(true);
+  });
+
+  it('requires only a base URL for OpenAI-compatible servers', () => {
+    expect(isProviderConfigured({ provider: 'openai-compatible' })).toBe(false);
+    expect(isProviderConfigured({ provider: 'openai-compatible', baseUrl: 'http://localhost:11434/v1' })).toBe(true);
+  });
+
+  it('always considers the fixture provider configured', () => {
+    expect(isProviderConfigured({ provider: 'fixture' })).toBe(true);
+  });
+});
+
+describe('createGenerationProvider', () => {
+  it('uses the default Gemini models when none are configured', () => {
+    const provider = createGenerationProvider({ provider: 'gemini', apiKey: 'key' });
+    expect(provider.id).toBe('gemini');
+    expect(provider.textModel).toBe('gemini-2.5-flash');
+    expect(provider.imageModel).toBe('gemini-2.5-flash-image');
+  });
+
+  it('honours model overrides', () => {
+    const provider = createGenerationProvider({ provider: 'openai-compatible', baseUrl: 'http://x', textModel: 'qwen2.5' });
+    expect(provider.textModel).toBe('qwen2.5');
+  });
+});
+
+describe('fixture provider', () => {
+  const provider = createGenerationProvider({ provider: 'fixture' });
+
+  it('returns the same JSON for the same request', async () => {
+    expect(await provider.generateText(request)).toBe(await provider.generateText(request));
+  });
+
+  it('returns different JSON for a different prompt', async () => {
+    const other = await provider.generateText({ ...request, prompt: 'another prompt' });
+    expect(other).not.toBe(await provider.generateText(request));
+  });
+
+  it('produces output that matches the schema', async () => {
+    const data = JSON.parse(await provider.generateText(request));
+    expect(typeof data.name).toBe('string');
+    expect(['Rare', 'Legendary']).toContain(data.rarity);
+    expect(Array.isArray(data.effects)).toBe(true);
+    expect(typeof data.attunement).toBe('boolean');
+    expect(typeof data.price_gp).toBe('number');
+  });
+
+  it('returns an image data URL', async () => {
+    const url = await provider.generateImage({ prompt: 'a ring', aspectRatio: '1:1', safety: SAFETY_POLICY });
+    expect(url).toMatch(/^data:image\/svg\+xml;base64,/);
+  });
+});
+
+describe('openai-compatible provider', () => {
+  const provider = createGenerationProvider({ provider: 'openai-compatible', baseUrl: 'http://x' });
+  const request = { systemInstruction: 'Forge', prompt: 'JSON only', responseSchema: schema, temperature: 0.5, safety: SAFETY_POLICY };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('skips a malformed stream event and keeps the rest', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const events = [
+      'data: {"choices":[{"delta":{"content":"{\\"name\\""}}]}',
+      'data: {not json',
+      'data: {"choices":[{"delta":{"content":":\\"Ember\\"}"}}]}',
+      'data: [DONE]',
+    ];
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(events.join('\n') + '\n')));
+
+    let text = '';
+    for await (const chunk of provider.streamText!(request)) text += chunk;
+    expect(JSON.parse(text)).toEqual({ name: 'Ember' });
+  });
+
+  it('reports a missing image model as a generation error', async () => {
+    await expect(provider.generateImage({ prompt: 'a ring', aspectRatio: '1:1', safety: SAFETY_POLICY }))
+      .rejects.toBeInstanceOf(GenerationError);
+  });
+});
+
+describe('schema translation', () => {
+  it('maps neutral types to Gemini types recursively', () => {
+    const gemini = toGeminiSchema(schema);
+    expect(gemini.type).toBe(Type.OBJECT);
+    expect(gemini.properties?.effects.type).toBe(Type.ARRAY);
+    expect(gemini.properties?.effects.items?.type).toBe(Type.STRING);
+    expect(gemini.propertyOrdering).toEqual(['name', 'rarity']);
+  });
+
+  it('emits plain JSON Schema without Gemini-only hints', () => {
+    const json = toJsonSchema(schema) as any;
+    expect(json.type).toBe('object');
+    expect(json.properties.rarity.enum).toEqual(['Rare', 'Legendary']);
+    expect(json.propertyOrdering).toBeUndefined();
+  });
+});
+
+describe('safety policy translation', () => {
+  it('maps every category to a Gemini threshold', () => {
+    const settings = toGeminiSafetySettings(SAFETY_POLICY);
+    expect(settings).toHaveLength(4);
+    expect(settings.every((s) => s.threshold === HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE)).toBe(true);
+  });
+
+  it('describes the policy as prompt text for providers without filters', () => {
+    const text = describeSafetyPolicy(SAFETY_POLICY);
+    expect(text).toContain('moderate or severe hate speech');
+    expect(describeSafetyPolicy({
+      harassment: 'block_none',
+      hateSpeech: 'block_none',
+      sexuallyExplicit: 'block_none',
+      dangerousContent: 'block_none',
+    })).toBe('');
+  });
+});
@@ -0,0 +1,118 @@
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { createFixtureProvider } from './fixtureProvider';
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'fixture';
+
+export const PROVIDER_IDS: ProviderId[] = ['gemini', 'openai-compatible', 'fixture'];
+
+/**
+ * Provider-neutral description of the JSON we expect back from a text model.
+ * A subset of JSON Schema; each provider translates it into its own dialect.
+ */
+export interface ResponseSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, ResponseSchema>;
+  items?: ResponseSchema;
+  minItems?: number;
+  required?: string[];
+  enum?: string[];
+  // Order in which the model should emit object properties (where supported)
+  propertyOrdering?: string[];
+}
+
+export type SafetyThreshold = 'block_low_and_above' | 'block_medium_and_above' | 'block_only_high' | 'block_none';
+
+/**
+ * How aggressively each category of harmful content should be blocked.
+ * Providers without native safety filters fold this into the system prompt.
+ */
+export interface SafetyPolicy {
+  harassment: SafetyThreshold;
+  hateSpeech: SafetyThreshold;
+  sexuallyExplicit: SafetyThreshold;
+  dangerousContent: SafetyThreshold;
+}
+
+export interface TextGenerationRequest {
+  systemInstruction: string;
+  prompt: string;
+  responseSchema: ResponseSchema;
+  temperature: number;
+  safety: SafetyPolicy;
+}
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  aspectRatio: string;
+  safety: SafetyPolicy;
+}
+
+/**
+ * A backend capable of producing item text (as raw JSON) and item images
+ * (as data URLs). streamText is optional; callers fall back to generateText.
+ * Aborting its signal cancels the underlying request.
+ */
+export interface GenerationProvider {
+  readonly id: ProviderId;
+  readonly textModel: string;
+  readonly imageModel: string;
+  generateText: (request: TextGenerationRequest) => Promise<string>;
+  streamText?: (request: TextGenerationRequest, signal?: AbortSignal) => AsyncIterable<string>;
+  generateImage: (request: ImageGenerationRequest) => Promise<string>;
+}
+
+export interface ProviderConfig {
+  provider: ProviderId;
+  apiKey?: string;
+  baseUrl?: string;
+  textModel?: string;
+  imageModel?: string;
+}
+
+/**
+ * Read the provider selection from the build-time environment
+ * (see the `define` block in vite.config.ts).
+ */
+export const getProviderConfig = (): ProviderConfig => {
+  const requested = (process.env.AI_PROVIDER || 'gemini') as ProviderId;
+  const provider = PROVIDER_IDS.includes(requested) ? requested : 'gemini';
+
+  return {
+    provider,
+    apiKey: provider === 'openai-compatible' ? process.env.OPENAI_API_KEY : process.env.API_KEY,
+    baseUrl: process.env.OPENAI_BASE_URL || undefined,
+    textModel: process.env.AI_TEXT_MODEL || undefined,
+    imageModel: process.env.AI_IMAGE_MODEL || undefined,
+  };
+};
+
+/**
+ * Whether the configured provider has everything it needs to run.
+ * Local OpenAI-compatible servers (Ollama, llama.cpp) usually need no key.
+ */
+export const isProviderConfigured = (config: ProviderConfig = getProviderConfig()): boolean => {
+  switch (config.provider) {
+    case 'fixture':
+      return true;
+    case 'openai-compatible':
+      return !!config.baseUrl;
+    default:
+      return !!config.apiKey;
+  }
+};
+
+export const createGenerationProvider = (config: ProviderConfig): GenerationProvider => {
+  switch (config.provider) {
+    case 'fixture':
+      return createFixtureProvider(config);
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider(config);
+    default:
+      return createGeminiProvider(config);
+  }
+};
+
+export const getGenerationProvider = (): GenerationProvider =>
+  createGenerationProvider(getProviderConfig());
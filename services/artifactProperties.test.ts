@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { ARTIFACT_PROPERTY_KINDS, rollArtifactProperties, wantsArtifactProperties } from './artifactProperties';
+import { DEFAULT_SETTINGS } from '../constants';
+
+// Small deterministic PRNG (mulberry32) so rolls are reproducible
+const seeded = (seed: number) => () => {
+  seed |= 0;
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+describe('rollArtifactProperties', () => {
+  it('is reproducible for the same random source', () => {
+    expect(rollArtifactProperties(seeded(7))).toEqual(rollArtifactProperties(seeded(7)));
+  });
+
+  it('rolls two minor and one major property of each sort, without repeats', () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const artifact = rollArtifactProperties(seeded(seed));
+      expect(artifact.minor_beneficial).toHaveLength(2);
+      expect(artifact.major_beneficial).toHaveLength(1);
+      expect(artifact.minor_detrimental).toHaveLength(2);
+      expect(artifact.major_detrimental).toHaveLength(1);
+      ARTIFACT_PROPERTY_KINDS.forEach((kind) => {
+        expect(new Set(artifact[kind]).size).toBe(artifact[kind].length);
+      });
+      expect(artifact.destruction).toEqual(expect.any(String));
+    }
+  });
+});
+
+describe('wantsArtifactProperties', () => {
+  it('only applies to artifacts with a property mode', () => {
+    expect(wantsArtifactProperties({ ...DEFAULT_SETTINGS, rarity: 'Artifact' })).toBe(true);
+    expect(wantsArtifactProperties({ ...DEFAULT_SETTINGS, rarity: 'Artifact', artifactProperties: 'none' })).toBe(false);
+    expect(wantsArtifactProperties({ ...DEFAULT_SETTINGS, rarity: 'Legendary', artifactProperties: 'roll' })).toBe(false);
+  });
+});
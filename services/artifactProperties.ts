@@ -0,0 +1,114 @@
+import { ArtifactPropertyKind, GenerationSettings, ItemArtifactProperties } from '../types';
+
+type Rng = () => number;
+
+export const ARTIFACT_PROPERTY_KINDS: ArtifactPropertyKind[] = [
+  'minor_beneficial',
+  'major_beneficial',
+  'minor_detrimental',
+  'major_detrimental',
+];
+
+export const ARTIFACT_PROPERTY_LABELS: Record<ArtifactPropertyKind, string> = {
+  minor_beneficial: 'Minor Beneficial Properties',
+  major_beneficial: 'Major Beneficial Properties',
+  minor_detrimental: 'Minor Detrimental Properties',
+  major_detrimental: 'Major Detrimental Properties',
+};
+
+// How many properties of each kind a rolled artifact gets
+const ROLLED_COUNTS: Record<ArtifactPropertyKind, number> = {
+  minor_beneficial: 2,
+  major_beneficial: 1,
+  minor_detrimental: 2,
+  major_detrimental: 1,
+};
+
+// Property tables in the spirit of the classic artifact tables, worded for this forge
+const PROPERTY_TABLES: Record<ArtifactPropertyKind, string[]> = {
+  minor_beneficial: [
+    'While attuned to the artifact, you gain proficiency in one skill of the DM\'s choice.',
+    'You are immune to disease while carrying the artifact.',
+    'You can\'t be charmed or frightened while you hold the artifact.',
+    'You gain darkvision out to 60 feet, or 60 more feet if you already have it.',
+    'You can speak, read and write two extra languages of the DM\'s choice.',
+    'You can cast a 1st-level spell tied to the artifact\'s nature once, regaining the use at dawn.',
+    'You have advantage on initiative rolls.',
+    'You don\'t need to eat or drink while attuned to the artifact.',
+    'You can\'t be surprised while you are conscious.',
+    'Your walking speed increases by 10 feet.',
+    'You have advantage on saving throws against poison.',
+    'You can cast a cantrip of the DM\'s choice at will.',
+  ],
+  major_beneficial: [
+    'One ability score of the DM\'s choice increases by 2, to a maximum of 24.',
+    'You regain 1d6 hit points at the start of each of your turns if you have at least 1 hit point.',
+    'You have resistance to one damage type of the DM\'s choice.',
+    'You can cast a 4th-level spell tied to the artifact\'s nature once, regaining the use at dawn.',
+    'Weapon attacks you make with the artifact, or while holding it, deal an extra 2d6 damage of a type suited to it.',
+    'You gain a flying speed equal to your walking speed.',
+    'You can cast a 6th-level spell tied to the artifact\'s nature once, regaining the use at dawn.',
+    'You have advantage on saving throws against spells and other magical effects.',
+    'Your hit point maximum increases by 2 per character level.',
+    'Once per dawn, you can reroll a failed saving throw and must use the new roll.',
+  ],
+  minor_detrimental: [
+    'While attuned, you have disadvantage on one type of ability check of the DM\'s choice.',
+    'Your appearance changes in a way that hints at the artifact\'s nature.',
+    'Beasts within 30 feet of you are hostile toward you.',
+    'You are vulnerable to one damage type of the DM\'s choice.',
+    'The artifact whispers constantly; you have disadvantage on Wisdom (Perception) checks that rely on hearing.',
+    'Nonmagical food you touch spoils at once.',
+    'You must sleep twice as long to gain the benefit of a long rest.',
+    'You cast no reflection and no shadow.',
+    'The artifact sheds dim light in a 10-foot radius that can\'t be suppressed.',
+    'Lying becomes painful: you take 1d4 psychic damage each time you knowingly speak a falsehood.',
+  ],
+  major_detrimental: [
+    'Each dawn, make a DC 15 Wisdom saving throw; on a failure, the artifact dictates your actions until the next dawn.',
+    'Your hit point maximum is reduced by 1d10 each time you attune to the artifact; only a wish spell restores it.',
+    'Creatures of a kind tied to the artifact\'s history are drawn to it and hunt its bearer.',
+    'Each time you use one of the artifact\'s properties, you gain one level of exhaustion unless you succeed on a DC 15 Constitution saving throw.',
+    'You age one year each time you use the artifact\'s major properties.',
+    'The artifact demands a sacrifice each tenday; if it is not made, you can\'t use its beneficial properties.',
+    'A powerful being the artifact once served always knows where the artifact is.',
+    'When you die while attuned, your soul is trapped in the artifact.',
+  ],
+};
+
+const DESTRUCTION_METHODS = [
+  'It must be cast into the fire or forge where it was first made.',
+  'It is unmade only if a creature that never touched it breaks it with a weapon forged for that single purpose.',
+  'It crumbles if carried to the place its creator died and left there from dusk until dawn.',
+  'It must be bathed in the blood of the being it was made to slay.',
+  'It is destroyed only when its bearer gives it away freely and the recipient refuses it.',
+  'It shatters if struck by a wish spell cast by a creature it has wronged.',
+  'It fades from the world once every one of its creator\'s descendants has died.',
+  'It must be submerged in the deepest waters of the Elemental Plane of Water for a year and a day.',
+];
+
+// Draw `count` different entries from a table
+const drawDistinct = (table: string[], count: number, rng: Rng): string[] => {
+  const remaining = [...table];
+  const drawn: string[] = [];
+  while (drawn.length < count && remaining.length > 0) {
+    drawn.push(remaining.splice(Math.floor(rng() * remaining.length), 1)[0]);
+  }
+  return drawn;
+};
+
+/**
+ * Roll a full set of artifact properties and a destruction method from the
+ * forge's tables, without repeating an entry within a kind.
+ */
+export const rollArtifactProperties = (rng: Rng = Math.random): ItemArtifactProperties => ({
+  minor_beneficial: drawDistinct(PROPERTY_TABLES.minor_beneficial, ROLLED_COUNTS.minor_beneficial, rng),
+  major_beneficial: drawDistinct(PROPERTY_TABLES.major_beneficial, ROLLED_COUNTS.major_beneficial, rng),
+  minor_detrimental: drawDistinct(PROPERTY_TABLES.minor_detrimental, ROLLED_COUNTS.minor_detrimental, rng),
+  major_detrimental: drawDistinct(PROPERTY_TABLES.major_detrimental, ROLLED_COUNTS.major_detrimental, rng),
+  destruction: DESTRUCTION_METHODS[Math.floor(rng() * DESTRUCTION_METHODS.length)],
+});
+
+// Artifact property tables only apply to Artifact-rarity items, and only when not switched off
+export const wantsArtifactProperties = (settings: GenerationSettings): boolean =>
+  settings.rarity === 'Artifact' && (settings.artifactProperties ?? 'none') !== 'none';
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeItemBalance, extractBalanceSignals, extractItemSignals } from './balanceAnalyzer';
+import { ItemData } from '../types';
+
+const makeItem = (overrides: Partial<ItemData>, effects: string[]): ItemData => ({
+  name: 'Test Item',
+  type: 'Weapon (Longsword)',
+  rarity: 'Rare',
+  style: 'Oil Painting',
+  theme: 'None',
+  powerBand: 'Standard',
+  description: '',
+  mechanics: { attunement: false, effects, activation: '', scaling: '' },
+  curse: '',
+  plot_hook: '',
+  price_gp: 0,
+  ...overrides,
+});
+
+describe('extractBalanceSignals', () => {
+  it('reads bonuses, dice, DCs, charges, spell levels and durations', () => {
+    const signals = extractBalanceSignals([
+      'You gain a +2 bonus to attack and damage rolls.',
+      'The wand has 7 charges. Expend 3 to cast fireball as a 5th-level spell (DC 15), dealing 10d6 fire damage.',
+      'The shield of flame lasts for 10 minutes.',
+    ]);
+
+    expect(signals).toEqual({
+      bonus: 2,
+      spellLevel: 5,
+      saveDc: 15,
+      diceAverage: 35,
+      charges: 7,
+      durationMinutes: 10,
+    });
+  });
+
+  it('ignores character levels and flat damage modifiers', () => {
+    const signals = extractBalanceSignals([
+      'Only a 5th-level character may wield it.',
+      'Deals 1d8 + 3 slashing damage.',
+    ]);
+
+    expect(signals.spellLevel).toBe(0);
+    expect(signals.bonus).toBe(0);
+  });
+});
+
+describe('extractItemSignals', () => {
+  it('adds numbers from structured effect details to the prose', () => {
+    const item = makeItem({}, ['Once per day you can unleash a burst of flame.']);
+    item.mechanics.effect_details = [
+      { kind: 'save', name: 'Flame Burst', dice: '8d6', save_ability: 'DEX', save_dc: 17, charges: 5 },
+    ];
+
+    expect(extractItemSignals(item)).toMatchObject({ diceAverage: 28, saveDc: 17, charges: 5 });
+  });
+});
+
+describe('analyzeItemBalance', () => {
+  it('flags a +3 weapon at Uncommon', () => {
+    const report = analyzeItemBalance(
+      makeItem({ rarity: 'Uncommon' }, ['+3 to attack and damage rolls made with this weapon.'])
+    );
+
+    expect(report.isOvertuned).toBe(true);
+    expect(report.warnings[0].message).toBe('+3 weapon at Uncommon (expected at most +1)');
+    expect(report.assessedRarity).toBe('Very Rare');
+  });
+
+  it('flags a 9th-level spell on a Rare wand', () => {
+    const report = analyzeItemBalance(
+      makeItem({ type: 'Wand' }, ['Expend all charges to cast meteor swarm as a 9th-level spell.'])
+    );
+
+    expect(report.warnings.map((w) => w.message)).toContain(
+      '9th-level spell on a Rare wand (expected at most 5th level)'
+    );
+  });
+
+  it('lets higher power bands carry stronger effects', () => {
+    const effects = ['+3 bonus to attack and damage rolls.'];
+
+    expect(analyzeItemBalance(makeItem({ rarity: 'Rare' }, effects)).isOvertuned).toBe(true);
+    expect(analyzeItemBalance(makeItem({ rarity: 'Rare', powerBand: 'High Magic' }, effects)).isOvertuned).toBe(false);
+  });
+
+  it('holds Low Magic items to a lower tier', () => {
+    const report = analyzeItemBalance(
+      makeItem({ rarity: 'Rare', powerBand: 'Low Magic' }, ['+2 bonus to attack and damage rolls.'])
+    );
+
+    expect(report.warnings[0].message).toBe('+2 weapon at Rare (Low Magic allows up to +1)');
+  });
+
+  it('accepts an item within its rarity', () => {
+    const report = analyzeItemBalance(
+      makeItem({}, ['+1 to attack and damage rolls.', 'Deals an extra 2d6 fire damage.'])
+    );
+
+    expect(report.warnings).toEqual([]);
+    expect(report.isOvertuned).toBe(false);
+  });
+
+  it('only notes long durations without counting them as overtuned', () => {
+    const report = analyzeItemBalance(
+      makeItem({ rarity: 'Common', type: 'Potion' }, ['You can breathe underwater for 8 hours.'])
+    );
+
+    expect(report.warnings).toHaveLength(1);
+    expect(report.warnings[0].severity).toBe('info');
+    expect(report.isOvertuned).toBe(false);
+  });
+
+  it('skips expectations for rarities it does not know', () => {
+    const report = analyzeItemBalance(makeItem({ rarity: 'Unique' }, ['+5 bonus to AC.']));
+    expect(report.warnings).toEqual([]);
+  });
+});
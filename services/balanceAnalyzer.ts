@@ -0,0 +1,215 @@
+import { ItemData, ItemEffect, PowerBand, Rarity } from '../types';
+import { RARITIES } from '../constants';
+
+export type BalanceSeverity = 'warning' | 'info';
+
+export interface BalanceWarning {
+  code: 'bonus' | 'spell_level' | 'save_dc' | 'dice' | 'charges' | 'duration' | 'undertuned';
+  severity: BalanceSeverity;
+  message: string;
+}
+
+// The strongest value of each kind found in the item's effects
+export interface BalanceSignals {
+  bonus: number;
+  spellLevel: number;
+  saveDc: number;
+  diceAverage: number;
+  charges: number;
+  durationMinutes: number;
+}
+
+export interface BalanceReport {
+  signals: BalanceSignals;
+  expectedTier: number;
+  assessedTier: number;
+  assessedRarity: Rarity;
+  warnings: BalanceWarning[];
+  isOvertuned: boolean;
+}
+
+// Number of automatic re-rolls allowed when an item comes back overtuned
+export const MAX_BALANCE_REROLLS = 2;
+
+// Upper limits per tier, indexed Common..Artifact. Loosely follows the DMG
+// (+1 at Uncommon, spell scroll levels by rarity, wand of fireballs at Rare).
+const LIMITS: Record<keyof BalanceSignals, number[]> = {
+  bonus: [0, 1, 2, 3, 3, 4],
+  spellLevel: [1, 3, 5, 8, 9, 9],
+  saveDc: [11, 13, 15, 17, 19, 22],
+  diceAverage: [7, 14, 28, 40, 56, Infinity],
+  charges: [3, 7, 10, 20, 50, Infinity],
+  durationMinutes: [60, 240, 480, 1440, Infinity, Infinity],
+};
+
+// How far each power band shifts what a rarity is allowed to do
+const POWER_BAND_OFFSET: Record<PowerBand, number> = {
+  'Low Magic': -1,
+  'Standard': 0,
+  'High Magic': 1,
+  'Mythic': 2,
+};
+
+// Words after "Nth level" that mean a character level rather than a spell level
+const NON_SPELL_LEVEL_WORDS = new Set([
+  'character', 'characters', 'creature', 'creatures', 'wielder', 'wielders',
+  'player', 'players', 'adventurer', 'adventurers', 'hero', 'heroes', 'party',
+]);
+
+const MINUTES_PER_UNIT: Record<string, number> = { minute: 1, hour: 60, day: 1440 };
+
+const maxOf = (text: string, pattern: RegExp, read: (match: RegExpExecArray) => number | null): number => {
+  let max = 0;
+  for (const match of text.matchAll(pattern)) {
+    const value = read(match);
+    if (value !== null && value > max) max = value;
+  }
+  return max;
+};
+
+/**
+ * Pull the numbers that drive an item's power out of its effect text.
+ * Only effects are read; scaling text often describes future growth.
+ */
+export const extractBalanceSignals = (effects: string[]): BalanceSignals => {
+  const text = effects.join('\n');
+
+  return {
+    bonus: maxOf(text, /\+\s?(\d+)\s*(?:bonus|to\b|weapon|armor|shield|ac\b)/gi, (m) => Number(m[1])),
+    spellLevel: maxOf(text, /\b(\d)(?:st|nd|rd|th)[- ]level\b(?:\s+(\w+))?/gi, (m) =>
+      m[2] && NON_SPELL_LEVEL_WORDS.has(m[2].toLowerCase()) ? null : Number(m[1])
+    ),
+    saveDc: maxOf(text, /\bDC\s*(\d+)/gi, (m) => Number(m[1])),
+    diceAverage: maxOf(text, /\b(\d+)d(\d+)\b/gi, (m) => (Number(m[1]) * (Number(m[2]) + 1)) / 2),
+    charges: maxOf(text, /\b(\d+)\s+charges?\b/gi, (m) => Number(m[1])),
+    durationMinutes: maxOf(text, /\b(\d+)\s+(minute|hour|day)s?\b/gi, (m) =>
+      Number(m[1]) * MINUTES_PER_UNIT[m[2].toLowerCase()]
+    ),
+  };
+};
+
+// Restate a structured effect in the phrasing extractBalanceSignals reads
+const describeEffectNumbers = (effect: ItemEffect): string =>
+  [
+    effect.dice,
+    effect.save_dc !== undefined ? `DC ${effect.save_dc}` : '',
+    effect.charges !== undefined ? `${effect.charges} charges` : '',
+    effect.duration,
+  ].filter(Boolean).join(' ');
+
+/**
+ * Signals from an item's effect text and, where present, its structured
+ * effects. The structured values catch numbers the prose leaves implicit.
+ * Evolving items are judged at their final stage, so every stage counts.
+ */
+export const extractItemSignals = (itemData: ItemData): BalanceSignals =>
+  extractBalanceSignals([
+    ...(itemData.mechanics?.effects || []),
+    ...(itemData.mechanics?.effect_details || []).map(describeEffectNumbers),
+    ...(itemData.stages || []).flatMap((stage) => stage.effects),
+  ]);
+
+const ordinal = (n: number) => {
+  const suffix = n === 1 ? 'st' : n === 2 ? 'nd' : n === 3 ? 'rd' : 'th';
+  return `${n}${suffix}`;
+};
+
+// "Weapon (Longsword)" -> "weapon", "Wand" -> "wand"
+const describeType = (type: string) => {
+  const lower = type.toLowerCase();
+  if (lower.startsWith('weapon')) return 'weapon';
+  if (lower.startsWith('armor') || lower.startsWith('shield')) return 'armor';
+  return lower.split(/[\s(]/)[0] || 'item';
+};
+
+const formatMinutes = (minutes: number) =>
+  minutes >= 1440 ? `${minutes / 1440} day(s)` : minutes >= 60 ? `${minutes / 60} hour(s)` : `${minutes} minute(s)`;
+
+/**
+ * Score an item's mechanics against what its rarity and power band should
+ * allow. Warnings flag effects that belong to a higher tier; the assessed
+ * tier is the lowest tier that would accommodate everything found.
+ */
+export const analyzeItemBalance = (itemData: ItemData): BalanceReport => {
+  const signals = extractItemSignals(itemData);
+  const rarityTier = RARITIES.indexOf(itemData.rarity as Rarity);
+  const offset = POWER_BAND_OFFSET[itemData.powerBand as PowerBand] ?? 0;
+  const expectedTier = rarityTier === -1 ? RARITIES.length - 1 : Math.min(Math.max(rarityTier + offset, 0), RARITIES.length - 1);
+
+  const tierFor = (key: keyof BalanceSignals) => {
+    const tier = LIMITS[key].findIndex((limit) => signals[key] <= limit);
+    return tier === -1 ? RARITIES.length - 1 : tier;
+  };
+  const assessedTier = Math.max(...(Object.keys(LIMITS) as (keyof BalanceSignals)[]).map(tierFor));
+
+  const warnings: BalanceWarning[] = [];
+  const exceeds = (key: keyof BalanceSignals) => signals[key] > LIMITS[key][expectedTier];
+  const allowance = (value: string) =>
+    itemData.powerBand && itemData.powerBand !== 'Standard'
+      ? ` (${itemData.powerBand} allows up to ${value})`
+      : ` (expected at most ${value})`;
+  const noun = describeType(itemData.type || '');
+  const at = `at ${itemData.rarity}`;
+
+  if (rarityTier !== -1) {
+    if (exceeds('bonus')) {
+      warnings.push({
+        code: 'bonus',
+        severity: 'warning',
+        message: `+${signals.bonus} ${noun === 'weapon' || noun === 'armor' ? noun : 'bonus'} ${at}${allowance(`+${LIMITS.bonus[expectedTier]}`)}`,
+      });
+    }
+    if (exceeds('spellLevel')) {
+      warnings.push({
+        code: 'spell_level',
+        severity: 'warning',
+        message: `${ordinal(signals.spellLevel)}-level spell on a ${itemData.rarity} ${noun}${allowance(`${ordinal(LIMITS.spellLevel[expectedTier])} level`)}`,
+      });
+    }
+    if (exceeds('saveDc')) {
+      warnings.push({
+        code: 'save_dc',
+        severity: 'warning',
+        message: `Save DC ${signals.saveDc} ${at}${allowance(`DC ${LIMITS.saveDc[expectedTier]}`)}`,
+      });
+    }
+    if (exceeds('diceAverage')) {
+      warnings.push({
+        code: 'dice',
+        severity: 'warning',
+        message: `Dice averaging ${signals.diceAverage} ${at}${allowance(`an average of ${LIMITS.diceAverage[expectedTier]}`)}`,
+      });
+    }
+    if (exceeds('charges')) {
+      warnings.push({
+        code: 'charges',
+        severity: 'warning',
+        message: `${signals.charges} charges ${at}${allowance(`${LIMITS.charges[expectedTier]}`)}`,
+      });
+    }
+    // Long durations are often fine for utility effects, so only mention them
+    if (exceeds('durationMinutes')) {
+      warnings.push({
+        code: 'duration',
+        severity: 'info',
+        message: `Effect lasting ${formatMinutes(signals.durationMinutes)} ${at}${allowance(formatMinutes(LIMITS.durationMinutes[expectedTier]))}`,
+      });
+    }
+    if ((noun === 'weapon' || noun === 'armor') && signals.bonus > 0 && signals.bonus < LIMITS.bonus[expectedTier] - 1) {
+      warnings.push({
+        code: 'undertuned',
+        severity: 'info',
+        message: `+${signals.bonus} ${noun} is modest for ${itemData.rarity}`,
+      });
+    }
+  }
+
+  return {
+    signals,
+    expectedTier,
+    assessedTier,
+    assessedRarity: RARITIES[assessedTier],
+    warnings,
+    isOvertuned: warnings.some((w) => w.severity === 'warning'),
+  };
+};
@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  emptyCampaignProfile,
+  findCampaignProfile,
+  loadCampaignProfiles,
+  removeCampaignProfile,
+  saveCampaignProfile,
+  CAMPAIGN_PROFILES_KEY,
+  MAX_CAMPAIGN_FIELD_LENGTH,
+  MAX_CAMPAIGN_PROFILES,
+} from './campaignProfiles';
+
+const profile = (name: string, setting = 'A drowned empire.') => ({ ...emptyCampaignProfile(), name, setting });
+
+describe('campaign profiles', () => {
+  beforeEach(() => {
+    localStorage.removeItem(CAMPAIGN_PROFILES_KEY);
+  });
+
+  it('persists saved profiles, trimmed', () => {
+    saveCampaignProfile({ ...profile(' The Drowned Crown '), tone: ' Grim. ' });
+
+    expect(loadCampaignProfiles()).toEqual([{ ...profile('The Drowned Crown'), tone: 'Grim.' }]);
+    expect(findCampaignProfile('the drowned crown')?.tone).toBe('Grim.');
+    expect(removeCampaignProfile('The Drowned Crown')).toEqual([]);
+  });
+
+  it('replaces the profile with the same name instead of adding another', () => {
+    saveCampaignProfile(profile('Drowned Crown'));
+    saveCampaignProfile(profile('DROWNED CROWN', 'The tides have turned.'));
+
+    expect(loadCampaignProfiles()).toEqual([profile('DROWNED CROWN', 'The tides have turned.')]);
+  });
+
+  it('refuses nameless, empty, oversized and one-too-many profiles', () => {
+    expect(() => saveCampaignProfile(profile(' '))).toThrow(/name/);
+    expect(() => saveCampaignProfile(profile('Blank', ' '))).toThrow(/at least one field/);
+    expect(() => saveCampaignProfile(profile('Epic', 'x'.repeat(MAX_CAMPAIGN_FIELD_LENGTH + 1)))).toThrow(/Setting/);
+
+    for (let i = 0; i < MAX_CAMPAIGN_PROFILES; i++) saveCampaignProfile(profile(`Campaign ${i}`));
+    expect(() => saveCampaignProfile(profile('One Too Many'))).toThrow(/at most/);
+    expect(() => saveCampaignProfile(profile('Campaign 0', 'Rewritten.'))).not.toThrow();
+  });
+
+  it('ignores corrupted saved data and fills in missing fields', () => {
+    localStorage.setItem(CAMPAIGN_PROFILES_KEY, '{not json');
+    expect(loadCampaignProfiles()).toEqual([]);
+
+    localStorage.setItem(CAMPAIGN_PROFILES_KEY, JSON.stringify([{ name: 'Old', setting: 'Saved long ago.' }, { name: '' }]));
+    expect(loadCampaignProfiles()).toEqual([profile('Old', 'Saved long ago.')]);
+  });
+});
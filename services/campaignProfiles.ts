@@ -0,0 +1,116 @@
+import { CampaignField, CampaignProfile } from '../types';
+
+export const CAMPAIGN_PROFILES_KEY = 'arcane-forge-campaigns';
+
+// Fired on window whenever the profiles are saved, so every open form picks them up
+export const CAMPAIGN_CHANGE_EVENT = 'arcane-forge-campaign-change';
+
+export const MAX_CAMPAIGN_PROFILES = 10;
+export const MAX_CAMPAIGN_NAME_LENGTH = 60;
+export const MAX_CAMPAIGN_FIELD_LENGTH = 1500;
+
+export const CAMPAIGN_FIELDS: CampaignField[] = ['setting', 'pantheon', 'factions', 'places', 'tone', 'bannedContent'];
+
+export const CAMPAIGN_FIELD_LABELS: Record<CampaignField, string> = {
+  setting: 'Setting',
+  pantheon: 'Pantheon',
+  factions: 'Factions',
+  places: 'Places',
+  tone: 'Tone',
+  bannedContent: 'Banned Content',
+};
+
+export const emptyCampaignProfile = (): CampaignProfile => ({
+  name: '',
+  setting: '',
+  pantheon: '',
+  factions: '',
+  places: '',
+  tone: '',
+  bannedContent: '',
+});
+
+const isProfile = (value: unknown): value is CampaignProfile =>
+  typeof value === 'object' && value !== null
+  && typeof (value as any).name === 'string' && (value as any).name.trim().length > 0;
+
+// Missing fields read as empty, so profiles saved before a field existed still load
+const normalizeProfile = (profile: CampaignProfile): CampaignProfile => {
+  const normalized = { ...emptyCampaignProfile(), name: profile.name };
+  CAMPAIGN_FIELDS.forEach((field) => {
+    if (typeof profile[field] === 'string') normalized[field] = profile[field];
+  });
+  return normalized;
+};
+
+/**
+ * Read the saved campaign profiles. Missing or corrupted data yields no
+ * profiles rather than an error, so a bad entry never blocks the form.
+ */
+export const loadCampaignProfiles = (): CampaignProfile[] => {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+
+  try {
+    const raw = window.localStorage.getItem(CAMPAIGN_PROFILES_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter(isProfile).map(normalizeProfile) : [];
+  } catch (e) {
+    console.warn('Failed to read the campaign profiles, starting empty.', e);
+    return [];
+  }
+};
+
+export const saveCampaignProfiles = (profiles: CampaignProfile[]): void => {
+  window.localStorage.setItem(CAMPAIGN_PROFILES_KEY, JSON.stringify(profiles));
+  window.dispatchEvent(new Event(CAMPAIGN_CHANGE_EVENT));
+};
+
+export const findCampaignProfile = (name: string): CampaignProfile | undefined =>
+  loadCampaignProfiles().find((profile) => profile.name.toLowerCase() === name.trim().toLowerCase());
+
+/**
+ * Save a campaign profile, replacing the one with the same name (ignoring
+ * case) if there is one. Throws if the name is empty or too long, a field is
+ * too long, the profile says nothing, or a new profile would exceed the limit.
+ */
+export const saveCampaignProfile = (profile: CampaignProfile): CampaignProfile[] => {
+  const name = profile.name.trim();
+  if (!name) {
+    throw new Error('Give the campaign a name.');
+  }
+  if (name.length > MAX_CAMPAIGN_NAME_LENGTH) {
+    throw new Error(`Names can be at most ${MAX_CAMPAIGN_NAME_LENGTH} characters.`);
+  }
+
+  const saved: CampaignProfile = { ...emptyCampaignProfile(), name };
+  CAMPAIGN_FIELDS.forEach((field) => {
+    const text = (profile[field] ?? '').trim();
+    if (text.length > MAX_CAMPAIGN_FIELD_LENGTH) {
+      throw new Error(`${CAMPAIGN_FIELD_LABELS[field]} can be at most ${MAX_CAMPAIGN_FIELD_LENGTH} characters.`);
+    }
+    saved[field] = text;
+  });
+  if (CAMPAIGN_FIELDS.every((field) => !saved[field])) {
+    throw new Error('Describe the campaign in at least one field.');
+  }
+
+  const profiles = loadCampaignProfiles();
+  const index = profiles.findIndex((existing) => existing.name.toLowerCase() === name.toLowerCase());
+  if (index === -1 && profiles.length >= MAX_CAMPAIGN_PROFILES) {
+    throw new Error(`You can keep at most ${MAX_CAMPAIGN_PROFILES} campaign profiles.`);
+  }
+
+  const updated = index === -1
+    ? [...profiles, saved]
+    : profiles.map((existing, i) => (i === index ? saved : existing));
+  saveCampaignProfiles(updated);
+  return updated;
+};
+
+export const removeCampaignProfile = (name: string): CampaignProfile[] => {
+  const updated = loadCampaignProfiles().filter((profile) => profile.name !== name);
+  saveCampaignProfiles(updated);
+  return updated;
+};
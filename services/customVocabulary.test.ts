@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  addVocabularyEntry,
+  removeVocabularyEntry,
+  loadCustomVocabulary,
+  findVocabularyEntry,
+  CUSTOM_VOCABULARY_KEY,
+  VOCABULARY_CHANGE_EVENT,
+} from './customVocabulary';
+
+describe('custom vocabulary', () => {
+  beforeEach(() => {
+    localStorage.removeItem(CUSTOM_VOCABULARY_KEY);
+    vi.restoreAllMocks();
+  });
+
+  it('starts empty', () => {
+    expect(loadCustomVocabulary()).toEqual({ themes: [], styles: [], itemTypes: [] });
+  });
+
+  it('persists added entries, trimmed', () => {
+    addVocabularyEntry('themes', { name: '  Sunken Empire ', description: 'A drowned kingdom of coral thrones.' });
+
+    expect(loadCustomVocabulary().themes).toEqual([
+      { name: 'Sunken Empire', description: 'A drowned kingdom of coral thrones.' },
+    ]);
+    expect(findVocabularyEntry('themes', 'Sunken Empire')?.description).toMatch(/coral/);
+  });
+
+  it('refuses duplicates of built-in and existing names, ignoring case', () => {
+    expect(() => addVocabularyEntry('themes', { name: 'feywild', description: '' })).toThrow(/already exists/);
+    expect(() => addVocabularyEntry('itemTypes', { name: 'Worn Item', description: '' })).toThrow(/already exists/);
+
+    addVocabularyEntry('itemTypes', { name: 'Tattoo', description: '' });
+    expect(() => addVocabularyEntry('itemTypes', { name: 'TATTOO', description: '' })).toThrow(/already exists/);
+  });
+
+  it('requires a prompt fragment for art styles', () => {
+    expect(() => addVocabularyEntry('styles', { name: 'Woodcut', description: ' ' })).toThrow(/Describe/);
+  });
+
+  it('removes entries and notifies listeners', () => {
+    const listener = vi.fn();
+    window.addEventListener(VOCABULARY_CHANGE_EVENT, listener);
+    addVocabularyEntry('itemTypes', { name: 'Vehicle Component', description: '' });
+    removeVocabularyEntry('itemTypes', 'Vehicle Component');
+    window.removeEventListener(VOCABULARY_CHANGE_EVENT, listener);
+
+    expect(loadCustomVocabulary().itemTypes).toEqual([]);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('ignores corrupted storage', () => {
+    localStorage.setItem(CUSTOM_VOCABULARY_KEY, 'not-valid-json');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(loadCustomVocabulary().themes).toEqual([]);
+
+    localStorage.setItem(CUSTOM_VOCABULARY_KEY, JSON.stringify({ themes: [{ name: '' }, { name: 'Ok', description: '' }] }));
+    expect(loadCustomVocabulary().themes).toEqual([{ name: 'Ok', description: '' }]);
+  });
+});
@@ -0,0 +1,105 @@
+import { CustomVocabulary, CustomVocabularyEntry, VocabularyKind } from '../types';
+import { THEMES, VISUAL_STYLES } from '../constants';
+import { GAME_SYSTEMS, getItemTypes } from './gameSystems';
+
+export const CUSTOM_VOCABULARY_KEY = 'arcane-forge-custom-vocabulary';
+
+// Fired on window whenever the vocabulary is saved, so every open form picks it up
+export const VOCABULARY_CHANGE_EVENT = 'arcane-forge-vocabulary-change';
+
+export const MAX_VOCABULARY_NAME_LENGTH = 40;
+export const MAX_VOCABULARY_DESCRIPTION_LENGTH = 300;
+
+export const VOCABULARY_KINDS: VocabularyKind[] = ['themes', 'styles', 'itemTypes'];
+
+export const emptyVocabulary = (): CustomVocabulary => ({ themes: [], styles: [], itemTypes: [] });
+
+const builtInNames = (kind: VocabularyKind): string[] => {
+  switch (kind) {
+    case 'themes':
+      return THEMES;
+    case 'styles':
+      return VISUAL_STYLES;
+    case 'itemTypes':
+      return Object.values(GAME_SYSTEMS).flatMap(getItemTypes);
+  }
+};
+
+const isEntry = (value: unknown): value is CustomVocabularyEntry =>
+  typeof value === 'object' && value !== null
+  && typeof (value as any).name === 'string' && (value as any).name.trim().length > 0
+  && typeof (value as any).description === 'string';
+
+/**
+ * Read the saved vocabulary. Missing or corrupted data yields an empty
+ * vocabulary rather than an error, so a bad entry never blocks the form.
+ */
+export const loadCustomVocabulary = (): CustomVocabulary => {
+  const vocabulary = emptyVocabulary();
+  if (typeof window === 'undefined') {
+    return vocabulary;
+  }
+
+  try {
+    const raw = window.localStorage.getItem(CUSTOM_VOCABULARY_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    VOCABULARY_KINDS.forEach((kind) => {
+      if (Array.isArray(parsed?.[kind])) {
+        vocabulary[kind] = parsed[kind].filter(isEntry);
+      }
+    });
+  } catch (e) {
+    console.warn('Failed to read the custom vocabulary, starting empty.', e);
+  }
+  return vocabulary;
+};
+
+export const saveCustomVocabulary = (vocabulary: CustomVocabulary): void => {
+  window.localStorage.setItem(CUSTOM_VOCABULARY_KEY, JSON.stringify(vocabulary));
+  window.dispatchEvent(new Event(VOCABULARY_CHANGE_EVENT));
+};
+
+/**
+ * Add a theme, art style or item type. Throws if the name is empty, too long,
+ * or already taken by a built-in or custom entry of the same kind.
+ */
+export const addVocabularyEntry = (kind: VocabularyKind, entry: CustomVocabularyEntry): CustomVocabulary => {
+  const name = entry.name.trim();
+  const description = entry.description.trim();
+  if (!name) {
+    throw new Error('Give the entry a name.');
+  }
+  if (name.length > MAX_VOCABULARY_NAME_LENGTH) {
+    throw new Error(`Names can be at most ${MAX_VOCABULARY_NAME_LENGTH} characters.`);
+  }
+  if (kind === 'styles' && !description) {
+    throw new Error('Describe how the art style should look.');
+  }
+
+  const vocabulary = loadCustomVocabulary();
+  const taken = [...builtInNames(kind), ...vocabulary[kind].map((existing) => existing.name)];
+  if (taken.some((existing) => existing.toLowerCase() === name.toLowerCase())) {
+    throw new Error(`"${name}" already exists.`);
+  }
+
+  const updated = {
+    ...vocabulary,
+    [kind]: [...vocabulary[kind], { name, description: description.slice(0, MAX_VOCABULARY_DESCRIPTION_LENGTH) }],
+  };
+  saveCustomVocabulary(updated);
+  return updated;
+};
+
+export const removeVocabularyEntry = (kind: VocabularyKind, name: string): CustomVocabulary => {
+  const vocabulary = loadCustomVocabulary();
+  const updated = { ...vocabulary, [kind]: vocabulary[kind].filter((entry) => entry.name !== name) };
+  saveCustomVocabulary(updated);
+  return updated;
+};
+
+/**
+ * The custom entry with this name, if the user defined one. Built-in names
+ * never match, since adding a duplicate of a built-in is refused.
+ */
+export const findVocabularyEntry = (kind: VocabularyKind, name: string): CustomVocabularyEntry | undefined =>
+  loadCustomVocabulary()[kind].find((entry) => entry.name === name);
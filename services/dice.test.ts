@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { describeRoll, findDiceExpressions, parseDiceExpression, rollDice } from './dice';
+
+// Replays the given values as the random source
+const sequence = (...values: number[]) => {
+  let i = 0;
+  return () => values[i++ % values.length];
+};
+
+// rng value that rolls `face` on a die with `sides` sides
+const face = (value: number, sides: number) => (value - 0.5) / sides;
+
+describe('parseDiceExpression', () => {
+  it('parses dice groups and flat modifiers', () => {
+    expect(parseDiceExpression('2d6 + 1d4 - 1')).toEqual({
+      text: '2d6+1d4-1',
+      groups: [
+        { count: 2, sides: 6, sign: 1 },
+        { count: 1, sides: 4, sign: 1 },
+      ],
+      modifier: -1,
+    });
+    expect(parseDiceExpression('D20')?.groups).toEqual([{ count: 1, sides: 20, sign: 1 }]);
+  });
+
+  it('rejects text and unreasonable dice', () => {
+    expect(parseDiceExpression('lots')).toBeNull();
+    expect(parseDiceExpression('2d')).toBeNull();
+    expect(parseDiceExpression('500d6')).toBeNull();
+    expect(parseDiceExpression('1d0')).toBeNull();
+  });
+});
+
+describe('findDiceExpressions', () => {
+  it('finds dice in prose with their positions', () => {
+    const text = 'Deals 2d6 fire damage and regains 1d6 + 1 charges at dawn.';
+    const found = findDiceExpressions(text);
+
+    expect(found.map((match) => match.expression)).toEqual(['2d6', '1d6 + 1']);
+    expect(text.slice(found[1].start, found[1].end)).toBe('1d6 + 1');
+  });
+
+  it('ignores bonuses, distances and words containing d', () => {
+    expect(findDiceExpressions('A +2 bonus within 30 feet of the shield; add20 is not a roll.')).toEqual([]);
+    expect(findDiceExpressions('Roll a d20 and add 5')[0].expression).toBe('d20');
+    expect(findDiceExpressions('Takes 1d8 + 10ft')[0].expression).toBe('1d8');
+  });
+});
+
+describe('rollDice', () => {
+  it('totals the dice and modifier', () => {
+    const roll = rollDice(parseDiceExpression('2d6+1')!, {}, sequence(face(4, 6), face(2, 6)));
+
+    expect(roll).toMatchObject({ total: 7, mode: 'normal', critical: false, modifier: 1 });
+    expect(roll.dice).toEqual([{ sides: 6, sign: 1, results: [4, 2] }]);
+    expect(describeRoll(roll)).toBe('[4, 2] + 1 = 7');
+  });
+
+  it('keeps the higher or lower of two rolls for advantage and disadvantage', () => {
+    const rng = () => sequence(face(5, 20), face(17, 20));
+
+    expect(rollDice(parseDiceExpression('d20')!, { mode: 'advantage' }, rng())).toMatchObject({ total: 17, discarded: 5 });
+    expect(rollDice(parseDiceExpression('d20')!, { mode: 'disadvantage' }, rng())).toMatchObject({ total: 5, discarded: 17 });
+  });
+
+  it('doubles the dice but not the modifier on a critical', () => {
+    const roll = rollDice(parseDiceExpression('1d8+3')!, { critical: true }, sequence(face(8, 8), face(1, 8)));
+
+    expect(roll.dice[0].results).toEqual([8, 1]);
+    expect(roll.total).toBe(12);
+  });
+
+  it('subtracts negative dice groups', () => {
+    const roll = rollDice(parseDiceExpression('1d10-1d4')!, {}, sequence(face(6, 10), face(3, 4)));
+
+    expect(roll.total).toBe(3);
+    expect(describeRoll(roll)).toBe('[6] - [3] = 3');
+  });
+});
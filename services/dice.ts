@@ -0,0 +1,140 @@
+type Rng = () => number;
+
+export type RollMode = 'normal' | 'advantage' | 'disadvantage';
+
+interface DiceGroup {
+  count: number;
+  sides: number;
+  sign: 1 | -1;
+}
+
+export interface DiceExpression {
+  // Normalized form, e.g. "2d6+1"
+  text: string;
+  groups: DiceGroup[];
+  modifier: number;
+}
+
+export interface DiceRollOptions {
+  mode?: RollMode;
+  // Doubles the number of dice rolled; the flat modifier is added once
+  critical?: boolean;
+}
+
+export interface DiceRoll {
+  expression: string;
+  label?: string;
+  mode: RollMode;
+  critical: boolean;
+  // One entry per dice group of the kept roll, signed as in the expression
+  dice: { sides: number; sign: 1 | -1; results: number[] }[];
+  modifier: number;
+  total: number;
+  // Total of the roll that was not kept under advantage or disadvantage
+  discarded?: number;
+}
+
+// Keeps a typo like "1000d1000" from freezing the page
+const MAX_DICE = 100;
+const MAX_SIDES = 1000;
+
+const TERM = /([+-]?)(\d*)d(\d+)|([+-]?)(\d+)/gi;
+const EXPRESSION = /^(\d*d\d+|\d+)([+-](\d*d\d+|\d+))*$/i;
+
+// A dice expression inside prose: "2d6", "1d6 + 1", "d20", "2d6 + 1d4 - 1".
+// Flat terms only count when they directly follow a die, so "+2 bonus" alone never matches.
+const DICE_IN_TEXT = /(?<![\w.])\d*d\d+(?!\w)(?:\s*[+-]\s*(?:\d*d\d+|\d+)(?![\w.]))*/gi;
+
+/**
+ * Parse "2d6+1", "1d8 + 2d6 - 1" or "d20". Returns null for anything that is
+ * not a dice expression or would roll an unreasonable number of dice.
+ */
+export const parseDiceExpression = (input: string): DiceExpression | null => {
+  const text = input.replace(/\s+/g, '').toLowerCase();
+  if (!EXPRESSION.test(text)) return null;
+
+  const groups: DiceGroup[] = [];
+  let modifier = 0;
+  for (const match of text.matchAll(TERM)) {
+    if (match[3] !== undefined) {
+      const count = match[2] === '' ? 1 : Number(match[2]);
+      const sides = Number(match[3]);
+      if (count < 1 || count > MAX_DICE || sides < 1 || sides > MAX_SIDES) return null;
+      groups.push({ count, sides, sign: match[1] === '-' ? -1 : 1 });
+    } else {
+      modifier += (match[4] === '-' ? -1 : 1) * Number(match[5]);
+    }
+  }
+  return { text, groups, modifier };
+};
+
+/**
+ * Find the dice expressions in a piece of card or mechanics text, in order,
+ * with their positions so callers can split the text around them.
+ */
+export const findDiceExpressions = (text: string): { start: number; end: number; expression: string }[] => {
+  const found: { start: number; end: number; expression: string }[] = [];
+  for (const match of text.matchAll(DICE_IN_TEXT)) {
+    if (parseDiceExpression(match[0])) {
+      found.push({ start: match.index!, end: match.index! + match[0].length, expression: match[0] });
+    }
+  }
+  return found;
+};
+
+const rollOnce = (expression: DiceExpression, critical: boolean, rng: Rng) => {
+  const dice = expression.groups.map((group) => {
+    const count = critical ? group.count * 2 : group.count;
+    const results = Array.from({ length: count }, () => Math.floor(rng() * group.sides) + 1);
+    return { sides: group.sides, sign: group.sign, results };
+  });
+  const total = dice.reduce(
+    (sum, group) => sum + group.sign * group.results.reduce((a, b) => a + b, 0),
+    expression.modifier
+  );
+  return { dice, total };
+};
+
+/**
+ * Roll an expression. Advantage and disadvantage roll the whole expression
+ * twice and keep the higher or lower total.
+ */
+export const rollDice = (
+  expression: DiceExpression,
+  { mode = 'normal', critical = false }: DiceRollOptions = {},
+  rng: Rng = Math.random
+): DiceRoll => {
+  const first = rollOnce(expression, critical, rng);
+  let kept = first;
+  let discarded: number | undefined;
+
+  if (mode !== 'normal') {
+    const second = rollOnce(expression, critical, rng);
+    const secondWins = mode === 'advantage' ? second.total > first.total : second.total < first.total;
+    kept = secondWins ? second : first;
+    discarded = secondWins ? first.total : second.total;
+  }
+
+  return {
+    expression: expression.text,
+    mode,
+    critical,
+    dice: kept.dice,
+    modifier: expression.modifier,
+    total: kept.total,
+    ...(discarded !== undefined && { discarded }),
+  };
+};
+
+// "[4, 2] + 1 = 7"
+export const describeRoll = (roll: DiceRoll): string => {
+  const parts = roll.dice.map((group, i) => {
+    const dice = `[${group.results.join(', ')}]`;
+    if (i === 0) return group.sign === -1 ? `- ${dice}` : dice;
+    return `${group.sign === -1 ? '-' : '+'} ${dice}`;
+  });
+  if (roll.modifier !== 0) {
+    parts.push(`${roll.modifier < 0 ? '-' : '+'} ${Math.abs(roll.modifier)}`);
+  }
+  return `${parts.join(' ')} = ${roll.total}`;
+};
@@ -0,0 +1,75 @@
+import type { GenerationProvider, ProviderConfig, ResponseSchema } from './aiProvider';
+import { hashString } from './hashUtils';
+
+const FIXTURE_WORDS = ['Ember', 'Gloom', 'Silver', 'Thorn', 'Rune', 'Tide', 'Ash', 'Star'];
+const FIXTURE_CHUNK_SIZE = 48;
+const FIXTURE_COLORS = ['#7a2020', '#1e3a8a', '#065f46', '#6b21a8', '#92400e', '#334155'];
+
+const humanize = (key: string) =>
+  key.replace(/_/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+
+/**
+ * Build a value that satisfies the schema, deterministically derived from the seed.
+ */
+export const synthesizeFromSchema = (schema: ResponseSchema, seed: number, key = 'value'): unknown => {
+  switch (schema.type) {
+    case 'object': {
+      const properties = schema.properties || {};
+      const order = schema.propertyOrdering || [];
+      // Emit keys in propertyOrdering first, as Gemini does when streaming
+      const keys = [...order.filter((k) => k in properties), ...Object.keys(properties).filter((k) => !order.includes(k))];
+      const entries = keys.map((childKey) => [
+        childKey,
+        synthesizeFromSchema(properties[childKey], hashString(`${seed}:${childKey}`), childKey),
+      ]);
+      return Object.fromEntries(entries);
+    }
+    case 'array':
+      return schema.items
+        ? Array.from({ length: Math.max(2, schema.minItems || 0) }, (_, i) =>
+          synthesizeFromSchema(schema.items!, hashString(`${seed}:${i}`), key))
+        : [];
+    case 'number':
+    case 'integer':
+      return (seed % 50) * 10;
+    case 'boolean':
+      return seed % 2 === 0;
+    default:
+      if (schema.enum && schema.enum.length > 0) {
+        return schema.enum[seed % schema.enum.length];
+      }
+      return `${FIXTURE_WORDS[seed % FIXTURE_WORDS.length]} ${humanize(key)} (fixture ${seed.toString(16).slice(0, 4)})`;
+  }
+};
+
+/**
+ * Offline provider for development and tests. Returns schema-conformant JSON
+ * and a flat SVG image without touching the network.
+ */
+export const createFixtureProvider = (config: ProviderConfig): GenerationProvider => ({
+  id: 'fixture',
+  textModel: config.textModel || 'fixture-text',
+  imageModel: config.imageModel || 'fixture-image',
+
+  generateText: async (request) => {
+    const seed = hashString(`${request.systemInstruction}\n${request.prompt}`);
+    return JSON.stringify(synthesizeFromSchema(request.responseSchema, seed));
+  },
+
+  // Replays the same JSON in small slices to exercise progressive rendering
+  streamText: async function* (request) {
+    const seed = hashString(`${request.systemInstruction}\n${request.prompt}`);
+    const text = JSON.stringify(synthesizeFromSchema(request.responseSchema, seed));
+    for (let i = 0; i < text.length; i += FIXTURE_CHUNK_SIZE) {
+      yield text.slice(i, i + FIXTURE_CHUNK_SIZE);
+    }
+  },
+
+  generateImage: async (request) => {
+    const seed = hashString(request.prompt);
+    const [w, h] = request.aspectRatio.split(':').map((n) => parseInt(n, 10) * 256);
+    const color = FIXTURE_COLORS[seed % FIXTURE_COLORS.length];
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${w || 256}" height="${h || 256}"><rect width="100%" height="100%" fill="${color}"/><circle cx="50%" cy="50%" r="25%" fill="#e3dacb" opacity="0.6"/></svg>`;
+    return `data:image/svg+xml;base64,${btoa(svg)}`;
+  },
+});
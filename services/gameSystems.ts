@@ -0,0 +1,287 @@
+import { GameSystemId, ItemData, PartialItemData, Rarity } from '../types';
+import {
+  RARITIES,
+  SIMPLE_MELEE_WEAPONS,
+  SIMPLE_RANGED_WEAPONS,
+  MARTIAL_MELEE_WEAPONS,
+  MARTIAL_RANGED_WEAPONS,
+  OTHER_ITEM_TYPES,
+} from '../constants';
+import type { ResponseSchema } from './aiProvider';
+
+export interface ItemTypeGroup {
+  label: string;
+  types: string[];
+}
+
+export interface PriceBand {
+  min: number;
+  max: number;
+  suggested: number;
+}
+
+export interface GameSystemPricing {
+  // Price band for the item before power band, curse and charge adjustments
+  basePrice: (itemData: ItemData) => PriceBand;
+  baseLabel: (itemData: ItemData) => string; // What the base price is for, e.g. "Rare" or "Item 5"
+  consumableMultiplier: number;
+  attunementMultiplier: number;
+  guide: string; // Named in the prompt as the source the model should estimate from
+}
+
+export interface GameSystemCard {
+  // Line under the item's name, e.g. "Rare Wondrous Item" or "Worn Item · Item 5"
+  subtitle: (itemData: PartialItemData) => string;
+  // Short tags shown beneath the subtitle, e.g. attunement or PF2e traits
+  tags: (itemData: PartialItemData) => string[];
+  promptNotes: string; // What the itemCard must show beyond the shared fields
+}
+
+export interface GameSystem {
+  id: GameSystemId;
+  label: string;
+  shortLabel: string;
+  promptName: string; // How the system is named to the generator
+  itemTypeGroups: ItemTypeGroup[];
+  defaultType: string; // Selected when switching to this system from one without the current type
+  rarities: Rarity[];
+  usesAttunement: boolean;
+  balanceChecks: boolean; // Whether the 5e-calibrated balance analyzer applies
+  rules: string; // System-specific generation rules added to the prompt
+  // Extra itemData fields the generator must fill in, keyed by field name
+  itemFields: Record<string, ResponseSchema>;
+  pricing: GameSystemPricing;
+  card: GameSystemCard;
+}
+
+const band = (min: number, max: number, suggested: number): PriceBand => ({ min, max, suggested });
+
+const priceByRarity = (table: Partial<Record<Rarity, PriceBand>>) => (itemData: ItemData): PriceBand =>
+  table[itemData.rarity as Rarity] || table['Rare']!;
+
+const rarityLabel = (itemData: ItemData) => itemData.rarity;
+
+const rarityAndType = (itemData: PartialItemData) =>
+  [itemData.rarity, itemData.type].filter(Boolean).join(' ');
+
+const attunementTag = (itemData: PartialItemData) =>
+  itemData.mechanics?.attunement ? ['Requires Attunement'] : [];
+
+const DND_5E_ITEM_TYPES: ItemTypeGroup[] = [
+  { label: 'Weapons – Simple Melee', types: SIMPLE_MELEE_WEAPONS },
+  { label: 'Weapons – Simple Ranged', types: SIMPLE_RANGED_WEAPONS },
+  { label: 'Weapons – Martial Melee', types: MARTIAL_MELEE_WEAPONS },
+  { label: 'Weapons – Martial Ranged', types: MARTIAL_RANGED_WEAPONS },
+  { label: 'Other Magic Items', types: OTHER_ITEM_TYPES },
+];
+
+// The 2024 Player's Handbook adds firearms to the martial ranged weapons
+const DND_5E_2024_ITEM_TYPES: ItemTypeGroup[] = DND_5E_ITEM_TYPES.map((group) =>
+  group.types === MARTIAL_RANGED_WEAPONS
+    ? { ...group, types: [...group.types, 'Weapon (Musket)', 'Weapon (Pistol)'] }
+    : group
+);
+
+const PF2E_ITEM_TYPES: ItemTypeGroup[] = [
+  {
+    label: 'Weapons',
+    types: [
+      'Weapon (Dagger)', 'Weapon (Rapier)', 'Weapon (Shortsword)', 'Weapon (Longsword)', 'Weapon (Bastard Sword)',
+      'Weapon (Greatsword)', 'Weapon (Falchion)', 'Weapon (Battle Axe)', 'Weapon (Greataxe)', 'Weapon (Warhammer)',
+      'Weapon (Spear)', 'Weapon (Staff)', 'Weapon (Shortbow)', 'Weapon (Longbow)', 'Weapon (Crossbow)',
+    ],
+  },
+  { label: 'Armor & Shields', types: ['Armor (Light)', 'Armor (Medium)', 'Armor (Heavy)', 'Shield'] },
+  { label: 'Runes', types: ['Fundamental Rune', 'Property Rune'] },
+  { label: 'Consumables', types: ['Potion', 'Elixir', 'Oil', 'Scroll', 'Talisman', 'Ammunition'] },
+  { label: 'Other Magic Items', types: ['Worn Item', 'Held Item', 'Staff', 'Wand', 'Companion Item'] },
+];
+
+const OSR_ITEM_TYPES: ItemTypeGroup[] = [
+  {
+    label: 'Weapons',
+    types: ['Weapon (Sword)', 'Weapon (Dagger)', 'Weapon (Axe)', 'Weapon (Mace)', 'Weapon (Spear)', 'Weapon (Bow)', 'Weapon (Sling)'],
+  },
+  { label: 'Armor', types: ['Armor', 'Shield'] },
+  { label: 'Other Magic Items', types: ['Potion', 'Scroll', 'Ring', 'Wand', 'Staff', 'Rod', 'Miscellaneous Magic'] },
+];
+
+// Price of a permanent item by item level (index), after the PF2e treasure tables
+const PF2E_PERMANENT_PRICES = [
+  10, 20, 35, 60, 100, 160, 250, 360, 500, 700, 1000,
+  1400, 2000, 3000, 4500, 6500, 10000, 15000, 24000, 40000, 70000,
+];
+
+const PF2E_MAX_LEVEL = PF2E_PERMANENT_PRICES.length - 1;
+
+const pf2eLevel = (itemData: PartialItemData) =>
+  Math.min(Math.max(Math.round(Number(itemData.level) || 1), 0), PF2E_MAX_LEVEL);
+
+const pf2ePrice = (itemData: ItemData): PriceBand => {
+  const level = pf2eLevel(itemData);
+  return band(
+    PF2E_PERMANENT_PRICES[Math.max(level - 1, 0)],
+    PF2E_PERMANENT_PRICES[Math.min(level + 1, PF2E_MAX_LEVEL)],
+    PF2E_PERMANENT_PRICES[level]
+  );
+};
+
+export const GAME_SYSTEMS: Record<GameSystemId, GameSystem> = {
+  'dnd5e-2014': {
+    id: 'dnd5e-2014',
+    label: 'D&D 5e (2014)',
+    shortLabel: '5e 2014',
+    promptName: "Dungeons & Dragons 5th Edition (2014 Player's Handbook and Dungeon Master's Guide)",
+    itemTypeGroups: DND_5E_ITEM_TYPES,
+    defaultType: 'Wondrous Item',
+    rarities: RARITIES,
+    usesAttunement: true,
+    balanceChecks: true,
+    rules: 'All mechanics must be original and rules-compatible (5e style) but not verbatim from published sources.',
+    itemFields: {},
+    pricing: {
+      basePrice: priceByRarity({
+        'Common': band(50, 100, 75),
+        'Uncommon': band(100, 500, 300),
+        'Rare': band(500, 5000, 2500),
+        'Very Rare': band(5000, 50000, 25000),
+        'Legendary': band(50000, 200000, 100000),
+        'Artifact': band(200000, 1000000, 500000),
+      }),
+      baseLabel: rarityLabel,
+      consumableMultiplier: 0.5,
+      attunementMultiplier: 0.9,
+      guide: "Xanathar's Guide to Everything",
+    },
+    card: {
+      subtitle: rarityAndType,
+      tags: attunementTag,
+      promptNotes: 'State whether the item requires attunement.',
+    },
+  },
+  'dnd5e-2024': {
+    id: 'dnd5e-2024',
+    label: 'D&D 5e (2024)',
+    shortLabel: '5e 2024',
+    promptName: "Dungeons & Dragons 5th Edition (2024 Player's Handbook and Dungeon Master's Guide)",
+    itemTypeGroups: DND_5E_2024_ITEM_TYPES,
+    defaultType: 'Wondrous Item',
+    rarities: RARITIES,
+    usesAttunement: true,
+    balanceChecks: true,
+    rules: `All mechanics must be original and compatible with the 2024 rules but not verbatim from published sources.
+    - Use 2024 terminology: weapon mastery properties, the Magic action, Bonus Actions, and the revised conditions (e.g. Exhaustion levels subtract from d20 Tests).
+    - Prefer effects that scale with proficiency bonus or recharge at dawn, as 2024 items do.`,
+    itemFields: {},
+    pricing: {
+      // The 2024 DMG lists a single price per rarity
+      basePrice: priceByRarity({
+        'Common': band(50, 150, 100),
+        'Uncommon': band(200, 600, 400),
+        'Rare': band(2000, 6000, 4000),
+        'Very Rare': band(20000, 60000, 40000),
+        'Legendary': band(100000, 300000, 200000),
+        'Artifact': band(500000, 2000000, 1000000),
+      }),
+      baseLabel: rarityLabel,
+      consumableMultiplier: 0.5,
+      attunementMultiplier: 0.9,
+      guide: "the 2024 Dungeon Master's Guide",
+    },
+    card: {
+      subtitle: rarityAndType,
+      tags: attunementTag,
+      promptNotes: 'State whether the item requires attunement. Name any weapon mastery property the item grants or changes.',
+    },
+  },
+  'pf2e': {
+    id: 'pf2e',
+    label: 'Pathfinder 2e',
+    shortLabel: 'PF2e',
+    promptName: 'Pathfinder Second Edition (Remastered)',
+    itemTypeGroups: PF2E_ITEM_TYPES,
+    defaultType: 'Worn Item',
+    rarities: ['Common', 'Uncommon', 'Rare', 'Unique'],
+    usesAttunement: false,
+    balanceChecks: false,
+    rules: `All mechanics must be original and compatible with Pathfinder Second Edition but not verbatim from published sources.
+    - Pick an item level from 1 to 20. The rarity describes how widely known the item is, not its power: power comes from the item level and the Power Band.
+    - Use PF2e conventions: actions written as [one-action], [two-actions], [three-actions], [reaction] or [free-action]; Frequency and Trigger lines; DCs and damage appropriate to the item level; fundamental and property runes for weapons and armor.
+    - There is no attunement in Pathfinder: always set mechanics.attunement to false. Worn items that must be invested get the Invested trait.`,
+    itemFields: {
+      level: { type: 'integer', description: 'Item level from 1 to 20' },
+      traits: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'PF2e traits in title case, e.g. "Invested", "Magical", "Fire", "Consumable"',
+      },
+    },
+    pricing: {
+      basePrice: pf2ePrice,
+      baseLabel: (itemData) => `Item ${pf2eLevel(itemData)}`,
+      consumableMultiplier: 0.2, // Consumables cost roughly a fifth of a permanent item of the same level
+      attunementMultiplier: 1,
+      guide: 'the Pathfinder Second Edition item prices by level',
+    },
+    card: {
+      subtitle: (itemData) =>
+        [itemData.type, itemData.level !== undefined ? `Item ${itemData.level}` : ''].filter(Boolean).join(' · '),
+      tags: (itemData) => [
+        ...(itemData.rarity && itemData.rarity !== 'Common' ? [itemData.rarity] : []),
+        ...(itemData.traits || []),
+      ],
+      promptNotes: 'Open with the item level and traits, then a Usage and Bulk line, then the activations.',
+    },
+  },
+  'osr': {
+    id: 'osr',
+    label: 'OSR (B/X-style)',
+    shortLabel: 'OSR',
+    promptName: 'an old-school (OSR) game in the style of B/X Dungeons & Dragons',
+    itemTypeGroups: OSR_ITEM_TYPES,
+    defaultType: 'Miscellaneous Magic',
+    rarities: RARITIES,
+    usesAttunement: false,
+    balanceChecks: false,
+    rules: `Mechanics must work with B/X-style rules and their retro-clones, and must not be verbatim from published sources.
+    - Write effects that work with either descending or ascending AC: "+1 to hit and damage", "save versus spells", "1 in 6 chance", charges, and turns rather than minutes.
+    - Prefer strange, double-edged effects and clear limits (charges, usage per day) over long lists of bonuses. There is no attunement: always set mechanics.attunement to false.`,
+    itemFields: {},
+    pricing: {
+      basePrice: priceByRarity({
+        'Common': band(50, 250, 100),
+        'Uncommon': band(250, 2500, 1000),
+        'Rare': band(2500, 10000, 5000),
+        'Very Rare': band(10000, 30000, 15000),
+        'Legendary': band(30000, 100000, 50000),
+        'Artifact': band(100000, 500000, 250000),
+      }),
+      baseLabel: rarityLabel,
+      consumableMultiplier: 0.5,
+      attunementMultiplier: 1,
+      guide: 'classic B/X treasure values',
+    },
+    card: {
+      subtitle: rarityAndType,
+      tags: () => [],
+      promptNotes: 'Keep the card terse, as in an old-school module: effects first, then usage limits.',
+    },
+  },
+};
+
+export const GAME_SYSTEM_IDS = Object.keys(GAME_SYSTEMS) as GameSystemId[];
+
+export const DEFAULT_GAME_SYSTEM: GameSystemId = 'dnd5e-2014';
+
+export const isGameSystemId = (value: unknown): value is GameSystemId =>
+  typeof value === 'string' && value in GAME_SYSTEMS;
+
+/**
+ * Look up a game system. Items saved before systems existed have no id and
+ * were made for D&D 5e (2014).
+ */
+export const getGameSystem = (id?: string): GameSystem =>
+  isGameSystemId(id) ? GAME_SYSTEMS[id] : GAME_SYSTEMS[DEFAULT_GAME_SYSTEM];
+
+export const getItemTypes = (system: GameSystem): string[] =>
+  system.itemTypeGroups.flatMap((group) => group.types);
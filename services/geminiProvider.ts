@@ -0,0 +1,175 @@
+import { GoogleGenAI, Type, HarmCategory, HarmBlockThreshold, Schema, GenerateContentResponse, SafetyRating } from "@google/genai";
+import { GenerationError } from './generationErrors';
+import type {
+  GenerationProvider,
+  ProviderConfig,
+  ResponseSchema,
+  SafetyPolicy,
+  SafetyThreshold,
+  TextGenerationRequest,
+} from './aiProvider';
+
+export const DEFAULT_GEMINI_TEXT_MODEL = 'gemini-2.5-flash';
+export const DEFAULT_GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image';
+
+const SCHEMA_TYPES: Record<ResponseSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+};
+
+const THRESHOLDS: Record<SafetyThreshold, HarmBlockThreshold> = {
+  block_low_and_above: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE,
+  block_medium_and_above: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+  block_only_high: HarmBlockThreshold.BLOCK_ONLY_HIGH,
+  block_none: HarmBlockThreshold.BLOCK_NONE,
+};
+
+/**
+ * Translate a provider-neutral schema into Gemini's OpenAPI-flavoured Schema.
+ */
+export const toGeminiSchema = (schema: ResponseSchema): Schema => {
+  const result: Schema = { type: SCHEMA_TYPES[schema.type] };
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.required) result.required = schema.required;
+  if (schema.propertyOrdering) result.propertyOrdering = schema.propertyOrdering;
+  if (schema.items) result.items = toGeminiSchema(schema.items);
+  if (schema.minItems !== undefined) result.minItems = String(schema.minItems);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    );
+  }
+  return result;
+};
+
+export const toGeminiSafetySettings = (policy: SafetyPolicy) => [
+  { category: HarmCategory.HARM_CATEGORY_HARASSMENT,        threshold: THRESHOLDS[policy.harassment] },
+  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,       threshold: THRESHOLDS[policy.hateSpeech] },
+  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: THRESHOLDS[policy.sexuallyExplicit] },
+  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: THRESHOLDS[policy.dangerousContent] },
+];
+
+const CATEGORY_LABELS: Partial<Record<HarmCategory, string>> = {
+  [HarmCategory.HARM_CATEGORY_HARASSMENT]: 'harassment',
+  [HarmCategory.HARM_CATEGORY_HATE_SPEECH]: 'hate speech',
+  [HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT]: 'sexually explicit',
+  [HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT]: 'dangerous content',
+};
+
+const SAFETY_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+const blockedCategory = (ratings?: SafetyRating[]) => {
+  const category = ratings?.find((rating) => rating.blocked)?.category;
+  return category ? CATEGORY_LABELS[category] : undefined;
+};
+
+/**
+ * Gemini reports safety blocks in the response rather than as thrown errors:
+ * either on the prompt (promptFeedback) or on the candidate (finishReason).
+ */
+const findSafetyBlock = (response: GenerateContentResponse): GenerationError | null => {
+  const feedback = response.promptFeedback;
+  if (feedback?.blockReason) {
+    return new GenerationError('safety', feedback.blockReasonMessage || `Prompt blocked (${feedback.blockReason}).`, {
+      category: blockedCategory(feedback.safetyRatings),
+    });
+  }
+
+  const candidate = response.candidates?.[0];
+  if (candidate?.finishReason && SAFETY_FINISH_REASONS.includes(candidate.finishReason)) {
+    return new GenerationError('safety', `Response blocked (${candidate.finishReason}).`, {
+      category: blockedCategory(candidate.safetyRatings),
+    });
+  }
+  return null;
+};
+
+const buildTextParams = (model: string, request: TextGenerationRequest, signal?: AbortSignal) => ({
+  model,
+  contents: request.prompt,
+  config: {
+    abortSignal: signal,
+    systemInstruction: request.systemInstruction,
+    responseMimeType: "application/json",
+    responseSchema: toGeminiSchema(request.responseSchema),
+    temperature: request.temperature,
+    safetySettings: toGeminiSafetySettings(request.safety),
+  },
+});
+
+/**
+ * Google Gemini via @google/genai.
+ */
+export const createGeminiProvider = (config: ProviderConfig): GenerationProvider => {
+  const textModel = config.textModel || DEFAULT_GEMINI_TEXT_MODEL;
+  const imageModel = config.imageModel || DEFAULT_GEMINI_IMAGE_MODEL;
+
+  return {
+    id: 'gemini',
+    textModel,
+    imageModel,
+
+    generateText: async (request) => {
+      const ai = new GoogleGenAI({ apiKey: config.apiKey });
+      const response = await ai.models.generateContent(buildTextParams(textModel, request));
+
+      const blocked = findSafetyBlock(response);
+      if (blocked) throw blocked;
+
+      const text = response.text;
+      if (!text) {
+        throw new GenerationError('malformed', "No content generated from Gemini.");
+      }
+      return text;
+    },
+
+    streamText: async function* (request, signal) {
+      const ai = new GoogleGenAI({ apiKey: config.apiKey });
+      const stream = await ai.models.generateContentStream(buildTextParams(textModel, request, signal));
+      for await (const chunk of stream) {
+        const blocked = findSafetyBlock(chunk);
+        if (blocked) throw blocked;
+        if (chunk.text) {
+          yield chunk.text;
+        }
+      }
+    },
+
+    generateImage: async (request) => {
+      const ai = new GoogleGenAI({ apiKey: config.apiKey });
+      // Using generateContent because this is a multimodal model, not an Imagen model
+      const response = await ai.models.generateContent({
+        model: imageModel,
+        contents: {
+          parts: [{ text: request.prompt }],
+        },
+        config: {
+          imageConfig: {
+            aspectRatio: request.aspectRatio,
+          },
+          safetySettings: toGeminiSafetySettings(request.safety),
+        },
+      });
+
+      const blocked = findSafetyBlock(response);
+      if (blocked) throw blocked;
+
+      const parts = response.candidates?.[0]?.content?.parts;
+      if (parts) {
+        for (const part of parts) {
+          if (part.inlineData && part.inlineData.data) {
+            const mimeType = part.inlineData.mimeType || 'image/png';
+            return `data:${mimeType};base64,${part.inlineData.data}`;
+          }
+        }
+      }
+
+      throw new GenerationError('malformed', "No image data found in response");
+    },
+  };
+};
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  GenerationError,
+  classifyError,
+  getErrorMessage,
+  kindForStatus,
+  withRetry,
+  withStreamTimeout,
+  withTimeout,
+} from './generationErrors';
+
+describe('classifyError', () => {
+  it('passes classified errors through unchanged', () => {
+    const error = new GenerationError('safety', 'blocked', { category: 'dangerous content' });
+    expect(classifyError(error)).toBe(error);
+  });
+
+  it('recognises quota errors by status and message', () => {
+    expect(classifyError(Object.assign(new Error('Too busy'), { status: 429 })).kind).toBe('quota');
+    expect(classifyError(new Error('RESOURCE_EXHAUSTED: quota exceeded')).kind).toBe('quota');
+  });
+
+  it('recognises timeouts, network failures and malformed JSON', () => {
+    expect(classifyError(Object.assign(new Error('aborted'), { name: 'AbortError' })).kind).toBe('timeout');
+    expect(classifyError(new TypeError('Failed to fetch')).kind).toBe('network');
+    expect(classifyError(new SyntaxError('Unexpected token < in JSON')).kind).toBe('malformed');
+  });
+
+  it('treats server errors as transient and other failures as unknown', () => {
+    expect(classifyError(new Error('Provider request failed (503): unavailable')).kind).toBe('network');
+    expect(classifyError(new Error('Provider request failed (400): bad request')).kind).toBe('unknown');
+    expect(classifyError('something odd').kind).toBe('unknown');
+  });
+});
+
+describe('kindForStatus', () => {
+  it('maps HTTP statuses to kinds', () => {
+    expect(kindForStatus(429)).toBe('quota');
+    expect(kindForStatus(504)).toBe('timeout');
+    expect(kindForStatus(500)).toBe('network');
+    expect(kindForStatus(401)).toBe('unknown');
+  });
+});
+
+describe('GenerationError', () => {
+  it('marks only transient kinds as retryable', () => {
+    expect(new GenerationError('quota', '').retryable).toBe(true);
+    expect(new GenerationError('network', '').retryable).toBe(true);
+    expect(new GenerationError('timeout', '').retryable).toBe(true);
+    expect(new GenerationError('safety', '').retryable).toBe(false);
+    expect(new GenerationError('malformed', '').retryable).toBe(false);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries retryable failures with exponential backoff', async () => {
+    const sleep = vi.fn().mockResolvedValue(undefined);
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new GenerationError('network', 'down'))
+      .mockRejectedValueOnce(new GenerationError('quota', 'slow down'))
+      .mockResolvedValue('ok');
+
+    await expect(withRetry(operation, { maxAttempts: 3, baseDelayMs: 100, sleep })).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(sleep.mock.calls).toEqual([[100], [200]]);
+  });
+
+  it('honours a longer Retry-After from the provider', async () => {
+    const sleep = vi.fn().mockResolvedValue(undefined);
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new GenerationError('quota', 'slow down', { retryAfterMs: 5000 }))
+      .mockResolvedValue('ok');
+
+    await withRetry(operation, { baseDelayMs: 100, sleep });
+    expect(sleep).toHaveBeenCalledWith(5000);
+  });
+
+  it('throws non-retryable failures immediately', async () => {
+    const sleep = vi.fn().mockResolvedValue(undefined);
+    const operation = vi.fn().mockRejectedValue(new GenerationError('safety', 'blocked'));
+
+    await expect(withRetry(operation, { sleep })).rejects.toMatchObject({ kind: 'safety' });
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it('gives up after maxAttempts with a classified error', async () => {
+    const sleep = vi.fn().mockResolvedValue(undefined);
+    const operation = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+
+    await expect(withRetry(operation, { maxAttempts: 2, sleep })).rejects.toBeInstanceOf(GenerationError);
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('withTimeout', () => {
+  it('rejects with a timeout error when the promise is too slow', async () => {
+    vi.useFakeTimers();
+    const pending = withTimeout(new Promise(() => {}), 1000);
+    vi.advanceTimersByTime(1000);
+    await expect(pending).rejects.toMatchObject({ kind: 'timeout' });
+    vi.useRealTimers();
+  });
+
+  it('resolves with the value when the promise settles in time', async () => {
+    await expect(withTimeout(Promise.resolve('done'), 1000)).resolves.toBe('done');
+  });
+});
+
+describe('withStreamTimeout', () => {
+  it('passes chunks through from a stream that finishes in time', async () => {
+    async function* stream() {
+      yield 'a';
+      yield 'b';
+    }
+    const chunks: string[] = [];
+    for await (const chunk of withStreamTimeout(() => stream(), 1000)) chunks.push(chunk);
+    expect(chunks).toEqual(['a', 'b']);
+  });
+
+  it('fails with a timeout error and aborts the request when the stream stalls', async () => {
+    vi.useFakeTimers();
+    let requestSignal: AbortSignal | undefined;
+    async function* stalled() {
+      yield 'a';
+      await new Promise(() => {});
+    }
+    const chunks: string[] = [];
+    const consume = (async () => {
+      for await (const chunk of withStreamTimeout((signal) => {
+        requestSignal = signal;
+        return stalled();
+      }, 1000)) chunks.push(chunk);
+    })();
+    const outcome = expect(consume).rejects.toMatchObject({ kind: 'timeout' });
+    await vi.advanceTimersByTimeAsync(1000);
+    await outcome;
+    expect(chunks).toEqual(['a']);
+    expect(requestSignal?.aborted).toBe(true);
+    vi.useRealTimers();
+  });
+});
+
+describe('getErrorMessage', () => {
+  it('gives each kind a distinct message', () => {
+    const kinds = ['safety', 'quota', 'timeout', 'malformed', 'network'] as const;
+    const messages = kinds.map((kind) => getErrorMessage(new GenerationError(kind, 'raw')));
+    expect(new Set(messages).size).toBe(kinds.length);
+  });
+
+  it('names the safety category when known', () => {
+    expect(getErrorMessage(new GenerationError('safety', 'blocked', { category: 'hate speech' }))).toContain('hate speech');
+  });
+
+  it('shows the original message for unclassified errors', () => {
+    expect(getErrorMessage(new Error('Describe what should change before reforging.'))).toBe(
+      'Describe what should change before reforging.'
+    );
+  });
+});
@@ -0,0 +1,184 @@
+export type GenerationErrorKind = 'safety' | 'quota' | 'timeout' | 'malformed' | 'network' | 'unknown';
+
+// Kinds worth trying again after a pause; the rest fail the same way every time
+const RETRYABLE_KINDS: GenerationErrorKind[] = ['quota', 'timeout', 'network'];
+
+interface GenerationErrorOptions {
+  category?: string; // Safety category that blocked the request, e.g. "dangerous content"
+  status?: number; // HTTP status, when the provider returned one
+  retryAfterMs?: number; // Provider-requested wait before retrying
+  cause?: unknown;
+}
+
+/**
+ * A classified failure from a generation provider. `kind` drives both the
+ * retry policy and the message shown to the user.
+ */
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  readonly category?: string;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(kind: GenerationErrorKind, message: string, options: GenerationErrorOptions = {}) {
+    super(message);
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.category = options.category;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    if (options.cause !== undefined) {
+      (this as any).cause = options.cause;
+    }
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+/**
+ * Map an HTTP status to an error kind. Server errors are treated like
+ * network failures: transient, and worth another attempt.
+ */
+export const kindForStatus = (status: number): GenerationErrorKind => {
+  if (status === 429) return 'quota';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status >= 500) return 'network';
+  return 'unknown';
+};
+
+/**
+ * Turn anything thrown by a provider or the SDKs into a GenerationError.
+ * Errors that are already classified pass through unchanged.
+ */
+export const classifyError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+
+  const message = error instanceof Error ? error.message : String(error ?? '');
+  const name = error instanceof Error ? error.name : '';
+  const statusFromError = typeof (error as any)?.status === 'number' ? (error as any).status : undefined;
+  const statusFromMessage = message.match(/\b([45]\d\d)\b/);
+  const status = statusFromError ?? (statusFromMessage ? Number(statusFromMessage[1]) : undefined);
+  const options = { status, cause: error };
+
+  if (/quota|rate.?limit|resource.?exhausted|too many requests/i.test(message) || status === 429) {
+    return new GenerationError('quota', message, options);
+  }
+  if (name === 'AbortError' || name === 'TimeoutError' || /timed? ?out|deadline/i.test(message)) {
+    return new GenerationError('timeout', message, options);
+  }
+  if (/safety|blocked|prohibited|content.?filter/i.test(message)) {
+    return new GenerationError('safety', message, options);
+  }
+  if (name === 'SyntaxError') {
+    return new GenerationError('malformed', message, options);
+  }
+  if (/failed to fetch|network|fetch failed|econn|enotfound|load failed/i.test(message)) {
+    return new GenerationError('network', message, options);
+  }
+  if (status !== undefined) {
+    return new GenerationError(kindForStatus(status), message, options);
+  }
+  return new GenerationError('unknown', message, options);
+};
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>; // Injectable for tests
+}
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run an operation, retrying retryable failures with exponential backoff
+ * (1s, 2s, 4s... capped at maxDelayMs, or the provider's Retry-After when
+ * longer). Non-retryable failures are thrown immediately, classified.
+ */
+export const withRetry = async <T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { maxAttempts = 3, baseDelayMs = 1000, maxDelayMs = 8000, sleep = defaultSleep } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      const classified = classifyError(error);
+      if (!classified.retryable || attempt >= maxAttempts) {
+        throw classified;
+      }
+      const backoff = Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs);
+      const delay = Math.max(backoff, classified.retryAfterMs ?? 0);
+      console.warn(`Generation failed (${classified.kind}), retrying in ${delay}ms (${attempt}/${maxAttempts - 1})`);
+      await sleep(delay);
+    }
+  }
+};
+
+/**
+ * Reject with a timeout GenerationError if the promise takes longer than ms.
+ */
+export const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new GenerationError('timeout', `No response after ${Math.round(ms / 1000)}s.`)),
+      ms
+    );
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+
+/**
+ * Open a stream and pass its chunks through, failing with a timeout error if
+ * the whole stream has not finished within `ms`. The stream is opened with an
+ * AbortSignal that is aborted when it ends early, so a stalled provider
+ * request is cancelled rather than left running.
+ */
+export async function* withStreamTimeout<T>(open: (signal: AbortSignal) => AsyncIterable<T>, ms: number): AsyncGenerator<T> {
+  const deadline = Date.now() + ms;
+  const controller = new AbortController();
+  const chunks = open(controller.signal)[Symbol.asyncIterator]();
+  try {
+    for (;;) {
+      const next = await withTimeout(chunks.next(), Math.max(0, deadline - Date.now()));
+      if (next.done) return;
+      yield next.value;
+    }
+  } finally {
+    // Cancels the provider's request; a stream that already finished ignores both
+    controller.abort();
+    chunks.return?.().catch(() => {});
+  }
+}
+
+/**
+ * The message shown to the user for a failed generation.
+ */
+export const getErrorMessage = (error: unknown): string => {
+  const classified = classifyError(error);
+  switch (classified.kind) {
+    case 'safety':
+      return classified.category
+        ? `The forge refused this request because it tripped the ${classified.category} safety filter. Try rewording the lore seed or choosing another theme.`
+        : 'The forge refused this request on safety grounds. Try rewording the lore seed or choosing another theme.';
+    case 'quota':
+      return 'The forge has run out of fuel for now: the provider\'s quota or rate limit was reached. Wait a minute and try again, or check your API plan.';
+    case 'timeout':
+      return 'The generator took too long to answer. Please try again in a moment.';
+    case 'malformed':
+      return 'The forge produced a malformed item even after repairs. Please strike the anvil again.';
+    case 'network':
+      return 'The forge could not reach the generator. Check your connection (or the provider URL) and try again.';
+    default:
+      return classified.message || 'The arcane rituals failed unexpectedly.';
+  }
+};
@@ -0,0 +1,11 @@
+/**
+ * FNV-1a hash; stable across runs so the same input always yields the same value.
+ */
+export const hashString = (input: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
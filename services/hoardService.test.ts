@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('./geminiService', () => ({
+  generateMagicItemText: vi.fn(),
+  generateMagicItemImage: vi.fn(),
+}));
+
+vi.mock('./rateLimit', () => ({
+  waitForRateLimit: vi.fn(),
+}));
+
+import { planHoard, getHoardValue, forgeHoard } from './hoardService';
+import { generateMagicItemText, generateMagicItemImage } from './geminiService';
+import { waitForRateLimit } from './rateLimit';
+import { DEFAULT_HOARD_SETTINGS } from '../constants';
+import { HoardSettings } from '../types';
+
+// Small deterministic PRNG (mulberry32) so rolls are reproducible
+const seeded = (seed: number) => () => {
+  seed |= 0;
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const settings = (overrides?: Partial<HoardSettings>): HoardSettings => ({ ...DEFAULT_HOARD_SETTINGS, ...overrides });
+
+describe('planHoard', () => {
+  it('is reproducible for the same random source', () => {
+    expect(planHoard(settings(), seeded(42))).toEqual(planHoard(settings(), seeded(42)));
+  });
+
+  it('only rolls rarities allowed for the CR band', () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const plan = planHoard(settings({ crBand: '0-4' }), seeded(seed));
+      plan.items.forEach((item) => {
+        expect(['Common', 'Uncommon', 'Rare']).toContain(item.rarity);
+      });
+    }
+  });
+
+  it('never rolls Common items for the 17+ band', () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const plan = planHoard(settings({ crBand: '17+' }), seeded(seed));
+      plan.items.forEach((item) => expect(item.rarity).not.toBe('Common'));
+    }
+  });
+
+  it('passes theme, style and power band through to every item', () => {
+    const plan = planHoard(settings({ theme: 'Draconic', style: 'Watercolor', powerBand: 'Mythic' }), seeded(7));
+    expect(plan.items.length).toBeGreaterThan(0);
+    plan.items.forEach((item) => {
+      expect(item.theme).toBe('Draconic');
+      expect(item.style).toBe('Watercolor');
+      expect(item.powerBand).toBe('Mythic');
+    });
+  });
+
+  it('scales coins with party size', () => {
+    const four = planHoard(settings({ partySize: 4 }), seeded(3));
+    const eight = planHoard(settings({ partySize: 8 }), seeded(3));
+    expect(eight.coins.gp).toBe(four.coins.gp * 2);
+  });
+
+  it('groups duplicate valuables into quantities', () => {
+    const plan = planHoard(settings({ crBand: '0-4', partySize: 10 }), seeded(11));
+    const names = plan.valuables.map((v) => `${v.name}-${v.value_gp}`);
+    expect(new Set(names).size).toBe(names.length);
+  });
+});
+
+describe('getHoardValue', () => {
+  it('converts every coin type to gold', () => {
+    expect(getHoardValue({
+      coins: { cp: 100, sp: 10, ep: 2, gp: 5, pp: 1 },
+      valuables: [],
+    })).toBe(18);
+  });
+
+  it('includes gems and art objects by quantity', () => {
+    expect(getHoardValue({
+      coins: { cp: 0, sp: 0, ep: 0, gp: 0, pp: 0 },
+      valuables: [{ kind: 'gem', name: 'Onyx', value_gp: 50, quantity: 3 }],
+    })).toBe(150);
+  });
+});
+
+describe('forgeHoard', () => {
+  beforeEach(() => {
+    vi.mocked(generateMagicItemText).mockReset();
+    vi.mocked(generateMagicItemImage).mockReset();
+    vi.mocked(waitForRateLimit).mockReset().mockResolvedValue();
+  });
+
+  it('keeps items whose image generation fails', async () => {
+    vi.mocked(generateMagicItemText).mockImplementation(async (s) => ({
+      itemData: { name: 'Test', rarity: s.rarity, type: s.type } as any,
+      imagePrompt: 'prompt',
+      itemCard: 'card',
+    }));
+    vi.mocked(generateMagicItemImage).mockRejectedValue(new Error('quota'));
+
+    const hoard = await forgeHoard(settings());
+    expect(hoard.items.length).toBeGreaterThan(0);
+    expect(hoard.items.every((item) => item.imageUrl === undefined)).toBe(true);
+  });
+
+  it('takes a rate-limit token for every item, passing waits on', async () => {
+    vi.mocked(generateMagicItemText).mockImplementation(async (s) => ({
+      itemData: { name: 'Test', rarity: s.rarity, type: s.type } as any,
+      imagePrompt: 'prompt',
+      itemCard: 'card',
+    }));
+    vi.mocked(generateMagicItemImage).mockResolvedValue('data:image/png;base64,x');
+    const onWait = vi.fn();
+
+    const hoard = await forgeHoard(settings(), undefined, onWait);
+    expect(waitForRateLimit).toHaveBeenCalledTimes(hoard.items.length);
+    expect(vi.mocked(waitForRateLimit).mock.calls.every(([callback]) => callback === onWait)).toBe(true);
+  });
+
+  it('throws when no item could be forged', async () => {
+    vi.mocked(generateMagicItemText).mockRejectedValue(new Error('down'));
+    await expect(forgeHoard(settings())).rejects.toThrow(/could not produce/);
+  });
+});
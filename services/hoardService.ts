@@ -0,0 +1,254 @@
+import {
+  ChallengeRatingBand,
+  CoinPurse,
+  GenerationSettings,
+  HoardSettings,
+  HoardValuable,
+  MagicItemResult,
+  Rarity,
+  TreasureHoard,
+} from '../types';
+import {
+  SIMPLE_MELEE_WEAPONS,
+  SIMPLE_RANGED_WEAPONS,
+  MARTIAL_MELEE_WEAPONS,
+  MARTIAL_RANGED_WEAPONS,
+  OTHER_ITEM_TYPES,
+} from '../constants';
+import { generateMagicItemText, generateMagicItemImage } from './geminiService';
+import { classifyError } from './generationErrors';
+import { waitForRateLimit } from './rateLimit';
+
+type Rng = () => number;
+
+interface DiceSpec {
+  count: number;
+  sides: number;
+  multiplier: number;
+}
+
+interface ValuableSpec {
+  kind: HoardValuable['kind'];
+  value_gp: number;
+  dice: DiceSpec;
+}
+
+interface HoardTable {
+  coins: Partial<Record<keyof CoinPurse, DiceSpec>>;
+  valuables: ValuableSpec[];
+  itemCount: DiceSpec & { bonus: number };
+  rarityWeights: Partial<Record<Rarity, number>>;
+}
+
+// Hoards are balanced around a party of this size; other sizes scale linearly
+export const BASELINE_PARTY_SIZE = 4;
+
+// Loosely follows the DMG treasure hoard tables, one row per CR band
+const HOARD_TABLES: Record<ChallengeRatingBand, HoardTable> = {
+  '0-4': {
+    coins: {
+      cp: { count: 6, sides: 6, multiplier: 100 },
+      sp: { count: 3, sides: 6, multiplier: 100 },
+      gp: { count: 2, sides: 6, multiplier: 10 },
+    },
+    valuables: [
+      { kind: 'gem', value_gp: 10, dice: { count: 2, sides: 6, multiplier: 1 } },
+      { kind: 'art', value_gp: 25, dice: { count: 1, sides: 4, multiplier: 1 } },
+    ],
+    itemCount: { count: 1, sides: 4, multiplier: 1, bonus: 0 },
+    rarityWeights: { Common: 40, Uncommon: 45, Rare: 15 },
+  },
+  '5-10': {
+    coins: {
+      cp: { count: 2, sides: 6, multiplier: 100 },
+      sp: { count: 2, sides: 6, multiplier: 1000 },
+      gp: { count: 6, sides: 6, multiplier: 100 },
+      pp: { count: 3, sides: 6, multiplier: 10 },
+    },
+    valuables: [
+      { kind: 'gem', value_gp: 50, dice: { count: 3, sides: 6, multiplier: 1 } },
+      { kind: 'art', value_gp: 250, dice: { count: 1, sides: 4, multiplier: 1 } },
+    ],
+    itemCount: { count: 1, sides: 4, multiplier: 1, bonus: 1 },
+    rarityWeights: { Common: 10, Uncommon: 40, Rare: 35, 'Very Rare': 15 },
+  },
+  '11-16': {
+    coins: {
+      gp: { count: 4, sides: 6, multiplier: 1000 },
+      pp: { count: 5, sides: 6, multiplier: 100 },
+    },
+    valuables: [
+      { kind: 'gem', value_gp: 500, dice: { count: 3, sides: 6, multiplier: 1 } },
+      { kind: 'art', value_gp: 750, dice: { count: 2, sides: 4, multiplier: 1 } },
+    ],
+    itemCount: { count: 1, sides: 4, multiplier: 1, bonus: 1 },
+    rarityWeights: { Uncommon: 15, Rare: 35, 'Very Rare': 35, Legendary: 15 },
+  },
+  '17+': {
+    coins: {
+      gp: { count: 12, sides: 6, multiplier: 1000 },
+      pp: { count: 8, sides: 6, multiplier: 1000 },
+    },
+    valuables: [
+      { kind: 'gem', value_gp: 1000, dice: { count: 3, sides: 6, multiplier: 1 } },
+      { kind: 'gem', value_gp: 5000, dice: { count: 1, sides: 6, multiplier: 1 } },
+      { kind: 'art', value_gp: 2500, dice: { count: 1, sides: 10, multiplier: 1 } },
+      { kind: 'art', value_gp: 7500, dice: { count: 1, sides: 4, multiplier: 1 } },
+    ],
+    itemCount: { count: 1, sides: 6, multiplier: 1, bonus: 1 },
+    rarityWeights: { Rare: 20, 'Very Rare': 40, Legendary: 35, Artifact: 5 },
+  },
+};
+
+const GEMSTONES: Record<number, string[]> = {
+  10: ['Azurite', 'Banded agate', 'Blue quartz', 'Hematite', 'Malachite', 'Obsidian', 'Tiger eye'],
+  50: ['Bloodstone', 'Carnelian', 'Chrysoprase', 'Moonstone', 'Onyx', 'Star rose quartz', 'Zircon'],
+  500: ['Alexandrite', 'Aquamarine', 'Black pearl', 'Blue spinel', 'Peridot', 'Topaz'],
+  1000: ['Black opal', 'Blue sapphire', 'Emerald', 'Fire opal', 'Opal', 'Star ruby'],
+  5000: ['Black sapphire', 'Diamond', 'Jacinth', 'Ruby'],
+};
+
+const ART_OBJECTS: Record<number, string[]> = {
+  25: ['Silver ewer', 'Carved bone statuette', 'Small gold bracelet', 'Embroidered silk handkerchief', 'Copper chalice with silver filigree'],
+  250: ['Gold ring set with bloodstones', 'Carved ivory statuette', 'Bronze crown', 'Silk robe with gold embroidery', 'Brass mug with jade inlay'],
+  750: ['Silver chalice set with moonstones', 'Silver-plated longsword with jet in the hilt', 'Carved harp of exotic wood', 'Gold idol', 'Obsidian statuette with gold fittings'],
+  2500: ['Fine gold chain set with a fire opal', 'Old masterpiece painting', 'Embroidered velvet mantle', 'Platinum bracelet set with a sapphire', 'Jeweled gold music box'],
+  7500: ['Jeweled platinum ring', 'Jeweled gold crown', 'Small gold statuette set with rubies', 'Gold cup set with emeralds', 'Jeweled electrum dragon'],
+};
+
+const ALL_ITEM_TYPES = [
+  ...SIMPLE_MELEE_WEAPONS,
+  ...SIMPLE_RANGED_WEAPONS,
+  ...MARTIAL_MELEE_WEAPONS,
+  ...MARTIAL_RANGED_WEAPONS,
+  ...OTHER_ITEM_TYPES,
+];
+
+const rollDice = (spec: DiceSpec, rng: Rng): number => {
+  let total = 0;
+  for (let i = 0; i < spec.count; i++) {
+    total += Math.floor(rng() * spec.sides) + 1;
+  }
+  return total * spec.multiplier;
+};
+
+export const pick = <T>(values: T[], rng: Rng): T => values[Math.floor(rng() * values.length)];
+
+export const pickWeighted = (weights: Partial<Record<Rarity, number>>, rng: Rng): Rarity => {
+  const entries = Object.entries(weights) as [Rarity, number][];
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  let roll = rng() * total;
+  for (const [rarity, weight] of entries) {
+    roll -= weight;
+    if (roll < 0) return rarity;
+  }
+  return entries[entries.length - 1][0];
+};
+
+export interface HoardPlan {
+  coins: CoinPurse;
+  valuables: HoardValuable[];
+  items: GenerationSettings[];
+}
+
+/**
+ * Roll coins, gems/art and the magic item slots for a hoard without calling
+ * the generator. Amounts scale with party size relative to a party of four.
+ */
+export const planHoard = (settings: HoardSettings, rng: Rng = Math.random): HoardPlan => {
+  const table = HOARD_TABLES[settings.crBand];
+  const scale = Math.max(1, settings.partySize) / BASELINE_PARTY_SIZE;
+
+  const coins: CoinPurse = { cp: 0, sp: 0, ep: 0, gp: 0, pp: 0 };
+  (Object.keys(table.coins) as (keyof CoinPurse)[]).forEach((coin) => {
+    coins[coin] = Math.round(rollDice(table.coins[coin]!, rng) * scale);
+  });
+
+  // Group identical gems/art objects so the list reads like "3× Moonstone"
+  const valuables: HoardValuable[] = [];
+  table.valuables.forEach((spec) => {
+    const count = Math.max(1, Math.round(rollDice(spec.dice, rng) * scale));
+    const names = spec.kind === 'gem' ? GEMSTONES[spec.value_gp] : ART_OBJECTS[spec.value_gp];
+    for (let i = 0; i < count; i++) {
+      const name = pick(names, rng);
+      const existing = valuables.find((v) => v.name === name && v.value_gp === spec.value_gp);
+      if (existing) {
+        existing.quantity += 1;
+      } else {
+        valuables.push({ kind: spec.kind, name, value_gp: spec.value_gp, quantity: 1 });
+      }
+    }
+  });
+
+  const itemCount = Math.max(1, Math.round((rollDice(table.itemCount, rng) + table.itemCount.bonus) * scale));
+  const items: GenerationSettings[] = Array.from({ length: itemCount }, () => ({
+    rarity: pickWeighted(table.rarityWeights, rng),
+    type: pick(ALL_ITEM_TYPES, rng),
+    theme: settings.theme,
+    style: settings.style,
+    powerBand: settings.powerBand,
+    includeCurse: false,
+    includePlotHook: false,
+    customPrompt: '',
+  }));
+
+  return { coins, valuables, items };
+};
+
+/**
+ * Total gold-piece value of the coins and valuables (magic items excluded).
+ */
+export const getHoardValue = (hoard: Pick<TreasureHoard, 'coins' | 'valuables'>): number => {
+  const { cp, sp, ep, gp, pp } = hoard.coins;
+  const coinValue = cp / 100 + sp / 10 + ep / 2 + gp + pp * 10;
+  const valuablesValue = hoard.valuables.reduce((sum, v) => sum + v.value_gp * v.quantity, 0);
+  return Math.round(coinValue + valuablesValue);
+};
+
+/**
+ * Roll a hoard and forge each of its magic items through the normal
+ * text + image pipeline. Items whose generation fails are skipped; image
+ * failures leave the item without artwork, as on the main forge. Each item
+ * takes a rate-limit token; at the limit the hoard waits (reported through
+ * `onWait`) rather than coming up short.
+ */
+export const forgeHoard = async (
+  settings: HoardSettings,
+  onProgress?: (completed: number, total: number, item?: MagicItemResult) => void,
+  onWait?: (seconds: number) => void
+): Promise<TreasureHoard> => {
+  const plan = planHoard(settings);
+  const items: MagicItemResult[] = [];
+
+  onProgress?.(0, plan.items.length);
+  for (const [index, itemSettings] of plan.items.entries()) {
+    await waitForRateLimit(onWait);
+    try {
+      const content = await generateMagicItemText(itemSettings);
+      let item: MagicItemResult = { ...content };
+      try {
+        const imageUrl = await generateMagicItemImage(content.imagePrompt, itemSettings.style);
+        item = { ...content, imageUrl };
+      } catch (imgErr) {
+        console.warn('Hoard item image failed, continuing without it.', imgErr);
+      }
+      items.push(item);
+      onProgress?.(index + 1, plan.items.length, item);
+    } catch (error) {
+      console.warn(`Failed to forge a ${itemSettings.rarity} ${itemSettings.type} for the hoard:`, error);
+      // Out of quota: the remaining items would fail the same way, so keep what we have
+      const classified = classifyError(error);
+      if (classified.kind === 'quota') {
+        if (items.length === 0) throw classified;
+        break;
+      }
+      onProgress?.(index + 1, plan.items.length);
+    }
+  }
+
+  if (items.length === 0 && plan.items.length > 0) {
+    throw new Error('The forge could not produce any magic items for this hoard.');
+  }
+
+  return { settings, coins: plan.coins, valuables: plan.valuables, items };
+};
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { diffItems } from './itemDiff';
+import { GeneratedContent } from '../types';
+
+const base: GeneratedContent = {
+  itemData: {
+    name: 'Emberheart Blade',
+    type: 'Weapon (Longsword)',
+    rarity: 'Rare',
+    style: 'Oil Painting',
+    theme: 'Elemental (Fire)',
+    powerBand: 'Standard',
+    description: 'A blade that smoulders.',
+    mechanics: {
+      attunement: true,
+      effects: ['+1 to attack and damage rolls.', 'Deals an extra 1d6 fire damage.'],
+      activation: 'Bonus action',
+      scaling: 'None',
+    },
+    curse: '',
+    plot_hook: 'The smith wants it back.',
+    price_gp: 4000,
+  },
+  imagePrompt: 'A longsword with glowing embers.',
+  itemCard: '**Emberheart Blade**\n- +1 to attack and damage rolls.',
+};
+
+const revise = (patch: (c: GeneratedContent) => void): GeneratedContent => {
+  const copy = JSON.parse(JSON.stringify(base)) as GeneratedContent;
+  patch(copy);
+  return copy;
+};
+
+describe('diffItems', () => {
+  it('returns no changes for identical items', () => {
+    expect(diffItems(base, revise(() => {}))).toEqual([]);
+  });
+
+  it('reports a changed scalar field with before and after values', () => {
+    const changes = diffItems(base, revise((c) => { c.itemData.rarity = 'Uncommon'; }));
+    expect(changes).toEqual([
+      { path: 'itemData.rarity', label: 'Rarity', before: 'Rare', after: 'Uncommon' },
+    ]);
+  });
+
+  it('reports a replaced effect by position', () => {
+    const changes = diffItems(base, revise((c) => { c.itemData.mechanics.effects[1] = 'Deals an extra 1d8 cold damage.'; }));
+    expect(changes).toHaveLength(1);
+    expect(changes[0].label).toBe('Effect 2');
+    expect(changes[0].after).toBe('Deals an extra 1d8 cold damage.');
+  });
+
+  it('reports added and removed effects', () => {
+    const added = diffItems(base, revise((c) => { c.itemData.mechanics.effects.push('Sheds light.'); }));
+    expect(added[0]).toMatchObject({ label: 'Effect 3', before: '', after: 'Sheds light.' });
+
+    const removed = diffItems(base, revise((c) => { c.itemData.mechanics.effects.pop(); }));
+    expect(removed[0]).toMatchObject({ label: 'Effect 2', after: '' });
+  });
+
+  it('formats booleans and numbers readably', () => {
+    const changes = diffItems(base, revise((c) => {
+      c.itemData.mechanics.attunement = false;
+      c.itemData.price_gp = 500;
+    }));
+    expect(changes.find((ch) => ch.label === 'Attunement')).toMatchObject({ before: 'Yes', after: 'No' });
+    expect(changes.find((ch) => ch.label === 'Price (gp)')).toMatchObject({ before: '4000', after: '500' });
+  });
+
+  it('reports changed effect details after the effects', () => {
+    const withDetails = revise((c) => {
+      c.itemData.mechanics.effect_details = [{ kind: 'damage', name: 'Ember Strike', dice: '1d6', damage_type: 'fire' }];
+    });
+    const changes = diffItems(withDetails, revise((c) => {
+      c.itemData.mechanics.effects[1] = 'Deals an extra 2d6 fire damage.';
+      c.itemData.mechanics.effect_details = [{ kind: 'damage', name: 'Ember Strike', dice: '2d6', damage_type: 'fire' }];
+    }));
+
+    expect(changes.map((ch) => ch.label)).toEqual(['Effect 2', 'Effect Details']);
+    expect(changes[1]).toMatchObject({ before: 'Ember Strike (damage), 1d6 fire', after: 'Ember Strike (damage), 2d6 fire' });
+  });
+
+  it('reports changed stages', () => {
+    const evolving = revise((c) => {
+      c.itemData.stages = [{ name: 'Dormant', unlock: 'Found', effects: ['Glows.'] }];
+    });
+    const changes = diffItems(evolving, revise((c) => {
+      c.itemData.stages = [{ name: 'Dormant', unlock: 'Slay a fire elemental', effects: ['Glows.'] }];
+    }));
+
+    expect(changes).toEqual([
+      { path: 'itemData.stages', label: 'Stages', before: 'Dormant: Found\n- Glows.', after: 'Dormant: Slay a fire elemental\n- Glows.' },
+    ]);
+  });
+
+  it('reports changed artifact properties', () => {
+    const artifact = { minor_beneficial: ['A', 'B'], major_beneficial: ['C'], minor_detrimental: ['D'], major_detrimental: ['E'], destruction: 'Drown it.' };
+    const changes = diffItems(
+      revise((c) => { c.itemData.artifact = artifact; }),
+      revise((c) => { c.itemData.artifact = { ...artifact, destruction: 'Cast it into a volcano.' }; })
+    );
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ path: 'itemData.artifact', label: 'Artifact Properties' });
+    expect(changes[0].after).toContain('Destruction: Cast it into a volcano.');
+  });
+
+  it('orders effect changes alongside the other mechanics', () => {
+    const changes = diffItems(base, revise((c) => {
+      c.itemCard = 'new card';
+      c.itemData.mechanics.effects[0] = 'changed';
+      c.itemData.name = 'Frostheart Blade';
+    }));
+    expect(changes.map((ch) => ch.label)).toEqual(['Name', 'Effect 1', 'Item Card']);
+  });
+});
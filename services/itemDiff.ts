@@ -0,0 +1,112 @@
+import { GeneratedContent, ItemArtifactProperties, ItemEffect, ItemSentience, ItemStage } from '../types';
+import { ARTIFACT_PROPERTY_KINDS, ARTIFACT_PROPERTY_LABELS } from './artifactProperties';
+
+export interface ItemFieldChange {
+  path: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+type FieldReader = (content: GeneratedContent) => unknown;
+
+const formatSentience = (sentience?: ItemSentience): string =>
+  sentience
+    ? [
+        `INT ${sentience.intelligence}, WIS ${sentience.wisdom}, CHA ${sentience.charisma}`,
+        sentience.alignment,
+        `Senses: ${sentience.senses}`,
+        `Communication: ${sentience.communication}`,
+        `Purpose: ${sentience.special_purpose}`,
+        `Conflict: ${sentience.conflict}`,
+      ].join('\n')
+    : '';
+
+// One line per structured effect, with only the numbers it has
+const formatEffectDetails = (details?: ItemEffect[]): string =>
+  (details || [])
+    .map((effect) => [
+      `${effect.name} (${effect.kind})`,
+      effect.dice && [effect.dice, effect.damage_type].filter(Boolean).join(' '),
+      effect.save_ability && `DC ${effect.save_dc ?? '?'} ${effect.save_ability}`,
+      effect.range,
+      effect.duration,
+      effect.charges !== undefined && `${effect.charges} charges`,
+      effect.recharge && `recharges ${effect.recharge}`,
+    ].filter(Boolean).join(', '))
+    .join('\n');
+
+const formatStages = (stages?: ItemStage[]): string =>
+  (stages || [])
+    .map((stage) => [`${stage.name}: ${stage.unlock}`, ...stage.effects.map((effect) => `- ${effect}`)].join('\n'))
+    .join('\n');
+
+const formatArtifact = (artifact?: ItemArtifactProperties): string =>
+  artifact
+    ? [
+        ...ARTIFACT_PROPERTY_KINDS.map((kind) => `${ARTIFACT_PROPERTY_LABELS[kind]}: ${artifact[kind].join('; ')}`),
+        `Destruction: ${artifact.destruction}`,
+      ].join('\n')
+    : '';
+
+// Fields compared between two versions of an item, in display order
+const DIFF_FIELDS: { path: string; label: string; read: FieldReader }[] = [
+  { path: 'itemData.name', label: 'Name', read: (c) => c.itemData.name },
+  { path: 'itemData.type', label: 'Type', read: (c) => c.itemData.type },
+  { path: 'itemData.rarity', label: 'Rarity', read: (c) => c.itemData.rarity },
+  { path: 'itemData.powerBand', label: 'Resonance Level', read: (c) => c.itemData.powerBand },
+  { path: 'itemData.description', label: 'Description', read: (c) => c.itemData.description },
+  { path: 'itemData.mechanics.attunement', label: 'Attunement', read: (c) => c.itemData.mechanics?.attunement },
+  { path: 'itemData.mechanics.activation', label: 'Activation', read: (c) => c.itemData.mechanics?.activation },
+  { path: 'itemData.mechanics.scaling', label: 'Scaling', read: (c) => c.itemData.mechanics?.scaling },
+  { path: 'itemData.mechanics.effect_details', label: 'Effect Details', read: (c) => formatEffectDetails(c.itemData.mechanics?.effect_details) },
+  { path: 'itemData.sentience', label: 'Sentience', read: (c) => formatSentience(c.itemData.sentience) },
+  { path: 'itemData.stages', label: 'Stages', read: (c) => formatStages(c.itemData.stages) },
+  { path: 'itemData.artifact', label: 'Artifact Properties', read: (c) => formatArtifact(c.itemData.artifact) },
+  { path: 'itemData.curse', label: 'Curse', read: (c) => c.itemData.curse },
+  { path: 'itemData.plot_hook', label: 'Plot Hook', read: (c) => c.itemData.plot_hook },
+  { path: 'itemData.price_gp', label: 'Price (gp)', read: (c) => c.itemData.price_gp },
+  { path: 'itemCard', label: 'Item Card', read: (c) => c.itemCard },
+  { path: 'imagePrompt', label: 'Image Prompt', read: (c) => c.imagePrompt },
+];
+
+const format = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value).trim();
+};
+
+/**
+ * List the fields that differ between two versions of an item. Effects are
+ * compared position by position so "replace the second effect" shows up as
+ * a single change.
+ */
+export const diffItems = (before: GeneratedContent, after: GeneratedContent): ItemFieldChange[] => {
+  const changes: ItemFieldChange[] = [];
+
+  DIFF_FIELDS.forEach(({ path, label, read }) => {
+    const a = format(read(before));
+    const b = format(read(after));
+    if (a !== b) {
+      changes.push({ path, label, before: a, after: b });
+    }
+  });
+
+  const beforeEffects = before.itemData.mechanics?.effects || [];
+  const afterEffects = after.itemData.mechanics?.effects || [];
+  for (let i = 0; i < Math.max(beforeEffects.length, afterEffects.length); i++) {
+    const a = format(beforeEffects[i]);
+    const b = format(afterEffects[i]);
+    if (a !== b) {
+      changes.push({ path: `itemData.mechanics.effects.${i}`, label: `Effect ${i + 1}`, before: a, after: b });
+    }
+  }
+
+  // Keep effects next to the other mechanics rather than after the card text
+  const order = (change: ItemFieldChange) =>
+    change.path.startsWith('itemData.mechanics.effects')
+      ? DIFF_FIELDS.findIndex((f) => f.path === 'itemData.mechanics.scaling') + 0.5
+      : DIFF_FIELDS.findIndex((f) => f.path === change.path);
+
+  return changes.sort((x, y) => order(x) - order(y));
+};
@@ -0,0 +1,281 @@
+import { describe, it, expect } from 'vitest';
+import { validateGeneratedContent, parseGeneratedContent, describeIssues } from './itemValidator';
+
+const makeRaw = (patch: (raw: any) => void = () => {}) => {
+  const raw: any = {
+    itemData: {
+      name: 'Emberheart Blade',
+      type: 'Weapon (Longsword)',
+      rarity: 'Rare',
+      style: 'Oil Painting',
+      theme: 'Elemental (Fire)',
+      powerBand: 'Standard',
+      description: 'A blade that smoulders.',
+      mechanics: {
+        attunement: true,
+        effects: ['+1 to attack and damage rolls.'],
+        activation: 'Bonus action',
+        scaling: 'None',
+      },
+      curse: '',
+      plot_hook: 'The smith wants it back.',
+      price_gp: 4000,
+    },
+    imagePrompt: 'A longsword with glowing embers.',
+    itemCard: '**Emberheart Blade**',
+  };
+  patch(raw);
+  return raw;
+};
+
+const fatalPaths = (raw: unknown, options = {}) =>
+  validateGeneratedContent(raw, options).issues.filter((i) => i.fatal).map((i) => i.path);
+
+describe('validateGeneratedContent', () => {
+  it('accepts a well-formed item without issues', () => {
+    const report = validateGeneratedContent(makeRaw());
+
+    expect(report.issues).toEqual([]);
+    expect(report.content?.itemData.name).toBe('Emberheart Blade');
+  });
+
+  it('reports missing effects as fatal', () => {
+    expect(fatalPaths(makeRaw((raw) => delete raw.itemData.mechanics.effects))).toEqual(['itemData.mechanics.effects']);
+    expect(fatalPaths(makeRaw((raw) => (raw.itemData.mechanics.effects = [])))).toEqual(['itemData.mechanics.effects']);
+    expect(fatalPaths(makeRaw((raw) => delete raw.itemData.mechanics))).toEqual(['itemData.mechanics']);
+  });
+
+  it('reports missing name, card and image prompt as fatal', () => {
+    const raw = makeRaw((r) => {
+      delete r.itemData.name;
+      r.itemCard = '';
+      delete r.imagePrompt;
+    });
+
+    expect(fatalPaths(raw)).toEqual(['itemCard', 'imagePrompt', 'itemData.name']);
+    expect(validateGeneratedContent(raw).content).toBeNull();
+  });
+
+  it('coerces rarity and type to the requested values', () => {
+    const report = validateGeneratedContent(
+      makeRaw((raw) => {
+        raw.itemData.rarity = 'Legendary';
+        delete raw.itemData.type;
+      }),
+      { rarity: 'Rare', type: 'Weapon (Longsword)' }
+    );
+
+    expect(report.content?.itemData.rarity).toBe('Rare');
+    expect(report.content?.itemData.type).toBe('Weapon (Longsword)');
+    expect(report.issues.map((i) => i.code)).toEqual(['coerced', 'coerced']);
+  });
+
+  it('normalizes rarity casing and rejects unknown rarities when none was requested', () => {
+    expect(validateGeneratedContent(makeRaw((raw) => (raw.itemData.rarity = 'very rare'))).content?.itemData.rarity).toBe('Very Rare');
+    expect(fatalPaths(makeRaw((raw) => (raw.itemData.rarity = 'Mythical')))).toEqual(['itemData.rarity']);
+  });
+
+  it('fills optional fields and converts loose values', () => {
+    const report = validateGeneratedContent(
+      makeRaw((raw) => {
+        delete raw.itemData.curse;
+        delete raw.itemData.powerBand;
+        raw.itemData.price_gp = '2500';
+        raw.itemData.mechanics.attunement = 'true';
+        raw.itemData.mechanics.effects.push('', 7);
+      })
+    );
+
+    expect(report.content?.itemData).toMatchObject({
+      curse: '',
+      powerBand: 'Standard',
+      price_gp: 2500,
+      mechanics: { attunement: true, effects: ['+1 to attack and damage rolls.'] },
+    });
+    expect(report.issues.every((i) => !i.fatal)).toBe(true);
+  });
+
+  it('requires a complete sentience block for sentient items', () => {
+    expect(fatalPaths(makeRaw(), { requireSentience: true })).toEqual(['itemData.sentience']);
+
+    const report = validateGeneratedContent(
+      makeRaw((raw) => {
+        raw.itemData.sentience = {
+          intelligence: '14',
+          wisdom: 12,
+          charisma: 16,
+          alignment: 'Chaotic good',
+          senses: 'Hearing out to 60 feet',
+          communication: 'Telepathy',
+          special_purpose: 'Slay fiends',
+          conflict: 'Refuses to ignite',
+        };
+      }),
+      { requireSentience: true }
+    );
+    expect(report.content?.itemData.sentience?.intelligence).toBe(14);
+  });
+
+  it('keeps only the known sentience fields and clamps its scores', () => {
+    const report = validateGeneratedContent(
+      makeRaw((raw) => {
+        raw.itemData.sentience = {
+          intelligence: 45,
+          wisdom: 0,
+          charisma: 16,
+          alignment: 'Chaotic good',
+          senses: 'Hearing out to 60 feet',
+          communication: 'Telepathy',
+          special_purpose: 'Slay fiends',
+          conflict: 'Refuses to ignite',
+          mood: 'Sulky',
+        };
+      }),
+      { requireSentience: true }
+    );
+    const sentience = report.content?.itemData.sentience;
+
+    expect(sentience).toMatchObject({ intelligence: 30, wisdom: 1, charisma: 16 });
+    expect(sentience).not.toHaveProperty('mood');
+    expect(report.issues.every((i) => !i.fatal)).toBe(true);
+  });
+
+  it('normalizes structured effect details without failing the item', () => {
+    const report = validateGeneratedContent(
+      makeRaw((raw) => {
+        raw.itemData.mechanics.effect_details = [
+          { kind: 'Damage', name: 'Ember Strike', dice: '2D6 + 1', damage_type: 'fire', save_dc: '15', save_ability: 'dexterity' },
+          { kind: 'blast', name: 'Flare', dice: 'lots', save_dc: 99, charges: '3' },
+          { kind: 'utility', dice: '1d4' },
+        ];
+      })
+    );
+
+    expect(report.content?.itemData.mechanics.effect_details).toEqual([
+      { kind: 'damage', name: 'Ember Strike', dice: '2d6+1', damage_type: 'fire', save_ability: 'DEX', save_dc: 15 },
+      { kind: 'other', name: 'Flare', charges: 3 },
+    ]);
+    expect(report.issues.every((i) => !i.fatal)).toBe(true);
+    expect(report.issues.map((i) => i.path)).toEqual(expect.arrayContaining([
+      'itemData.mechanics.effect_details.1.kind',
+      'itemData.mechanics.effect_details.1.dice',
+      'itemData.mechanics.effect_details.1.save_dc',
+      'itemData.mechanics.effect_details.2',
+    ]));
+  });
+
+  it('requires three or more complete stages for evolving items', () => {
+    const stage = (name: string, effects: string[]) => ({ name, unlock: 'Slay a dragon', effects });
+    expect(fatalPaths(makeRaw(), { requireStages: true })).toEqual(['itemData.stages']);
+    expect(fatalPaths(makeRaw((raw) => {
+      raw.itemData.stages = [stage('Dormant', []), stage('Awakened', ['Glows.'])];
+    }))).toEqual(['itemData.stages']);
+    expect(fatalPaths(makeRaw((raw) => {
+      raw.itemData.stages = [stage('Dormant', []), stage('Awakened', []), stage('Exalted', ['Burns.'])];
+    }))).toEqual(['itemData.stages']);
+
+    const report = validateGeneratedContent(
+      makeRaw((raw) => {
+        raw.itemData.stages = [stage(' Dormant ', []), stage('Awakened', ['Glows.', '']), stage('Exalted', ['Burns.'])];
+      }),
+      { requireStages: true }
+    );
+    expect(report.content?.itemData.stages).toEqual([
+      { name: 'Dormant', unlock: 'Slay a dragon', effects: [] },
+      { name: 'Awakened', unlock: 'Slay a dragon', effects: ['Glows.'] },
+      { name: 'Exalted', unlock: 'Slay a dragon', effects: ['Burns.'] },
+    ]);
+  });
+
+  it('requires every kind of artifact property and a destruction method', () => {
+    const artifact = {
+      minor_beneficial: ['You can\'t be surprised.', ''],
+      major_beneficial: ['You gain a flying speed.'],
+      minor_detrimental: ['You cast no shadow.'],
+      major_detrimental: ['It dictates your actions.'],
+      destruction: ' Cast it into the forge. ',
+    };
+    expect(fatalPaths(makeRaw(), { requireArtifact: true })).toEqual(['itemData.artifact']);
+    expect(fatalPaths(makeRaw((raw) => {
+      raw.itemData.artifact = { ...artifact, major_detrimental: [] };
+    }))).toEqual(['itemData.artifact']);
+
+    const report = validateGeneratedContent(
+      makeRaw((raw) => { raw.itemData.artifact = artifact; }),
+      { requireArtifact: true }
+    );
+    expect(report.content?.itemData.artifact).toEqual({
+      ...artifact,
+      minor_beneficial: ['You can\'t be surprised.'],
+      destruction: 'Cast it into the forge.',
+    });
+
+    // Properties rolled by the forge replace the generated ones
+    const rolled = { ...artifact, minor_beneficial: ['Rolled.'] };
+    expect(validateGeneratedContent(makeRaw(), { artifact: rolled }).content?.itemData.artifact).toEqual(rolled);
+  });
+
+  it('requires class-restricted attunement to name a class in the party', () => {
+    const restricted = makeRaw((raw) => { raw.itemCard = '*Requires attunement by a sorcerer or wizard*'; });
+
+    expect(fatalPaths(restricted, { partyClasses: ['Fighter', 'Rogue'] })).toEqual(['itemData.mechanics.attunement']);
+    expect(fatalPaths(restricted, { partyClasses: ['Fighter', 'Wizard'] })).toEqual([]);
+    expect(fatalPaths(restricted)).toEqual([]);
+    // Restrictions that name no class are left alone
+    expect(fatalPaths(
+      makeRaw((raw) => { raw.itemData.mechanics.activation = 'Requires attunement by a spellcaster.'; }),
+      { partyClasses: ['Fighter'] }
+    )).toEqual([]);
+  });
+
+  it('checks the fields and rarity ladder of the requested game system', () => {
+    expect(fatalPaths(makeRaw(), { gameSystem: 'pf2e' })).toEqual(['itemData.level']);
+
+    const report = validateGeneratedContent(
+      makeRaw((raw) => {
+        raw.itemData.rarity = 'unique';
+        raw.itemData.level = '7';
+        raw.itemData.traits = ['Magical', '', 'Fire'];
+      }),
+      { gameSystem: 'pf2e' }
+    );
+    expect(report.content?.itemData).toMatchObject({
+      gameSystem: 'pf2e',
+      rarity: 'Unique',
+      level: 7,
+      traits: ['Magical', 'Fire'],
+      mechanics: { attunement: false },
+    });
+    expect(fatalPaths(makeRaw((raw) => { raw.itemData.rarity = 'Unique'; }))).toEqual(['itemData.rarity']);
+  });
+
+  it('rejects non-object input', () => {
+    expect(fatalPaths(null)).toEqual(['']);
+    expect(fatalPaths([])).toEqual(['']);
+  });
+});
+
+describe('parseGeneratedContent', () => {
+  it('reports invalid JSON as a fatal issue instead of throwing', () => {
+    const report = parseGeneratedContent('{"itemData": {');
+
+    expect(report.content).toBeNull();
+    expect(report.issues).toEqual([
+      { path: '', code: 'invalid_json', message: 'The response was not valid JSON.', fatal: true },
+    ]);
+  });
+});
+
+describe('describeIssues', () => {
+  it('lists only fatal issues', () => {
+    const report = validateGeneratedContent(
+      makeRaw((raw) => {
+        raw.itemData.rarity = 'Legendary';
+        raw.itemData.mechanics.effects = [];
+      }),
+      { rarity: 'Rare' }
+    );
+
+    expect(describeIssues(report.issues)).toBe('- itemData.mechanics.effects: effects must list at least one effect.');
+  });
+});
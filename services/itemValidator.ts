@@ -0,0 +1,388 @@
+import { AbilityScore, EffectKind, GameSystemId, GeneratedContent, ItemArtifactProperties, ItemData, ItemEffect, ItemLanguage, ItemSentience, ItemStage, Rarity } from '../types';
+import { POWER_BANDS } from '../constants';
+import { getGameSystem, isGameSystemId } from './gameSystems';
+import { parseDiceExpression } from './dice';
+import { ARTIFACT_PROPERTY_KINDS } from './artifactProperties';
+import { findAttunementClasses } from './partyService';
+
+export type ValidationIssueCode = 'invalid_json' | 'missing' | 'wrong_type' | 'invalid_value' | 'coerced';
+
+export interface ValidationIssue {
+  path: string;
+  code: ValidationIssueCode;
+  message: string;
+  // Fatal issues cannot be normalized away and need a repair pass
+  fatal: boolean;
+}
+
+export interface ValidationReport {
+  content: GeneratedContent | null; // Null when any issue is fatal
+  issues: ValidationIssue[];
+}
+
+// What the item was asked to be. Fields given here win over the generator's output.
+export interface ValidationOptions {
+  gameSystem?: GameSystemId; // Decides the rarity ladder and any system-specific fields
+  language?: ItemLanguage; // Recorded on the item; the text itself is not checked
+  rarity?: string;
+  type?: string;
+  powerBand?: string;
+  style?: string;
+  theme?: string;
+  requireSentience?: boolean;
+  requireStages?: boolean;
+  requireArtifact?: boolean;
+  artifact?: ItemArtifactProperties; // Properties rolled by the forge; replace whatever was generated
+  partyClasses?: string[]; // Classes in the party the item is for; attunement may only be restricted to these
+}
+
+export const EFFECT_KINDS: EffectKind[] = ['attack', 'damage', 'healing', 'save', 'spell', 'defense', 'buff', 'utility', 'other'];
+export const ABILITY_SCORES: AbilityScore[] = ['STR', 'DEX', 'CON', 'INT', 'WIS', 'CHA'];
+
+// Evolving items need a starting stage and at least two to grow into
+export const MIN_EVOLUTION_STAGES = 3;
+export const MAX_EVOLUTION_STAGES = 5;
+
+const MAX_SAVE_DC = 40;
+const MAX_EFFECT_CHARGES = 100;
+
+const SENTIENCE_SCORES: (keyof ItemSentience)[] = ['intelligence', 'wisdom', 'charisma'];
+// Ability score bounds; a sentient item's mental scores are clamped into them
+const MIN_ABILITY_SCORE = 1;
+const MAX_ABILITY_SCORE = 30;
+const SENTIENCE_TEXT: (keyof ItemSentience)[] = ['alignment', 'senses', 'communication', 'special_purpose', 'conflict'];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+// Generators sometimes fill an absent curse with a placeholder instead of leaving it empty
+const NO_CURSE_PATTERN = /^(?:none|n\/?a|no curse|not cursed|uncursed|-+)\.?$/i;
+
+/**
+ * The item's curse, or an empty string when it has none, treating
+ * placeholders such as "None" or "N/A" as no curse.
+ */
+export const getCurse = (itemData: Pick<ItemData, 'curse'>): string => {
+  const curse = itemData.curse?.trim() || '';
+  return NO_CURSE_PATTERN.test(curse) ? '' : curse;
+};
+
+/**
+ * Normalize one structured effect, keeping only the fields that make sense.
+ * Structured effects are optional, so nothing here is fatal: an entry without
+ * a name is dropped and implausible values are cleared.
+ */
+const normalizeEffect = (raw: unknown, path: string, note: (path: string, message: string) => void): ItemEffect | null => {
+  if (!isObject(raw) || !isText(raw.name)) {
+    note(path, 'Effect detail without a name was dropped.');
+    return null;
+  }
+
+  const kind = typeof raw.kind === 'string' ? raw.kind.trim().toLowerCase() : '';
+  const effect: ItemEffect = {
+    kind: (EFFECT_KINDS as string[]).includes(kind) ? kind as EffectKind : 'other',
+    name: raw.name.trim(),
+  };
+  if (effect.kind !== kind) note(`${path}.kind`, `kind "${raw.kind}" replaced with "other".`);
+
+  if (isText(raw.dice)) {
+    const dice = parseDiceExpression(raw.dice);
+    if (dice) {
+      effect.dice = dice.text;
+    } else {
+      note(`${path}.dice`, `dice "${raw.dice}" is not a dice expression and was cleared.`);
+    }
+  }
+
+  const ability = typeof raw.save_ability === 'string' ? raw.save_ability.trim().slice(0, 3).toUpperCase() : '';
+  const dc = Math.round(Number(raw.save_dc));
+  if ((ABILITY_SCORES as string[]).includes(ability)) effect.save_ability = ability as AbilityScore;
+  if (raw.save_dc !== undefined && raw.save_dc !== null) {
+    if (dc >= 1 && dc <= MAX_SAVE_DC) {
+      effect.save_dc = dc;
+    } else {
+      note(`${path}.save_dc`, `save_dc "${raw.save_dc}" is out of range and was cleared.`);
+    }
+  }
+
+  const charges = Math.round(Number(raw.charges));
+  if (raw.charges !== undefined && raw.charges !== null) {
+    if (charges >= 1 && charges <= MAX_EFFECT_CHARGES) {
+      effect.charges = charges;
+    } else if (charges !== 0) {
+      note(`${path}.charges`, `charges "${raw.charges}" is out of range and was cleared.`);
+    }
+  }
+
+  (['damage_type', 'range', 'duration', 'recharge'] as const).forEach((key) => {
+    if (isText(raw[key])) effect[key] = raw[key].trim();
+  });
+  return effect;
+};
+
+/**
+ * Check generator output against the GeneratedContent shape and normalize
+ * what can be fixed locally: optional text fields default to empty, rarity
+ * and type are coerced to the requested values, and numbers given as
+ * strings are converted. Anything that would leave the item unusable
+ * (no name, no effects, no card) is reported as fatal.
+ */
+export const validateGeneratedContent = (value: unknown, options: ValidationOptions = {}): ValidationReport => {
+  const issues: ValidationIssue[] = [];
+  const fail = (path: string, code: ValidationIssueCode, message: string) =>
+    issues.push({ path, code, message, fatal: true });
+  const note = (path: string, message: string) =>
+    issues.push({ path, code: 'coerced', message, fatal: false });
+
+  if (!isObject(value)) {
+    fail('', 'wrong_type', 'Expected a JSON object with itemData, imagePrompt and itemCard.');
+    return { content: null, issues };
+  }
+
+  if (!isText(value.itemCard)) fail('itemCard', 'missing', 'itemCard must be a non-empty string.');
+  if (!isText(value.imagePrompt)) fail('imagePrompt', 'missing', 'imagePrompt must be a non-empty string.');
+
+  const raw = value.itemData;
+  if (!isObject(raw)) {
+    fail('itemData', 'missing', 'itemData must be an object.');
+    return { content: null, issues };
+  }
+
+  if (!isText(raw.name)) fail('itemData.name', 'missing', 'name must be a non-empty string.');
+  if (!isText(raw.description)) fail('itemData.description', 'missing', 'description must be a non-empty string.');
+
+  // Requested values win; otherwise the generator's value must be valid on its own
+  const pick = (key: 'rarity' | 'type', allowed?: readonly string[]): string => {
+    const requested = options[key];
+    const given = typeof raw[key] === 'string' ? raw[key].trim() : '';
+    if (requested) {
+      if (given !== requested) note(`itemData.${key}`, `${key} "${given}" replaced with requested "${requested}".`);
+      return requested;
+    }
+    if (allowed) {
+      const match = allowed.find((option) => option.toLowerCase() === given.toLowerCase());
+      if (!match) {
+        fail(`itemData.${key}`, 'invalid_value', `${key} must be one of: ${allowed.join(', ')}.`);
+        return given;
+      }
+      if (match !== given) note(`itemData.${key}`, `${key} "${given}" normalized to "${match}".`);
+      return match;
+    }
+    if (!given) fail(`itemData.${key}`, 'missing', `${key} must be a non-empty string.`);
+    return given;
+  };
+
+  const gameSystemId = options.gameSystem ?? (isGameSystemId(raw.gameSystem) ? raw.gameSystem : undefined);
+  const system = getGameSystem(gameSystemId);
+
+  const rarity = pick('rarity', system.rarities);
+  const type = pick('type');
+  const powerBand = options.powerBand || (POWER_BANDS as string[]).find((band) => band === raw.powerBand) || 'Standard';
+  if (!options.powerBand && raw.powerBand !== powerBand) {
+    note('itemData.powerBand', `powerBand defaulted to "${powerBand}".`);
+  }
+
+  const mechanics = isObject(raw.mechanics) ? raw.mechanics : null;
+  if (!mechanics) {
+    fail('itemData.mechanics', 'missing', 'mechanics must be an object.');
+  }
+  const effects = Array.isArray(mechanics?.effects) ? mechanics!.effects.filter(isText) : [];
+  if (mechanics && !Array.isArray(mechanics.effects)) {
+    fail('itemData.mechanics.effects', 'wrong_type', 'effects must be an array of strings.');
+  } else if (mechanics && effects.length === 0) {
+    fail('itemData.mechanics.effects', 'missing', 'effects must list at least one effect.');
+  } else if (mechanics && effects.length !== mechanics.effects.length) {
+    note('itemData.mechanics.effects', 'Empty or non-text effects were dropped.');
+  }
+
+  let effectDetails: ItemEffect[] | undefined;
+  if (mechanics && Array.isArray(mechanics.effect_details)) {
+    effectDetails = mechanics.effect_details
+      .map((entry: unknown, i: number) => normalizeEffect(entry, `itemData.mechanics.effect_details.${i}`, note))
+      .filter((entry: ItemEffect | null): entry is ItemEffect => entry !== null);
+  } else if (mechanics && mechanics.effect_details !== undefined) {
+    note('itemData.mechanics.effect_details', 'effect_details was not a list and was dropped.');
+  }
+
+  const text = (input: unknown, path: string): string => {
+    if (typeof input === 'string') return input;
+    if (input !== undefined && input !== null) note(path, `${path} was not a string and was cleared.`);
+    return '';
+  };
+
+  let price = Number(raw.price_gp);
+  if (!Number.isFinite(price) || price < 0) {
+    if (raw.price_gp !== undefined) note('itemData.price_gp', 'price_gp was not a valid number.');
+    price = 0;
+  }
+
+  let sentience: ItemSentience | undefined;
+  if (isObject(raw.sentience)) {
+    const candidate = raw.sentience;
+    const valid = SENTIENCE_SCORES.every((key) => Number.isFinite(Number(candidate[key])))
+      && SENTIENCE_TEXT.every((key) => isText(candidate[key]));
+    if (valid) {
+      const score = (key: 'intelligence' | 'wisdom' | 'charisma'): number => {
+        const given = Number(candidate[key]);
+        const clamped = Math.min(MAX_ABILITY_SCORE, Math.max(MIN_ABILITY_SCORE, Math.round(given)));
+        if (clamped !== given) note(`itemData.sentience.${key}`, `${key} ${given} clamped to ${clamped}.`);
+        return clamped;
+      };
+      // Only the known fields, so stray keys from the generator are not saved with the item
+      sentience = {
+        intelligence: score('intelligence'),
+        wisdom: score('wisdom'),
+        charisma: score('charisma'),
+        alignment: candidate.alignment,
+        senses: candidate.senses,
+        communication: candidate.communication,
+        special_purpose: candidate.special_purpose,
+        conflict: candidate.conflict,
+      };
+    } else {
+      fail('itemData.sentience', 'invalid_value', 'sentience needs numeric intelligence, wisdom and charisma and every text field.');
+    }
+  } else if (options.requireSentience) {
+    fail('itemData.sentience', 'missing', 'sentience is required for a sentient item.');
+  }
+
+  let stages: ItemStage[] | undefined;
+  if (Array.isArray(raw.stages)) {
+    const valid = raw.stages.every((stage: unknown, i: number) =>
+      isObject(stage) && isText(stage.name) && isText(stage.unlock)
+      && Array.isArray(stage.effects) && (i === 0 || stage.effects.some(isText)));
+    if (!valid) {
+      fail('itemData.stages', 'invalid_value', 'every stage needs a name, an unlock condition and (after the first) at least one effect.');
+    } else if (raw.stages.length < MIN_EVOLUTION_STAGES || raw.stages.length > MAX_EVOLUTION_STAGES) {
+      fail('itemData.stages', 'invalid_value', `an evolving item needs ${MIN_EVOLUTION_STAGES} to ${MAX_EVOLUTION_STAGES} stages.`);
+    } else {
+      stages = raw.stages.map((stage: Record<string, any>) => ({
+        name: stage.name.trim(),
+        unlock: stage.unlock.trim(),
+        effects: stage.effects.filter(isText),
+      }));
+    }
+  } else if (options.requireStages) {
+    fail('itemData.stages', 'missing', 'stages are required for an evolving item.');
+  }
+
+  let artifact: ItemArtifactProperties | undefined = options.artifact;
+  if (!artifact && isObject(raw.artifact)) {
+    const candidate = raw.artifact;
+    const valid = ARTIFACT_PROPERTY_KINDS.every((kind) => Array.isArray(candidate[kind]) && candidate[kind].some(isText))
+      && isText(candidate.destruction);
+    if (valid) {
+      artifact = { destruction: candidate.destruction.trim() } as ItemArtifactProperties;
+      ARTIFACT_PROPERTY_KINDS.forEach((kind) => {
+        artifact![kind] = candidate[kind].filter(isText);
+      });
+    } else {
+      fail('itemData.artifact', 'invalid_value', 'artifact needs at least one property of each kind and a destruction method.');
+    }
+  } else if (!artifact && options.requireArtifact) {
+    fail('itemData.artifact', 'missing', 'artifact properties are required for this artifact.');
+  }
+
+  // Fields only some game systems use, such as Pathfinder's item level and traits
+  const systemFields: Record<string, unknown> = {};
+  Object.entries(system.itemFields).forEach(([key, schema]) => {
+    const path = `itemData.${key}`;
+    const given = raw[key];
+    if (schema.type === 'integer' || schema.type === 'number') {
+      const number = Number(given);
+      if (given === undefined || given === null || given === '' || !Number.isFinite(number)) {
+        fail(path, 'missing', `${key} must be a number.`);
+        return;
+      }
+      if (typeof given !== 'number') note(path, `${key} "${given}" converted to a number.`);
+      systemFields[key] = schema.type === 'integer' ? Math.round(number) : number;
+    } else if (schema.type === 'array') {
+      if (given !== undefined && !Array.isArray(given)) note(path, `${key} was not a list and was cleared.`);
+      systemFields[key] = Array.isArray(given) ? given.filter(isText) : [];
+    } else {
+      systemFields[key] = text(given, path);
+    }
+  });
+
+  let attunement = mechanics?.attunement === true || mechanics?.attunement === 'true';
+  if (attunement && !system.usesAttunement) {
+    note('itemData.mechanics.attunement', `${system.label} has no attunement; attunement was cleared.`);
+    attunement = false;
+  }
+
+  // An item only one class can attune to is dead loot unless someone in the party plays that class
+  if (attunement && options.partyClasses && options.partyClasses.length > 0) {
+    const restrictionText = [mechanics!.activation, ...effects, value.itemCard].filter(isText).join('\n');
+    const restrictedTo = findAttunementClasses(restrictionText);
+    if (restrictedTo.length > 0 && !restrictedTo.some((className) => options.partyClasses!.includes(className))) {
+      fail(
+        'itemData.mechanics.attunement',
+        'invalid_value',
+        `attunement is restricted to ${restrictedTo.join(' or ')}, but the party has none; restrict it to ${options.partyClasses.join(', ')} or lift the restriction.`
+      );
+    }
+  }
+
+  if (issues.some((issue) => issue.fatal)) {
+    return { content: null, issues };
+  }
+
+  const itemData: ItemData = {
+    name: raw.name.trim(),
+    type,
+    rarity: rarity as Rarity,
+    style: options.style || text(raw.style, 'itemData.style'),
+    theme: options.theme || text(raw.theme, 'itemData.theme'),
+    powerBand,
+    description: raw.description,
+    mechanics: {
+      attunement,
+      effects,
+      ...(effectDetails && effectDetails.length > 0 ? { effect_details: effectDetails } : {}),
+      activation: text(mechanics!.activation, 'itemData.mechanics.activation'),
+      scaling: text(mechanics!.scaling, 'itemData.mechanics.scaling'),
+    },
+    curse: text(raw.curse, 'itemData.curse'),
+    plot_hook: text(raw.plot_hook, 'itemData.plot_hook'),
+    price_gp: price,
+    ...(sentience ? { sentience } : {}),
+    ...(stages ? { stages } : {}),
+    ...(artifact ? { artifact } : {}),
+    ...(gameSystemId ? { gameSystem: gameSystemId } : {}),
+    ...(options.language && options.language !== 'en' ? { language: options.language } : {}),
+    ...systemFields,
+  };
+
+  return {
+    content: { itemData, imagePrompt: value.imagePrompt, itemCard: value.itemCard },
+    issues,
+  };
+};
+
+/**
+ * Parse raw generator text and validate it. Invalid JSON is reported as a
+ * fatal issue rather than thrown.
+ */
+export const parseGeneratedContent = (text: string, options: ValidationOptions = {}): ValidationReport => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    return {
+      content: null,
+      issues: [{ path: '', code: 'invalid_json', message: 'The response was not valid JSON.', fatal: true }],
+    };
+  }
+  return validateGeneratedContent(value, options);
+};
+
+/**
+ * One line per fatal issue, for feeding back to the generator in a repair request.
+ */
+export const describeIssues = (issues: ValidationIssue[]): string =>
+  issues
+    .filter((issue) => issue.fatal)
+    .map((issue) => `- ${issue.path || '(root)'}: ${issue.message}`)
+    .join('\n');
@@ -0,0 +1,219 @@
+import type {
+  GenerationProvider,
+  ProviderConfig,
+  ResponseSchema,
+  SafetyPolicy,
+  SafetyThreshold,
+  TextGenerationRequest,
+} from './aiProvider';
+import { GenerationError, kindForStatus } from './generationErrors';
+
+export const DEFAULT_OPENAI_COMPATIBLE_TEXT_MODEL = 'llama3.1';
+
+const CATEGORY_LABELS: Record<keyof SafetyPolicy, string> = {
+  harassment: 'harassment',
+  hateSpeech: 'hate speech',
+  sexuallyExplicit: 'sexually explicit content',
+  dangerousContent: 'real-world dangerous content',
+};
+
+const THRESHOLD_LABELS: Record<SafetyThreshold, string | null> = {
+  block_low_and_above: 'any',
+  block_medium_and_above: 'moderate or severe',
+  block_only_high: 'severe',
+  block_none: null,
+};
+
+// The parts of the chat completions and image responses the provider reads
+interface ChatCompletionChoice {
+  finish_reason?: string | null;
+  message?: { content?: string | null };
+  delta?: { content?: string | null }; // Streamed chunks carry a delta instead of a message
+}
+
+interface ChatCompletionResponse {
+  choices?: ChatCompletionChoice[];
+}
+
+interface ImageGenerationResponse {
+  data?: { b64_json?: string }[];
+}
+
+// Approximate pixel sizes for the aspect ratios the UI offers
+const IMAGE_SIZES: Record<string, string> = {
+  '1:1': '1024x1024',
+  '3:4': '768x1024',
+  '4:3': '1024x768',
+  '9:16': '576x1024',
+  '16:9': '1024x576',
+};
+
+/**
+ * Convert the neutral schema to plain JSON Schema, dropping the
+ * Gemini-only propertyOrdering hint.
+ */
+export const toJsonSchema = (schema: ResponseSchema): Record<string, unknown> => {
+  const result: Record<string, unknown> = { type: schema.type };
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.required) result.required = schema.required;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.minItems !== undefined) result.minItems = schema.minItems;
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  return result;
+};
+
+/**
+ * OpenAI-compatible servers have no per-request safety filter, so the policy
+ * is expressed as an instruction appended to the system prompt.
+ */
+export const describeSafetyPolicy = (policy: SafetyPolicy): string => {
+  const rules = (Object.keys(CATEGORY_LABELS) as (keyof SafetyPolicy)[])
+    .map((category) => {
+      const level = THRESHOLD_LABELS[policy[category]];
+      return level ? `- Do not produce ${level} ${CATEGORY_LABELS[category]}.` : null;
+    })
+    .filter((rule): rule is string => rule !== null);
+
+  return rules.length > 0 ? `Content policy:\n${rules.join('\n')}` : '';
+};
+
+/**
+ * Any server exposing the OpenAI chat completions API: OpenAI itself,
+ * a local Ollama or llama.cpp server, LM Studio, vLLM, etc.
+ */
+export const createOpenAICompatibleProvider = (config: ProviderConfig): GenerationProvider => {
+  const baseUrl = (config.baseUrl || '').replace(/\/+$/, '');
+  const textModel = config.textModel || DEFAULT_OPENAI_COMPATIBLE_TEXT_MODEL;
+  const imageModel = config.imageModel || '';
+
+  const send = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) {
+      headers.Authorization = `Bearer ${config.apiKey}`;
+    }
+
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      throw new GenerationError(kindForStatus(response.status), `Provider request failed (${response.status}): ${detail}`.trim(), {
+        status: response.status,
+        retryAfterMs: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined,
+      });
+    }
+    return response;
+  };
+
+  const post = async <T>(path: string, body: unknown): Promise<T> => (await send(path, body)).json();
+
+  const buildChatBody = (request: TextGenerationRequest) => {
+    const safety = describeSafetyPolicy(request.safety);
+    return {
+      model: textModel,
+      temperature: request.temperature,
+      messages: [
+        { role: 'system', content: safety ? `${request.systemInstruction}\n\n${safety}` : request.systemInstruction },
+        { role: 'user', content: request.prompt },
+      ],
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'response', schema: toJsonSchema(request.responseSchema) },
+      },
+    };
+  };
+
+  return {
+    id: 'openai-compatible',
+    textModel,
+    imageModel,
+
+    generateText: async (request) => {
+      const data = await post<ChatCompletionResponse>('/chat/completions', buildChatBody(request));
+
+      const choice = data?.choices?.[0];
+      if (choice?.finish_reason === 'content_filter') {
+        throw new GenerationError('safety', "Response blocked by the provider's content filter.");
+      }
+
+      const text = choice?.message?.content;
+      if (!text) {
+        throw new GenerationError('malformed', "No content generated from provider.");
+      }
+      return text;
+    },
+
+    // Server-sent events: one `data: {...}` line per delta, terminated by `data: [DONE]`
+    streamText: async function* (request, signal) {
+      const response = await send('/chat/completions', { ...buildChatBody(request), stream: true }, signal);
+      if (!response.body) {
+        throw new GenerationError('malformed', "Provider did not return a stream.");
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const payload = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !payload) continue;
+          if (payload === '[DONE]') return;
+
+          // One garbled event should not end an otherwise healthy stream
+          let chunk: ChatCompletionResponse;
+          try {
+            chunk = JSON.parse(payload);
+          } catch (parseErr) {
+            console.warn('Skipping malformed stream event.', parseErr);
+            continue;
+          }
+          const choice = chunk?.choices?.[0];
+          if (choice?.finish_reason === 'content_filter') {
+            throw new GenerationError('safety', "Response blocked by the provider's content filter.");
+          }
+          const delta = choice?.delta?.content;
+          if (delta) {
+            yield delta;
+          }
+        }
+      }
+    },
+
+    generateImage: async (request) => {
+      if (!imageModel) {
+        throw new GenerationError('unknown', "No image model configured for this provider.");
+      }
+
+      const data = await post<ImageGenerationResponse>('/images/generations', {
+        model: imageModel,
+        prompt: request.prompt,
+        size: IMAGE_SIZES[request.aspectRatio] || IMAGE_SIZES['1:1'],
+        response_format: 'b64_json',
+        n: 1,
+      });
+
+      const b64 = data?.data?.[0]?.b64_json;
+      if (!b64) {
+        throw new GenerationError('malformed', "No image data found in response");
+      }
+      return `data:image/png;base64,${b64}`;
+    },
+  };
+};
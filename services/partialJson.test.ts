@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { parsePartialJson } from './partialJson';
+
+describe('parsePartialJson', () => {
+  it('parses complete JSON unchanged', () => {
+    expect(parsePartialJson('{"a":1,"b":[true,null]}')).toEqual({ a: 1, b: [true, null] });
+  });
+
+  it('returns undefined for empty input', () => {
+    expect(parsePartialJson('')).toBeUndefined();
+    expect(parsePartialJson('   ')).toBeUndefined();
+  });
+
+  it('closes unterminated objects and arrays', () => {
+    expect(parsePartialJson('{"itemData":{"name":"Blade","effects":["one"')).toEqual({
+      itemData: { name: 'Blade', effects: ['one'] },
+    });
+  });
+
+  it('keeps a partially streamed string value', () => {
+    expect(parsePartialJson('{"name":"Flame Tong')).toEqual({ name: 'Flame Tong' });
+  });
+
+  it('drops a dangling key with no value', () => {
+    expect(parsePartialJson('{"name":"Blade","descr')).toEqual({ name: 'Blade' });
+    expect(parsePartialJson('{"name":"Blade","description":')).toEqual({ name: 'Blade' });
+  });
+
+  it('drops a partial literal', () => {
+    expect(parsePartialJson('{"name":"Blade","attunement":tr')).toEqual({ name: 'Blade' });
+  });
+
+  it('ignores braces and commas inside strings', () => {
+    expect(parsePartialJson('{"card":"a {b}, [c]","x":')).toEqual({ card: 'a {b}, [c]' });
+  });
+
+  it('handles a trailing escape character', () => {
+    expect(parsePartialJson('{"name":"Blade","quote":"He said \\')).toEqual({ name: 'Blade' });
+  });
+
+  it('returns an empty object for just an opening brace', () => {
+    expect(parsePartialJson('{')).toEqual({});
+  });
+});
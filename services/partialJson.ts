@@ -0,0 +1,88 @@
+/**
+ * Scan a JSON prefix and return the characters needed to close it
+ * (an open string quote plus any unclosed objects/arrays), or null if the
+ * prefix ends mid-escape and cannot be closed as-is.
+ */
+const getClosingSuffix = (text: string): string | null => {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (const char of text) {
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') inString = true;
+    else if (char === '{') stack.push('}');
+    else if (char === '[') stack.push(']');
+    else if (char === '}' || char === ']') stack.pop();
+  }
+
+  if (escaped) return null;
+  return (inString ? '"' : '') + stack.reverse().join('');
+};
+
+/**
+ * Positions at which a truncated document can be cut back to its last
+ * complete member: just before each top-level-of-container comma, and just
+ * after each opening brace/bracket. Returned from last to first.
+ */
+const getCutPoints = (text: string): number[] => {
+  const cuts: number[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') inString = true;
+    else if (char === ',') cuts.push(i);
+    else if (char === '{' || char === '[') cuts.push(i + 1);
+  }
+
+  return cuts.reverse();
+};
+
+const tryParse = (text: string): unknown | undefined => {
+  const suffix = getClosingSuffix(text);
+  if (suffix === null) return undefined;
+  try {
+    return JSON.parse(text + suffix);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Best-effort parse of an incomplete JSON document, as produced by a
+ * streaming model response. Open strings are kept (so long descriptions
+ * appear progressively); a dangling key, partial literal or partial number
+ * is dropped. Returns undefined when nothing usable has arrived yet.
+ */
+export const parsePartialJson = (text: string): unknown | undefined => {
+  const trimmed = text.trim();
+  if (!trimmed) return undefined;
+
+  const direct = tryParse(trimmed);
+  if (direct !== undefined) return direct;
+
+  for (const cut of getCutPoints(trimmed)) {
+    const parsed = tryParse(trimmed.slice(0, cut));
+    if (parsed !== undefined) return parsed;
+  }
+  return undefined;
+};
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  addPartyMember,
+  canTargetUseItemType,
+  canUseItemType,
+  findAttunementClasses,
+  findClass,
+  getPartyClasses,
+  getTargetMembers,
+  loadParty,
+  removePartyMember,
+  MAX_PARTY_SIZE,
+  PARTY_KEY,
+} from './partyService';
+import { PartyMember } from '../types';
+
+const member = (name: string, className: string, level = 5): PartyMember => ({ name, className, level, notes: '' });
+
+describe('party', () => {
+  beforeEach(() => {
+    localStorage.removeItem(PARTY_KEY);
+  });
+
+  it('persists added characters, trimmed', () => {
+    addPartyMember({ name: ' Thalia ', className: 'Wizard ', level: 7, notes: ' Loves fire. ' });
+
+    expect(loadParty()).toEqual([{ name: 'Thalia', className: 'Wizard', level: 7, notes: 'Loves fire.' }]);
+    expect(removePartyMember('Thalia')).toEqual([]);
+  });
+
+  it('refuses bad levels, duplicate names and a full party', () => {
+    expect(() => addPartyMember(member('Thalia', 'Wizard', 0))).toThrow(/Level/);
+    expect(() => addPartyMember(member('Thalia', 'Wizard', 2.5))).toThrow(/Level/);
+    expect(() => addPartyMember(member(' ', 'Wizard'))).toThrow(/name/);
+
+    addPartyMember(member('Thalia', 'Wizard'));
+    expect(() => addPartyMember(member('THALIA', 'Rogue'))).toThrow(/already in the party/);
+
+    for (let i = 1; i < MAX_PARTY_SIZE; i++) addPartyMember(member(`Hero ${i}`, 'Fighter'));
+    expect(() => addPartyMember(member('One Too Many', 'Bard'))).toThrow(/at most/);
+  });
+
+  it('ignores corrupted saved data', () => {
+    localStorage.setItem(PARTY_KEY, '{not json');
+    expect(loadParty()).toEqual([]);
+
+    localStorage.setItem(PARTY_KEY, JSON.stringify([{ name: 'Thalia', className: 'Wizard', level: 3 }, { name: 42 }]));
+    expect(loadParty()).toEqual([member('Thalia', 'Wizard', 3)]);
+  });
+});
+
+describe('proficiency', () => {
+  it('recognises subclasses and leaves homebrew classes unknown', () => {
+    expect(findClass('Wizard (Evoker)')).toBe('Wizard');
+    expect(findClass('Blood Hunter')).toBeUndefined();
+  });
+
+  it('checks weapon and armor proficiencies by class', () => {
+    const wizard = member('Thalia', 'Wizard');
+    expect(canUseItemType(wizard, 'Weapon (Quarterstaff)')).toBe(true);
+    expect(canUseItemType(wizard, 'Weapon (Greatsword)')).toBe(false);
+    expect(canUseItemType(wizard, 'Armor (Light)')).toBe(false);
+    expect(canUseItemType(wizard, 'Wondrous Item')).toBe(true);
+
+    const rogue = member('Vex', 'Rogue');
+    expect(canUseItemType(rogue, 'Weapon (Rapier)')).toBe(true);
+    expect(canUseItemType(rogue, 'Weapon (Greataxe)')).toBe(false);
+    expect(canUseItemType(member('Brom', 'Cleric'), 'Shield')).toBe(true);
+    expect(canUseItemType(member('Kai', 'Blood Hunter'), 'Armor (Heavy)')).toBe(true);
+  });
+
+  it('targets one character, or the party when none is named', () => {
+    const party = [member('Thalia', 'Wizard'), member('Brom', 'Fighter')];
+
+    expect(getTargetMembers({ members: party, character: 'Brom' })).toEqual([party[1]]);
+    expect(getTargetMembers({ members: party, character: 'Gone' })).toEqual(party);
+    expect(canTargetUseItemType({ members: party }, 'Armor (Heavy)')).toBe(true);
+    expect(canTargetUseItemType({ members: party, character: 'Thalia' }, 'Armor (Heavy)')).toBe(false);
+    expect(getPartyClasses([...party, member('Zed', 'wizard')])).toEqual(['Fighter', 'Wizard']);
+  });
+});
+
+describe('findAttunementClasses', () => {
+  it('finds the classes an attunement restriction names', () => {
+    expect(findAttunementClasses('Staff (requires attunement by a sorcerer, warlock, or wizard)')).toEqual([
+      'Sorcerer',
+      'Warlock',
+      'Wizard',
+    ]);
+    expect(findAttunementClasses('Requires attunement by a cleric. Also by a bard, later.')).toEqual(['Cleric']);
+  });
+
+  it('ignores restrictions that name no class', () => {
+    expect(findAttunementClasses('Requires attunement by a spellcaster')).toEqual([]);
+    expect(findAttunementClasses('Requires attunement')).toEqual([]);
+  });
+});
@@ -0,0 +1,191 @@
+import { PartyMember, PartyTarget } from '../types';
+import {
+  SIMPLE_MELEE_WEAPONS,
+  SIMPLE_RANGED_WEAPONS,
+  MARTIAL_MELEE_WEAPONS,
+  MARTIAL_RANGED_WEAPONS,
+} from '../constants';
+
+export const PARTY_KEY = 'arcane-forge-party';
+
+// Fired on window whenever the party is saved, so every open form picks it up
+export const PARTY_CHANGE_EVENT = 'arcane-forge-party-change';
+
+export const MAX_PARTY_SIZE = 8;
+export const MAX_MEMBER_NAME_LENGTH = 40;
+export const MAX_MEMBER_NOTES_LENGTH = 200;
+export const MAX_CHARACTER_LEVEL = 20;
+
+// weapons: 'simple', 'martial' or single weapon names; armor: 'Light', 'Medium', 'Heavy' or 'Shield'
+interface ClassProficiencies {
+  weapons: string[];
+  armor: string[];
+}
+
+const CASTER_WEAPONS = ['Dagger', 'Dart', 'Sling', 'Quarterstaff', 'Light Crossbow'];
+const FINESSE_WEAPONS = ['Hand Crossbow', 'Longsword', 'Rapier', 'Shortsword'];
+
+// Starting proficiencies of the Player's Handbook classes
+const CLASS_PROFICIENCIES: Record<string, ClassProficiencies> = {
+  Artificer: { weapons: ['simple'], armor: ['Light', 'Medium', 'Shield'] },
+  Barbarian: { weapons: ['simple', 'martial'], armor: ['Light', 'Medium', 'Shield'] },
+  Bard: { weapons: ['simple', ...FINESSE_WEAPONS], armor: ['Light'] },
+  Cleric: { weapons: ['simple'], armor: ['Light', 'Medium', 'Shield'] },
+  Druid: {
+    weapons: ['Club', 'Dagger', 'Dart', 'Javelin', 'Mace', 'Quarterstaff', 'Scimitar', 'Sickle', 'Sling', 'Spear'],
+    armor: ['Light', 'Medium', 'Shield'],
+  },
+  Fighter: { weapons: ['simple', 'martial'], armor: ['Light', 'Medium', 'Heavy', 'Shield'] },
+  Monk: { weapons: ['simple', 'Shortsword'], armor: [] },
+  Paladin: { weapons: ['simple', 'martial'], armor: ['Light', 'Medium', 'Heavy', 'Shield'] },
+  Ranger: { weapons: ['simple', 'martial'], armor: ['Light', 'Medium', 'Shield'] },
+  Rogue: { weapons: ['simple', ...FINESSE_WEAPONS], armor: ['Light'] },
+  Sorcerer: { weapons: CASTER_WEAPONS, armor: [] },
+  Warlock: { weapons: ['simple'], armor: ['Light'] },
+  Wizard: { weapons: CASTER_WEAPONS, armor: [] },
+};
+
+export const PARTY_CLASSES = Object.keys(CLASS_PROFICIENCIES);
+
+const WEAPON_PATTERN = /^Weapon \((.+)\)$/;
+const ARMOR_PATTERN = /^Armor \((Light|Medium|Heavy)\)$/;
+
+const weaponName = (type: string) => type.match(WEAPON_PATTERN)?.[1];
+const SIMPLE_WEAPONS = [...SIMPLE_MELEE_WEAPONS, ...SIMPLE_RANGED_WEAPONS].map(weaponName);
+const MARTIAL_WEAPONS = [...MARTIAL_MELEE_WEAPONS, ...MARTIAL_RANGED_WEAPONS].map(weaponName);
+
+const namesClass = (text: string, className: string) => new RegExp(`\\b${className}`, 'i').test(text);
+
+/**
+ * The Player's Handbook class a character's class text names, e.g. "Wizard"
+ * for "Wizard (Evoker)". Undefined for homebrew or other systems' classes.
+ */
+export const findClass = (className: string): string | undefined =>
+  PARTY_CLASSES.find((known) => namesClass(className, known));
+
+const isMember = (value: unknown): value is PartyMember =>
+  typeof value === 'object' && value !== null
+  && typeof (value as any).name === 'string' && (value as any).name.trim().length > 0
+  && typeof (value as any).className === 'string'
+  && typeof (value as any).level === 'number';
+
+/**
+ * Read the saved party. Missing or corrupted data yields an empty party
+ * rather than an error, so a bad entry never blocks the form.
+ */
+export const loadParty = (): PartyMember[] => {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+
+  try {
+    const raw = window.localStorage.getItem(PARTY_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter(isMember).map((member) => ({ ...member, notes: typeof member.notes === 'string' ? member.notes : '' }))
+      : [];
+  } catch (e) {
+    console.warn('Failed to read the party, starting empty.', e);
+    return [];
+  }
+};
+
+export const saveParty = (members: PartyMember[]): void => {
+  window.localStorage.setItem(PARTY_KEY, JSON.stringify(members));
+  window.dispatchEvent(new Event(PARTY_CHANGE_EVENT));
+};
+
+/**
+ * Add a character to the party. Throws if the name is empty, too long or
+ * taken, the class is missing, the level is out of range, or the party is full.
+ */
+export const addPartyMember = (member: PartyMember): PartyMember[] => {
+  const name = member.name.trim();
+  const className = member.className.trim();
+  if (!name) {
+    throw new Error('Give the character a name.');
+  }
+  if (name.length > MAX_MEMBER_NAME_LENGTH) {
+    throw new Error(`Names can be at most ${MAX_MEMBER_NAME_LENGTH} characters.`);
+  }
+  if (!className) {
+    throw new Error('Give the character a class.');
+  }
+  if (!Number.isInteger(member.level) || member.level < 1 || member.level > MAX_CHARACTER_LEVEL) {
+    throw new Error(`Level must be a whole number from 1 to ${MAX_CHARACTER_LEVEL}.`);
+  }
+
+  const party = loadParty();
+  if (party.length >= MAX_PARTY_SIZE) {
+    throw new Error(`A party can have at most ${MAX_PARTY_SIZE} characters.`);
+  }
+  if (party.some((existing) => existing.name.toLowerCase() === name.toLowerCase())) {
+    throw new Error(`"${name}" is already in the party.`);
+  }
+
+  const updated = [
+    ...party,
+    { name, className: className.slice(0, MAX_MEMBER_NAME_LENGTH), level: member.level, notes: member.notes.trim().slice(0, MAX_MEMBER_NOTES_LENGTH) },
+  ];
+  saveParty(updated);
+  return updated;
+};
+
+export const removePartyMember = (name: string): PartyMember[] => {
+  const updated = loadParty().filter((member) => member.name !== name);
+  saveParty(updated);
+  return updated;
+};
+
+/**
+ * The characters an item is for: the named character, or the whole party
+ * when no character is named (or the named one has since left).
+ */
+export const getTargetMembers = (target: PartyTarget): PartyMember[] => {
+  const character = target.members.filter((member) => member.name === target.character);
+  return character.length > 0 ? character : target.members;
+};
+
+/**
+ * Whether a character is proficient with an item type. Types that need no
+ * proficiency, and classes or weapons the forge doesn't know, always pass.
+ */
+export const canUseItemType = (member: PartyMember, type: string): boolean => {
+  const known = findClass(member.className);
+  if (!known) return true;
+  const proficiencies = CLASS_PROFICIENCIES[known];
+
+  const weapon = weaponName(type);
+  if (weapon) {
+    const category = SIMPLE_WEAPONS.includes(weapon) ? 'simple' : MARTIAL_WEAPONS.includes(weapon) ? 'martial' : null;
+    return !category || proficiencies.weapons.includes(category) || proficiencies.weapons.includes(weapon);
+  }
+
+  const armor = type === 'Shield' ? 'Shield' : type.match(ARMOR_PATTERN)?.[1];
+  return !armor || proficiencies.armor.includes(armor);
+};
+
+// Whether anyone the item is for can use an item of this type
+export const canTargetUseItemType = (target: PartyTarget, type: string): boolean =>
+  getTargetMembers(target).some((member) => canUseItemType(member, type));
+
+// The Player's Handbook classes played in the party, without repeats
+export const getPartyClasses = (members: PartyMember[]): string[] =>
+  PARTY_CLASSES.filter((known) => members.some((member) => findClass(member.className) === known));
+
+const ATTUNEMENT_PATTERN = /attunement by ([^.;:\n)]+)/gi;
+
+/**
+ * Classes named in "requires attunement by ..." phrases, e.g. ["Sorcerer",
+ * "Wizard"] for "requires attunement by a sorcerer or wizard". Restrictions
+ * that name no class ("by a spellcaster", "by a good creature") yield none.
+ */
+export const findAttunementClasses = (text: string): string[] => {
+  const named: string[] = [];
+  for (const match of text.matchAll(ATTUNEMENT_PATTERN)) {
+    PARTY_CLASSES.forEach((known) => {
+      if (namesClass(match[1], known) && !named.includes(known)) named.push(known);
+    });
+  }
+  return named;
+};
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { priceItem, applySuggestedPrice, isConsumable } from './pricingService';
+import { ItemData } from '../types';
+
+const makeItem = (overrides: Partial<ItemData> = {}, effects: string[] = []): ItemData => ({
+  name: 'Test Item',
+  type: 'Wondrous Item',
+  rarity: 'Rare',
+  style: 'Oil Painting',
+  theme: 'None',
+  powerBand: 'Standard',
+  description: '',
+  mechanics: { attunement: false, effects, activation: '', scaling: '' },
+  curse: '',
+  plot_hook: '',
+  price_gp: 123456,
+  ...overrides,
+});
+
+describe('priceItem', () => {
+  it('uses the rarity band for a plain item', () => {
+    expect(priceItem(makeItem())).toEqual({
+      min: 500,
+      max: 5000,
+      suggested: 2500,
+      base: 2500,
+      baseLabel: 'Rare',
+      breakdown: [],
+    });
+  });
+
+  it('ignores the price the model invented', () => {
+    expect(priceItem(makeItem({ price_gp: 1 })).suggested).toBe(priceItem(makeItem({ price_gp: 99999 })).suggested);
+  });
+
+  it('scales with the power band', () => {
+    expect(priceItem(makeItem({ powerBand: 'Low Magic' })).suggested).toBeLessThan(2500);
+    expect(priceItem(makeItem({ powerBand: 'Mythic' })).suggested).toBe(6300);
+  });
+
+  it('halves consumables and discounts attunement and curses', () => {
+    const estimate = priceItem(
+      makeItem({ type: 'Potion', curse: 'Drinkers forget their name.', mechanics: { attunement: true, effects: [], activation: '', scaling: '' } })
+    );
+
+    expect(estimate.breakdown.map((a) => a.label)).toEqual(['Consumable', 'Requires attunement', 'Cursed']);
+    expect(estimate.suggested).toBe(680);
+  });
+
+  it.each(['None', 'N/A', 'No curse.'])('does not discount a "%s" curse', (curse) => {
+    expect(priceItem(makeItem({ curse })).breakdown.map((a) => a.label)).not.toContain('Cursed');
+  });
+
+  it('adds value for charges on permanent items only', () => {
+    const effects = ['The wand has 7 charges and regains 1d6+1 daily at dawn.'];
+
+    expect(priceItem(makeItem({ type: 'Wand' }, effects)).breakdown).toEqual([{ label: '7 charges', multiplier: 1.21 }]);
+    expect(priceItem(makeItem({ type: 'Scroll' }, effects)).breakdown.map((a) => a.label)).toEqual(['Consumable']);
+  });
+
+  it('rounds to two significant figures', () => {
+    const estimate = priceItem(makeItem({ rarity: 'Very Rare', powerBand: 'High Magic', mechanics: { attunement: true, effects: [], activation: '', scaling: '' } }));
+    expect(estimate.suggested).toBe(34000);
+  });
+
+  it('uses the price table of the item\'s game system', () => {
+    expect(priceItem(makeItem({ gameSystem: 'dnd5e-2024' })).suggested).toBe(4000);
+  });
+
+  it('prices Pathfinder items by item level, without attunement', () => {
+    const estimate = priceItem(
+      makeItem({ gameSystem: 'pf2e', rarity: 'Uncommon', level: 5, mechanics: { attunement: true, effects: [], activation: '', scaling: '' } })
+    );
+
+    expect(estimate).toMatchObject({ min: 100, max: 250, suggested: 160, baseLabel: 'Item 5', breakdown: [] });
+    expect(priceItem(makeItem({ gameSystem: 'pf2e', type: 'Elixir', level: 5 })).suggested).toBe(32);
+  });
+});
+
+describe('applySuggestedPrice', () => {
+  it('returns a copy with the suggested price', () => {
+    const item = makeItem();
+    const priced = applySuggestedPrice(item);
+
+    expect(priced.price_gp).toBe(2500);
+    expect(item.price_gp).toBe(123456);
+  });
+});
+
+describe('isConsumable', () => {
+  it('recognises potions, scrolls and ammunition', () => {
+    expect(isConsumable('Potion')).toBe(true);
+    expect(isConsumable('Scroll')).toBe(true);
+    expect(isConsumable('Ammunition (Arrows)')).toBe(true);
+    expect(isConsumable('Weapon (Longsword)')).toBe(false);
+  });
+});
@@ -0,0 +1,92 @@
+import { ItemData, PowerBand } from '../types';
+import { extractItemSignals } from './balanceAnalyzer';
+import { getGameSystem } from './gameSystems';
+import { getCurse } from './itemValidator';
+
+export interface PriceAdjustment {
+  label: string;
+  multiplier: number;
+}
+
+export interface PriceEstimate {
+  min: number;
+  max: number;
+  suggested: number;
+  base: number; // Suggested price for the rarity (or item level) before any adjustments
+  baseLabel: string;
+  breakdown: PriceAdjustment[];
+}
+
+const POWER_BAND_MULTIPLIERS: Record<PowerBand, number> = {
+  'Low Magic': 0.75,
+  'Standard': 1,
+  'High Magic': 1.5,
+  'Mythic': 2.5,
+};
+
+// Single-use items sell for less; how much less is up to the game system
+const CONSUMABLE_PATTERN = /^(potion|scroll|ammunition|elixir|oil|talisman)\b/i;
+const CURSE_MULTIPLIER = 0.6;
+const PRICE_PER_CHARGE = 0.03;
+const MAX_PRICED_CHARGES = 20;
+
+export const isConsumable = (type: string) => CONSUMABLE_PATTERN.test(type.trim());
+
+// Two significant figures, so suggestions read like shop prices (2,537 -> 2,500)
+const roundPrice = (value: number) => Math.max(1, Number(value.toPrecision(2)));
+
+/**
+ * Price an item from its game system's base price (by rarity, or item level
+ * in Pathfinder), power band, attunement, consumable type, charges and curse.
+ * The same item always gets the same price, so it is safe to re-run over
+ * items that are already saved.
+ */
+export const priceItem = (itemData: ItemData): PriceEstimate => {
+  const { pricing } = getGameSystem(itemData.gameSystem);
+  const base = pricing.basePrice(itemData);
+  const breakdown: PriceAdjustment[] = [];
+
+  const powerBand = (itemData.powerBand || 'Standard') as PowerBand;
+  const bandMultiplier = POWER_BAND_MULTIPLIERS[powerBand] ?? 1;
+  if (bandMultiplier !== 1) {
+    breakdown.push({ label: `${powerBand} resonance`, multiplier: bandMultiplier });
+  }
+
+  const consumable = isConsumable(itemData.type || '');
+  if (consumable) {
+    breakdown.push({ label: 'Consumable', multiplier: pricing.consumableMultiplier });
+  }
+
+  if (itemData.mechanics?.attunement && pricing.attunementMultiplier !== 1) {
+    breakdown.push({ label: 'Requires attunement', multiplier: pricing.attunementMultiplier });
+  }
+
+  // Charges only add value to items that keep them between uses
+  const charges = Math.min(extractItemSignals(itemData).charges, MAX_PRICED_CHARGES);
+  if (charges > 0 && !consumable) {
+    breakdown.push({ label: `${charges} charges`, multiplier: 1 + charges * PRICE_PER_CHARGE });
+  }
+
+  if (getCurse(itemData)) {
+    breakdown.push({ label: 'Cursed', multiplier: CURSE_MULTIPLIER });
+  }
+
+  const multiplier = breakdown.reduce((total, adjustment) => total * adjustment.multiplier, 1);
+
+  return {
+    min: roundPrice(base.min * multiplier),
+    max: roundPrice(base.max * multiplier),
+    suggested: roundPrice(base.suggested * multiplier),
+    base: base.suggested,
+    baseLabel: pricing.baseLabel(itemData),
+    breakdown,
+  };
+};
+
+/**
+ * Return a copy of the item with price_gp set to the suggested price.
+ */
+export const applySuggestedPrice = (itemData: ItemData): ItemData => ({
+  ...itemData,
+  price_gp: priceItem(itemData).suggested,
+});
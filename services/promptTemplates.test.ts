@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  BUILTIN_PROMPT_TEMPLATE,
+  BUILTIN_PROMPT_TEMPLATE_ID,
+  findUnknownVariables,
+  getActivePromptTemplate,
+  loadPromptTemplates,
+  removePromptTemplate,
+  renderPromptTemplate,
+  savePromptTemplate,
+  setActivePromptTemplate,
+  ITEM_PROMPT_VERSION,
+  PROMPT_TEMPLATES_KEY,
+  PROMPT_VARIABLES,
+  PromptVariables,
+} from './promptTemplates';
+
+const draft = (name: string, systemInstruction = 'Forge a {{rarity}} {{type}}.') => ({
+  name,
+  systemInstruction,
+  prompt: BUILTIN_PROMPT_TEMPLATE.prompt,
+  descriptions: BUILTIN_PROMPT_TEMPLATE.descriptions,
+});
+
+const variables = Object.fromEntries(Object.keys(PROMPT_VARIABLES).map((name) => [name, ''])) as PromptVariables;
+
+describe('renderPromptTemplate', () => {
+  it('fills in known variables and leaves unknown placeholders as written', () => {
+    const rendered = renderPromptTemplate('A {{ rarity }} {{type}} of {{nonsense}}.', { ...variables, rarity: 'Rare', type: 'Ring' });
+
+    expect(rendered).toBe('A Rare Ring of {{nonsense}}.');
+    expect(findUnknownVariables('{{nonsense}} {{rarity}} {{nonsense}} {{other}}')).toEqual(['nonsense', 'other']);
+  });
+
+  it('never expands placeholders inside values', () => {
+    expect(renderPromptTemplate('{{loreSeedSection}}', { ...variables, loreSeedSection: '{{systemRules}}', systemRules: 'leak' }))
+      .toBe('{{systemRules}}');
+  });
+
+  it('uses only known variables in the built-in template', () => {
+    const { systemInstruction, prompt, descriptions } = BUILTIN_PROMPT_TEMPLATE;
+    expect(findUnknownVariables([systemInstruction, prompt, ...Object.values(descriptions)].join('\n'))).toEqual([]);
+    expect(BUILTIN_PROMPT_TEMPLATE.version).toBe(ITEM_PROMPT_VERSION);
+  });
+});
+
+describe('prompt templates', () => {
+  beforeEach(() => {
+    localStorage.removeItem(PROMPT_TEMPLATES_KEY);
+  });
+
+  it('uses the built-in template until another is chosen', () => {
+    expect(getActivePromptTemplate()).toBe(BUILTIN_PROMPT_TEMPLATE);
+
+    const saved = savePromptTemplate(draft('Grim Tweaks'));
+    setActivePromptTemplate(saved.id);
+
+    expect(getActivePromptTemplate()).toMatchObject({ id: 'grim-tweaks', version: expect.stringMatching(/^grim-tweaks-r1-[0-9a-f]{8}$/) });
+    expect(loadPromptTemplates().map((template) => template.id)).toEqual([BUILTIN_PROMPT_TEMPLATE_ID, 'grim-tweaks']);
+  });
+
+  it('versions each saved edit, but not unchanged saves', () => {
+    const first = savePromptTemplate(draft('Grim Tweaks'));
+    const same = savePromptTemplate({ ...draft('Grim Tweaks'), id: first.id });
+    const edited = savePromptTemplate({ ...draft('Grim Tweaks', 'Forge a grim {{type}}.'), id: first.id });
+
+    expect(same.version).toBe(first.version);
+    expect(edited).toMatchObject({ id: 'grim-tweaks', revision: 2, version: expect.stringMatching(/^grim-tweaks-r2-[0-9a-f]{8}$/) });
+    expect(loadPromptTemplates()).toHaveLength(2);
+  });
+
+  it('never reissues a version for different text after a delete', () => {
+    const first = savePromptTemplate(draft('Grim Tweaks'));
+    removePromptTemplate(first.id);
+    const recreated = savePromptTemplate(draft('Grim Tweaks', 'Forge a grim {{type}}.'));
+
+    expect(recreated).toMatchObject({ id: first.id, revision: 1 });
+    expect(recreated.version).not.toBe(first.version);
+  });
+
+  it('refuses unknown variables, empty text and taken names', () => {
+    expect(() => savePromptTemplate(draft('Typo', 'Forge a {{rarty}}.'))).toThrow(/unknown variable \{\{rarty\}\}/);
+    expect(() => savePromptTemplate(draft('Empty', ' '))).toThrow(/cannot be empty/);
+    expect(() => savePromptTemplate(draft('built-in'))).toThrow(/already exists/);
+
+    savePromptTemplate(draft('Grim Tweaks'));
+    expect(() => savePromptTemplate(draft('GRIM TWEAKS'))).toThrow(/already exists/);
+  });
+
+  it('goes back to the built-in template when the active one is removed', () => {
+    const saved = savePromptTemplate(draft('Grim Tweaks'));
+    setActivePromptTemplate(saved.id);
+    removePromptTemplate(saved.id);
+
+    expect(getActivePromptTemplate()).toBe(BUILTIN_PROMPT_TEMPLATE);
+    expect(() => setActivePromptTemplate(saved.id)).toThrow(/no longer exists/);
+  });
+
+  it('ignores corrupted saved data', () => {
+    localStorage.setItem(PROMPT_TEMPLATES_KEY, '{not json');
+    expect(loadPromptTemplates()).toEqual([BUILTIN_PROMPT_TEMPLATE]);
+  });
+});
@@ -0,0 +1,346 @@
+import { PromptSchemaDescriptions, PromptTemplate } from '../types';
+import { hashString } from './hashUtils';
+
+// Bump whenever the built-in template or the sections it interpolates change output, so provenance stays meaningful
+export const ITEM_PROMPT_VERSION = 'item-v10';
+
+export const PROMPT_TEMPLATES_KEY = 'arcane-forge-prompt-templates';
+
+// Fired on window whenever the templates or the active template change, so every open editor picks them up
+export const PROMPT_TEMPLATE_CHANGE_EVENT = 'arcane-forge-prompt-template-change';
+
+export const BUILTIN_PROMPT_TEMPLATE_ID = 'builtin';
+
+export const MAX_PROMPT_TEMPLATES = 10;
+export const MAX_TEMPLATE_NAME_LENGTH = 40;
+export const MAX_TEMPLATE_TEXT_LENGTH = 20000;
+
+// Everything a template can interpolate, with what it holds; built from the generation settings
+export const PROMPT_VARIABLES = {
+  systemName: 'The game system as the model should know it, e.g. "Dungeons & Dragons 5th Edition"',
+  systemLabel: 'Short game system name, e.g. "D&D 5e"',
+  systemRules: 'The game system\'s rules for magic items',
+  rarity: 'Requested rarity',
+  type: 'Requested item type',
+  theme: 'Requested theme, or a note that there is none',
+  style: 'Art style of the image',
+  powerBand: 'Requested power band',
+  includeCurse: '"true" or "false"',
+  includePlotHook: '"true" or "false"',
+  sentient: '"true" or "false"',
+  evolving: '"true" or "false"',
+  pricingGuide: 'The game system\'s pricing reference',
+  cardNotes: 'The game system\'s notes on formatting the item card',
+  homebrewSection: 'Descriptions of homebrew themes and item types, if used',
+  sentienceSection: 'Sentience rules, if requested',
+  evolutionSection: 'Evolution stage rules, if requested',
+  artifactSection: 'Artifact property rules or rolled properties, if requested',
+  partySection: 'The party the item is for, if chosen',
+  languageSection: 'Rules for writing in another language, if requested',
+  loreSeedSection: 'The delimited, sanitized lore seed, if given',
+  campaignSection: 'The delimited, sanitized campaign world bible, if chosen',
+} as const;
+
+export type PromptVariable = keyof typeof PROMPT_VARIABLES;
+export type PromptVariables = Record<PromptVariable, string>;
+
+const BUILTIN_SYSTEM_INSTRUCTION = `You are a magic-item generator for {{systemName}}.
+Your job is to create fully original, lore-rich magic items and produce specific outputs.
+
+Follow all user choices precisely.
+{{systemRules}}
+
+Inputs provided:
+- Game System: {{systemLabel}}
+- Rarity: {{rarity}}
+- Item Type: {{type}} (This is the actual type of magic item - weapon, armor, wondrous item, etc. NOT a visual style)
+- Theme: {{theme}}
+- Visual Art Style: {{style}} (This is ONLY for the image generation visual style - oil painting, watercolor, etc. It does NOT affect the item type or description)
+- Power Band: {{powerBand}}
+- Include Curse: {{includeCurse}}
+- Include Plot Hook: {{includePlotHook}}
+- Sentient: {{sentient}}
+- Evolving: {{evolving}}
+
+IMPORTANT: The "Visual Art Style" ({{style}}) is ONLY for how the image should be rendered visually.
+The item itself must be a {{type}}, not a painting or artwork.
+For example, if the type is "Wondrous Item" and style is "Oil Painting", create a wondrous item (like an amulet, orb, or artifact)
+that will be DEPICTED in an oil painting style, not an item that IS a painting.
+
+POWER BAND GUIDELINES - The Power Band ({{powerBand}}) MUST significantly influence the item's power level and mechanics:
+- "Low Magic": Items should be subtle, limited in scope, and have minor effects. Suitable for low-level campaigns. Effects should be situational or have significant limitations.
+- "Standard": Items should match typical {{systemLabel}} power levels for the given rarity. Balanced and appropriate for most campaigns.
+- "High Magic": Items should be more powerful than standard for their rarity. Effects should be more versatile, frequent, or impactful. Suitable for high-magic campaigns.
+- "Mythic": Items should be exceptionally powerful, even for their rarity. Effects should be dramatic, game-changing, or have minimal limitations. Suitable for epic-level campaigns.
+
+The Power Band should affect: damage/effect scaling, number of uses per day, range/duration of effects, versatility of abilities, and overall impact on gameplay. Higher power bands should feel more impressive and impactful.
+
+{{homebrewSection}}
+{{sentienceSection}}
+{{evolutionSection}}
+{{artifactSection}}
+{{partySection}}
+{{languageSection}}
+Price_gp is recalculated by the forge's pricing rules; give a rough estimate inspired by {{pricingGuide}}.
+Tone: evocative, immersive, but mechanically precise.
+{{loreSeedSection}}
+{{campaignSection}}`;
+
+const BUILTIN_DESCRIPTIONS: PromptSchemaDescriptions = {
+  powerBand: 'The power band/resonance level: {{powerBand}}',
+  effectDetails: 'One entry per item in effects, in the same order, with the numbers that effect uses. Fill in only the fields that apply.',
+  effectName: 'Short name of the effect, e.g. "Flame Tongue" or "Ward of Thorns"',
+  effectDice: 'Dice expression rolled by the effect, e.g. "2d6+1". Omit if none.',
+  effectDamageType: 'Damage type, e.g. "fire". Omit if the effect deals no damage.',
+  effectRange: 'e.g. "Self", "Touch", "60 feet"',
+  effectDuration: 'e.g. "Instantaneous", "1 minute", "Concentration, up to 10 minutes"',
+  effectCharges: 'Charges or uses the effect draws on',
+  effectRecharge: 'When uses return, e.g. "dawn", "short rest", "1d6+1 at dawn"',
+  sentienceCommunication: 'How the item communicates: emotions, speech (and languages), or telepathy',
+  sentienceConflict: 'How the item behaves when its will conflicts with its wielder',
+  stages: 'The stages the item grows through, in unlock order, starting with the stage it is found in',
+  stageName: 'e.g. "Dormant", "Awakened", "Exalted"',
+  stageUnlock: 'What the wielder must do or reach to unlock this stage',
+  stageEffects: 'Effects this stage adds to those of earlier stages',
+  artifactMinorBeneficial: 'Two minor beneficial properties',
+  artifactMajorBeneficial: 'One or two major beneficial properties',
+  artifactMinorDetrimental: 'One or two minor detrimental properties',
+  artifactMajorDetrimental: 'One major detrimental property',
+  artifactDestruction: 'The single, difficult way the artifact can be destroyed',
+  imagePrompt: 'A concise, concrete description for image generation. Describe the {{type}} itself (not a painting of it). The visual style "{{style}}" will be applied automatically - do not mention the style in the prompt. Focus on the item\'s appearance, materials, magical effects visible, and composition. CRITICAL: The image must contain NO TEXT, NO WORDS, NO LETTERS, NO TITLES, and NO WRITTEN LABELS of any kind. Only the visual depiction of the item itself.',
+  itemCard: 'A player-facing, well-formatted text description of the item. MUST include: name, rarity, type, flavor description, ALL effects from the mechanics.effects array (formatted as a clear list), and activation method. Only include scaling information if the item actually scales with character level (if scaling is \'None\' or similar, omit it entirely). Do NOT include price in the card text. Format effects as bullet points or numbered list for clarity. {{cardNotes}}',
+};
+
+export const DESCRIPTION_LABELS: Record<keyof PromptSchemaDescriptions, string> = {
+  powerBand: 'Power Band',
+  effectDetails: 'Effect Details',
+  effectName: 'Effect Name',
+  effectDice: 'Effect Dice',
+  effectDamageType: 'Effect Damage Type',
+  effectRange: 'Effect Range',
+  effectDuration: 'Effect Duration',
+  effectCharges: 'Effect Charges',
+  effectRecharge: 'Effect Recharge',
+  sentienceCommunication: 'Sentience Communication',
+  sentienceConflict: 'Sentience Conflict',
+  stages: 'Stages',
+  stageName: 'Stage Name',
+  stageUnlock: 'Stage Unlock',
+  stageEffects: 'Stage Effects',
+  artifactMinorBeneficial: 'Artifact Minor Beneficial',
+  artifactMajorBeneficial: 'Artifact Major Beneficial',
+  artifactMinorDetrimental: 'Artifact Minor Detrimental',
+  artifactMajorDetrimental: 'Artifact Major Detrimental',
+  artifactDestruction: 'Artifact Destruction',
+  imagePrompt: 'Image Prompt',
+  itemCard: 'Item Card',
+};
+
+export const BUILTIN_PROMPT_TEMPLATE: PromptTemplate = {
+  id: BUILTIN_PROMPT_TEMPLATE_ID,
+  name: 'Built-in',
+  version: ITEM_PROMPT_VERSION,
+  revision: 1,
+  systemInstruction: BUILTIN_SYSTEM_INSTRUCTION,
+  prompt: 'Generate a magic item based on the system instructions. Return JSON data only.',
+  descriptions: BUILTIN_DESCRIPTIONS,
+  updatedAt: '',
+};
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_]\w*)\s*\}\}/g;
+
+const isVariable = (name: string): name is PromptVariable => Object.prototype.hasOwnProperty.call(PROMPT_VARIABLES, name);
+
+/**
+ * Fill in a template's {{variable}} placeholders. Placeholders that name no
+ * variable are left as written, so they stand out in a preview. Values are
+ * inserted in one pass: braces inside a value are never expanded.
+ */
+export const renderPromptTemplate = (text: string, variables: PromptVariables): string =>
+  text.replace(VARIABLE_PATTERN, (placeholder, name: string) => (isVariable(name) ? variables[name] : placeholder));
+
+// Placeholders in the text that name no variable, without repeats
+export const findUnknownVariables = (text: string): string[] => {
+  const unknown: string[] = [];
+  for (const match of text.matchAll(VARIABLE_PATTERN)) {
+    if (!isVariable(match[1]) && !unknown.includes(match[1])) unknown.push(match[1]);
+  }
+  return unknown;
+};
+
+interface StoredTemplates {
+  activeId: string;
+  templates: PromptTemplate[];
+}
+
+const isTemplate = (value: unknown): value is PromptTemplate =>
+  typeof value === 'object' && value !== null
+  && typeof (value as any).id === 'string' && (value as any).id !== BUILTIN_PROMPT_TEMPLATE_ID
+  && typeof (value as any).name === 'string'
+  && typeof (value as any).version === 'string'
+  && typeof (value as any).systemInstruction === 'string'
+  && typeof (value as any).prompt === 'string';
+
+// Descriptions missing from a saved template fall back to the built-in ones
+const normalizeTemplate = (template: PromptTemplate): PromptTemplate => ({
+  ...template,
+  revision: Number.isInteger(template.revision) ? template.revision : 1,
+  descriptions: { ...BUILTIN_DESCRIPTIONS, ...(typeof template.descriptions === 'object' ? template.descriptions : {}) },
+  updatedAt: typeof template.updatedAt === 'string' ? template.updatedAt : '',
+});
+
+const loadStored = (): StoredTemplates => {
+  const empty = { activeId: BUILTIN_PROMPT_TEMPLATE_ID, templates: [] };
+  if (typeof window === 'undefined') {
+    return empty;
+  }
+
+  try {
+    const raw = window.localStorage.getItem(PROMPT_TEMPLATES_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    const templates = Array.isArray(parsed?.templates) ? parsed.templates.filter(isTemplate).map(normalizeTemplate) : [];
+    const activeId = templates.some((template: PromptTemplate) => template.id === parsed?.activeId)
+      ? parsed.activeId
+      : BUILTIN_PROMPT_TEMPLATE_ID;
+    return { activeId, templates };
+  } catch (e) {
+    console.warn('Failed to read the prompt templates, using the built-in one.', e);
+    return empty;
+  }
+};
+
+const saveStored = (stored: StoredTemplates): void => {
+  window.localStorage.setItem(PROMPT_TEMPLATES_KEY, JSON.stringify(stored));
+  window.dispatchEvent(new Event(PROMPT_TEMPLATE_CHANGE_EVENT));
+};
+
+// The built-in template first, then the user's own
+export const loadPromptTemplates = (): PromptTemplate[] => [BUILTIN_PROMPT_TEMPLATE, ...loadStored().templates];
+
+/**
+ * The template generation uses. Falls back to the built-in template when
+ * none was chosen or the chosen one was removed.
+ */
+export const getActivePromptTemplate = (): PromptTemplate => {
+  const { activeId, templates } = loadStored();
+  return templates.find((template) => template.id === activeId) || BUILTIN_PROMPT_TEMPLATE;
+};
+
+export const setActivePromptTemplate = (id: string): void => {
+  const stored = loadStored();
+  if (id !== BUILTIN_PROMPT_TEMPLATE_ID && !stored.templates.some((template) => template.id === id)) {
+    throw new Error('That prompt template no longer exists.');
+  }
+  saveStored({ ...stored, activeId: id });
+};
+
+export interface PromptTemplateDraft {
+  id?: string; // Absent for a new template
+  name: string;
+  systemInstruction: string;
+  prompt: string;
+  descriptions: PromptSchemaDescriptions;
+}
+
+const DESCRIPTION_KEYS = Object.keys(DESCRIPTION_LABELS) as (keyof PromptSchemaDescriptions)[];
+
+// Everything a revision can change, in a fixed order for comparison
+const revisionContent = (template: Omit<PromptTemplateDraft, 'id'>) =>
+  JSON.stringify([template.name, template.systemInstruction, template.prompt, ...DESCRIPTION_KEYS.map((key) => template.descriptions[key])]);
+
+const slugify = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'template';
+
+/**
+ * Save a new template, or a new revision of an existing one. Every revision
+ * gets its own version, so items record exactly which wording forged them;
+ * saving unchanged text keeps the current revision. The version carries a
+ * hash of the wording, so a template deleted and recreated under the same
+ * name cannot reissue an old version for different text. Throws if the name is
+ * empty, too long or taken, a text is empty or too long, a placeholder names
+ * no variable, or a new template would exceed the limit.
+ */
+export const savePromptTemplate = (draft: PromptTemplateDraft): PromptTemplate => {
+  const name = draft.name.trim();
+  if (!name) {
+    throw new Error('Give the template a name.');
+  }
+  if (name.length > MAX_TEMPLATE_NAME_LENGTH) {
+    throw new Error(`Names can be at most ${MAX_TEMPLATE_NAME_LENGTH} characters.`);
+  }
+
+  const texts: [string, string][] = [
+    ['System instruction', draft.systemInstruction],
+    ['Prompt', draft.prompt],
+    ...DESCRIPTION_KEYS
+      .map((key): [string, string] => [`${DESCRIPTION_LABELS[key]} description`, draft.descriptions[key] ?? '']),
+  ];
+  texts.forEach(([label, text]) => {
+    if (!text.trim()) {
+      throw new Error(`${label} cannot be empty.`);
+    }
+    if (text.length > MAX_TEMPLATE_TEXT_LENGTH) {
+      throw new Error(`${label} can be at most ${MAX_TEMPLATE_TEXT_LENGTH} characters.`);
+    }
+    const unknown = findUnknownVariables(text);
+    if (unknown.length > 0) {
+      throw new Error(`${label} uses unknown ${unknown.length === 1 ? 'variable' : 'variables'} ${unknown.map((v) => `{{${v}}}`).join(', ')}.`);
+    }
+  });
+
+  const stored = loadStored();
+  const existing = stored.templates.find((template) => template.id === draft.id);
+  const nameTaken = [BUILTIN_PROMPT_TEMPLATE, ...stored.templates]
+    .some((template) => template !== existing && template.name.toLowerCase() === name.toLowerCase());
+  if (nameTaken) {
+    throw new Error(`A template named "${name}" already exists.`);
+  }
+  if (!existing && stored.templates.length >= MAX_PROMPT_TEMPLATES) {
+    throw new Error(`You can keep at most ${MAX_PROMPT_TEMPLATES} prompt templates.`);
+  }
+
+  const content = {
+    systemInstruction: draft.systemInstruction,
+    prompt: draft.prompt.trim(),
+    descriptions: { ...draft.descriptions },
+  };
+  if (existing && revisionContent({ name, ...content }) === revisionContent(existing)) {
+    return existing;
+  }
+
+  let id = existing?.id;
+  if (!id) {
+    const base = slugify(name);
+    id = base;
+    for (let n = 2; id === BUILTIN_PROMPT_TEMPLATE_ID || stored.templates.some((template) => template.id === id); n++) {
+      id = `${base}-${n}`;
+    }
+  }
+  const revision = existing ? existing.revision + 1 : 1;
+  const hash = hashString(revisionContent({ name, ...content })).toString(16).padStart(8, '0');
+  const saved: PromptTemplate = {
+    id,
+    name,
+    version: `${id}-r${revision}-${hash}`,
+    revision,
+    ...content,
+    updatedAt: new Date().toISOString(),
+  };
+
+  saveStored({
+    ...stored,
+    templates: existing
+      ? stored.templates.map((template) => (template.id === id ? saved : template))
+      : [...stored.templates, saved],
+  });
+  return saved;
+};
+
+// Remove a template; if it was the active one, generation goes back to the built-in template
+export const removePromptTemplate = (id: string): void => {
+  const stored = loadStored();
+  saveStored({
+    activeId: stored.activeId === id ? BUILTIN_PROMPT_TEMPLATE_ID : stored.activeId,
+    templates: stored.templates.filter((template) => template.id !== id),
+  });
+};
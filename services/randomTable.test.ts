@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('./geminiService', () => ({
+  generateMagicItemText: vi.fn(),
+}));
+
+vi.mock('./rateLimit', () => ({
+  waitForRateLimit: vi.fn(),
+}));
+
+import { buildTableRows, forgeTableItems, formatRange, rollTable, tableToCsv, tableToMarkdown } from './randomTable';
+import { generateMagicItemText } from './geminiService';
+import { waitForRateLimit } from './rateLimit';
+import { GenerationError } from './generationErrors';
+import { DEFAULT_SETTINGS } from '../constants';
+import { GeneratedContent, RandomTable, RandomTableEntry } from '../types';
+
+const entry = (name: string, weight = 1): RandomTableEntry => ({ name, rarity: 'Rare', type: 'Wand', weight });
+
+const table = (entries: RandomTableEntry[], die: RandomTable['die'] = 'd100'): RandomTable => ({ name: 'Temple Loot', die, entries });
+
+describe('buildTableRows', () => {
+  it('shares the faces out by weight and covers the whole die', () => {
+    const rows = buildTableRows(table([entry('Wand', 3), entry('Ring', 1)], 'd20'));
+    expect(rows.map(({ min, max }) => [min, max])).toEqual([[1, 15], [16, 20]]);
+  });
+
+  it('keeps at least one face per entry', () => {
+    const rows = buildTableRows(table([entry('Common', 1000), entry('Rare', 1)], 'd20'));
+    expect(rows[1]).toMatchObject({ min: 20, max: 20 });
+  });
+
+  it('refuses more entries than the die has faces', () => {
+    const entries = Array.from({ length: 21 }, (_, i) => entry(`Item ${i}`));
+    expect(() => buildTableRows(table(entries, 'd20'))).toThrow('A d20 table holds at most 20 items.');
+  });
+});
+
+describe('formatRange', () => {
+  it('pads d100 ranges and reads 100 as 00', () => {
+    const rows = buildTableRows(table([entry('Wand', 4), entry('Ring', 96)]));
+    expect(rows.map((row) => formatRange(row, 'd100'))).toEqual(['01–04', '05–00']);
+  });
+});
+
+describe('rollTable', () => {
+  it('finds the entry the roll lands on', () => {
+    const result = rollTable(table([entry('Wand', 3), entry('Ring', 1)], 'd20'), () => 0.8);
+    expect(result.roll).toBe(17);
+    expect(result.row.entry.name).toBe('Ring');
+  });
+
+  it('refuses to roll an empty table', () => {
+    expect(() => rollTable(table([]))).toThrow(/at least one item/);
+  });
+});
+
+describe('export', () => {
+  it('writes a Markdown table', () => {
+    expect(tableToMarkdown(table([entry('Wand | of Ash', 1)], 'd20'))).toBe([
+      '## Temple Loot',
+      '',
+      '| d20 | Magic Item | Rarity |',
+      '|:---:|---|---|',
+      '| 1–20 | Wand \\| of Ash | Rare Wand |',
+      '',
+    ].join('\n'));
+  });
+
+  it('quotes CSV cells and defuses formulas', () => {
+    const csv = tableToCsv(table([entry('Wand, "Ember"', 2), entry('=SUM(A1)', 2)], 'd20'));
+    expect(csv.split('\r\n')).toEqual([
+      'd20,Name,Rarity,Type,Weight',
+      '1–10,"Wand, ""Ember""",Rare,Wand,2',
+      "11–20,'=SUM(A1),Rare,Wand,2",
+      '',
+    ]);
+  });
+});
+
+describe('forgeTableItems', () => {
+  const content = (name: string): GeneratedContent => ({
+    itemData: { ...entry(name), style: '', theme: '', powerBand: 'Standard', description: '', mechanics: { attunement: false, effects: [], activation: '', scaling: '' }, curse: '', plot_hook: '', price_gp: 0 },
+    imagePrompt: '',
+    itemCard: '',
+  });
+
+  beforeEach(() => {
+    vi.mocked(generateMagicItemText).mockReset();
+    vi.mocked(waitForRateLimit).mockReset().mockResolvedValue();
+  });
+
+  it('forges the requested number of items with the batch settings', async () => {
+    vi.mocked(generateMagicItemText).mockImplementation(async (settings) => content(settings.type));
+    const onProgress = vi.fn();
+    const items = await forgeTableItems({ ...DEFAULT_SETTINGS, rarity: 'Rare' }, 3, onProgress);
+
+    expect(items).toHaveLength(3);
+    expect(vi.mocked(generateMagicItemText).mock.calls.every(([settings]) => settings.rarity === 'Rare')).toBe(true);
+    expect(onProgress).toHaveBeenLastCalledWith(3, 3);
+    expect(waitForRateLimit).toHaveBeenCalledTimes(3);
+  });
+
+  it('keeps what it has when the quota runs out', async () => {
+    vi.mocked(generateMagicItemText)
+      .mockResolvedValueOnce(content('Wand'))
+      .mockRejectedValue(new GenerationError('quota', 'Out of quota.'));
+
+    expect(await forgeTableItems(DEFAULT_SETTINGS, 4)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,157 @@
+import { GenerationSettings, MagicItemResult, RandomTable, RandomTableDie, RandomTableEntry } from '../types';
+import { generateMagicItemText } from './geminiService';
+import { classifyError } from './generationErrors';
+import { waitForRateLimit } from './rateLimit';
+import { getGameSystem, getItemTypes } from './gameSystems';
+
+type Rng = () => number;
+
+export const TABLE_DIE_SIDES: Record<RandomTableDie, number> = {
+  d20: 20,
+  d100: 100,
+};
+
+// Most items forged in one batch; each one is a full text generation
+export const MAX_BATCH_ITEMS = 12;
+
+export interface RandomTableRow {
+  min: number;
+  max: number;
+  entry: RandomTableEntry;
+}
+
+export const entryFromItem = (item: MagicItemResult, weight = 1): RandomTableEntry => ({
+  ...((item as any).id ? { itemId: (item as any).id as string } : {}),
+  name: item.itemData.name,
+  rarity: item.itemData.rarity,
+  type: item.itemData.type,
+  weight,
+});
+
+/**
+ * Share the die's faces out between the entries in proportion to their
+ * weights. Every entry keeps at least one face, so a table can hold at most
+ * as many entries as the die has faces.
+ */
+export const buildTableRows = (table: RandomTable): RandomTableRow[] => {
+  const faces = TABLE_DIE_SIDES[table.die];
+  const { entries } = table;
+  if (entries.length > faces) {
+    throw new Error(`A ${table.die} table holds at most ${faces} items.`);
+  }
+
+  // Largest remainder keeps the split as close to the weights as whole faces allow
+  const weights = entries.map((entry) => Math.max(0, entry.weight || 0));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const shares = weights.map((weight) => (totalWeight > 0 ? (faces * weight) / totalWeight : faces / entries.length));
+  const sizes = shares.map(Math.floor);
+  let leftover = faces - sizes.reduce((sum, size) => sum + size, 0);
+  shares
+    .map((share, index) => ({ index, remainder: share - Math.floor(share) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+    .forEach(({ index }) => {
+      if (leftover > 0) {
+        sizes[index] += 1;
+        leftover -= 1;
+      }
+    });
+
+  // Entries too light for a face of their own borrow one from the largest
+  sizes.forEach((size, index) => {
+    if (size === 0) {
+      sizes[sizes.indexOf(Math.max(...sizes))] -= 1;
+      sizes[index] = 1;
+    }
+  });
+
+  let next = 1;
+  return entries.map((entry, index) => {
+    const row = { min: next, max: next + sizes[index] - 1, entry };
+    next = row.max + 1;
+    return row;
+  });
+};
+
+// d100 tables read "01–04" ... "00", as in the printed treasure tables
+const formatFace = (face: number, die: RandomTableDie) =>
+  die === 'd100' ? (face === 100 ? '00' : String(face).padStart(2, '0')) : String(face);
+
+export const formatRange = (row: RandomTableRow, die: RandomTableDie): string =>
+  row.min === row.max ? formatFace(row.min, die) : `${formatFace(row.min, die)}–${formatFace(row.max, die)}`;
+
+/**
+ * Roll the table's die and find the entry it lands on.
+ */
+export const rollTable = (table: RandomTable, rng: Rng = Math.random): { roll: number; row: RandomTableRow } => {
+  const rows = buildTableRows(table);
+  if (rows.length === 0) {
+    throw new Error('Add at least one item to the table before rolling.');
+  }
+  const roll = Math.floor(rng() * TABLE_DIE_SIDES[table.die]) + 1;
+  return { roll, row: rows.find((row) => roll >= row.min && roll <= row.max)! };
+};
+
+const tableTitle = (table: RandomTable) => table.name.trim() || 'Magic Item Table';
+
+export const tableToMarkdown = (table: RandomTable): string => {
+  const escape = (text: string) => text.replace(/\|/g, '\\|').replace(/\s+/g, ' ').trim();
+  const rows = buildTableRows(table).map(
+    (row) => `| ${formatRange(row, table.die)} | ${escape(row.entry.name)} | ${escape(`${row.entry.rarity} ${row.entry.type}`)} |`
+  );
+  return [`## ${escape(tableTitle(table))}`, '', `| ${table.die} | Magic Item | Rarity |`, '|:---:|---|---|', ...rows, ''].join('\n');
+};
+
+// Quote cells that need it, and defuse text a spreadsheet would run as a formula
+const csvCell = (value: string | number) => {
+  let text = String(value);
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const tableToCsv = (table: RandomTable): string => {
+  const rows = buildTableRows(table).map((row) =>
+    [formatRange(row, table.die), row.entry.name, row.entry.rarity, row.entry.type, row.entry.weight].map(csvCell).join(',')
+  );
+  return [[table.die, 'Name', 'Rarity', 'Type', 'Weight'].join(','), ...rows, ''].join('\r\n');
+};
+
+/**
+ * Forge a batch of items with the given settings, each of a random item
+ * type of the settings' game system. Text only: a table entry needs no art.
+ * Items that fail are skipped and each waits for a rate-limit token, as in a
+ * hoard.
+ */
+export const forgeTableItems = async (
+  settings: GenerationSettings,
+  count: number,
+  onProgress?: (completed: number, total: number) => void,
+  rng: Rng = Math.random,
+  onWait?: (seconds: number) => void
+): Promise<MagicItemResult[]> => {
+  const total = Math.min(MAX_BATCH_ITEMS, Math.max(1, count));
+  const types = getItemTypes(getGameSystem(settings.gameSystem));
+  const items: MagicItemResult[] = [];
+
+  onProgress?.(0, total);
+  for (let index = 0; index < total; index++) {
+    await waitForRateLimit(onWait);
+    const itemSettings = { ...settings, type: types[Math.floor(rng() * types.length)] };
+    try {
+      items.push({ ...(await generateMagicItemText(itemSettings)) });
+    } catch (error) {
+      console.warn(`Failed to forge a ${itemSettings.rarity} ${itemSettings.type} for the table:`, error);
+      // Out of quota: the remaining items would fail the same way, so keep what we have
+      const classified = classifyError(error);
+      if (classified.kind === 'quota') {
+        if (items.length === 0) throw classified;
+        break;
+      }
+    }
+    onProgress?.(index + 1, total);
+  }
+
+  if (items.length === 0) {
+    throw new Error('The forge could not produce any magic items for this table.');
+  }
+  return items;
+};
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { checkClientRateLimit, RATE_LIMIT_KEY, MAX_GENERATIONS_PER_MINUTE } from './rateLimit';
+import { checkClientRateLimit, RATE_LIMIT_KEY, MAX_GENERATIONS_PER_MINUTE, waitForRateLimit } from './rateLimit';
 
 describe('checkClientRateLimit', () => {
   beforeEach(() => {
@@ -78,3 +78,31 @@ describe('checkClientRateLimit', () => {
     expect(result.allowed).toBe(true);
   });
 });
+
+describe('waitForRateLimit', () => {
+  beforeEach(() => {
+    localStorage.removeItem(RATE_LIMIT_KEY);
+  });
+
+  it('takes a token without waiting while under the limit', async () => {
+    const sleep = vi.fn(async () => {});
+    await waitForRateLimit(undefined, sleep);
+
+    expect(sleep).not.toHaveBeenCalled();
+    expect(JSON.parse(localStorage.getItem(RATE_LIMIT_KEY)!)).toHaveLength(1);
+  });
+
+  it('waits out the window at the limit, then takes a token', async () => {
+    for (let i = 0; i < MAX_GENERATIONS_PER_MINUTE; i++) {
+      checkClientRateLimit();
+    }
+    const onWait = vi.fn();
+    // The window frees up while the batch sleeps
+    const sleep = vi.fn(async () => localStorage.removeItem(RATE_LIMIT_KEY));
+    await waitForRateLimit(onWait, sleep);
+
+    expect(onWait).toHaveBeenCalledWith(expect.any(Number));
+    expect(sleep).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(localStorage.getItem(RATE_LIMIT_KEY)!)).toHaveLength(1);
+  });
+});
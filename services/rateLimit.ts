@@ -31,3 +31,26 @@ export const checkClientRateLimit = (): { allowed: boolean; retryAfterSeconds?:
     return { allowed: true };
   }
 };
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Take a token for the next item of a batch (hoard, shop, table), waiting for
+ * the window to free one when the limit is reached. Every item is a full
+ * generation, so each one counts, and a batch larger than the limit still
+ * forges all of its items. `onWait` is told each wait, in seconds.
+ */
+export const waitForRateLimit = async (
+  onWait?: (seconds: number) => void,
+  sleep: (ms: number) => Promise<void> = defaultSleep
+): Promise<void> => {
+  for (;;) {
+    const rate = checkClientRateLimit();
+    if (rate.allowed) {
+      return;
+    }
+    const seconds = rate.retryAfterSeconds ?? 1;
+    onWait?.(seconds);
+    await sleep(seconds * 1000);
+  }
+};
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('./geminiService', () => ({
+  generateMagicItemText: vi.fn(),
+  generateMagicItemImage: vi.fn(),
+}));
+
+vi.mock('./rateLimit', () => ({
+  waitForRateLimit: vi.fn(),
+}));
+
+import { forgeShop, getNextRestockAt, getStockSize, planShopStock, priceListing, restockShop } from './shopService';
+import { generateMagicItemText, generateMagicItemImage } from './geminiService';
+import { waitForRateLimit } from './rateLimit';
+import { DEFAULT_SHOP_SETTINGS } from '../constants';
+import { MagicItemResult, ShopSettings } from '../types';
+
+// Small deterministic PRNG (mulberry32) so rolls are reproducible
+const seeded = (seed: number) => () => {
+  seed |= 0;
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const settings = (overrides?: Partial<ShopSettings>): ShopSettings => ({ ...DEFAULT_SHOP_SETTINGS, ...overrides });
+
+const item = (name: string, type: string, price_gp: number): MagicItemResult => ({
+  itemData: { name, type, rarity: 'Uncommon', price_gp } as any,
+  imagePrompt: 'prompt',
+  itemCard: 'card',
+});
+
+describe('planShopStock', () => {
+  it('stocks only what the shop type sells', () => {
+    planShopStock(settings({ shopType: 'Smithy' }), 20, seeded(3)).forEach((slot) => {
+      expect(slot.type).toMatch(/^(Weapon|Armor|Shield)/);
+    });
+    planShopStock(settings({ shopType: 'Alchemist' }), 20, seeded(3)).forEach((slot) => {
+      expect(['Potion', 'Scroll', 'Wondrous Item']).toContain(slot.type);
+    });
+  });
+
+  it('keeps village stock to modest rarities and passes the theme through', () => {
+    planShopStock(settings({ settlementSize: 'Village', theme: 'Draconic' }), 30, seeded(5)).forEach((slot) => {
+      expect(['Common', 'Uncommon', 'Rare']).toContain(slot.rarity);
+      expect(slot.theme).toBe('Draconic');
+    });
+  });
+});
+
+describe('getStockSize', () => {
+  it('grows with the settlement and its wealth', () => {
+    expect(getStockSize(settings({ settlementSize: 'Village', wealth: 'Poor' }))).toBe(2);
+    expect(getStockSize(settings({ settlementSize: 'Metropolis', wealth: 'Opulent' }))).toBe(12);
+  });
+});
+
+describe('priceListing', () => {
+  it('scales the price by market and leaves room to haggle', () => {
+    const listing = priceListing(item('Ring of Warmth', 'Ring', 1000), settings({ settlementSize: 'City', wealth: 'Opulent' }));
+    expect(listing).toEqual({ price_gp: 1350, haggle_min_gp: 1200, quantity: 1 });
+  });
+
+  it('stacks consumables', () => {
+    const listing = priceListing(item('Potion of Healing', 'Potion', 50), settings(), () => 0.99);
+    expect(listing.quantity).toBe(4);
+  });
+});
+
+describe('forgeShop', () => {
+  beforeEach(() => {
+    vi.mocked(generateMagicItemText).mockReset();
+    vi.mocked(generateMagicItemImage).mockReset();
+    vi.mocked(waitForRateLimit).mockReset().mockResolvedValue();
+    vi.mocked(generateMagicItemText).mockImplementation(async (s) => item('Test', s.type, 100));
+    vi.mocked(generateMagicItemImage).mockResolvedValue('data:image/png;base64,x');
+  });
+
+  it('prices every item and records the restock rules', async () => {
+    const shop = await forgeShop(settings({ settlementSize: 'City' }));
+    expect(shop.items).toHaveLength(7);
+    expect(shop.listings).toHaveLength(7);
+    expect(shop.restock).toEqual({ intervalDays: 7, turnover: 3 });
+    expect(waitForRateLimit).toHaveBeenCalledTimes(7);
+  });
+
+  it('replaces the turnover on restock', async () => {
+    const shop = await forgeShop(settings({ settlementSize: 'Town' }));
+    const restocked = await restockShop(shop, undefined, seeded(9), getNextRestockAt(shop));
+
+    expect(restocked.items).toHaveLength(shop.items.length);
+    expect(restocked.listings).toHaveLength(shop.items.length);
+    expect(restocked.items.filter((i) => shop.items.includes(i))).toHaveLength(shop.items.length - 2);
+  });
+
+  it('refuses to restock before the interval has passed', async () => {
+    const shop = await forgeShop(settings({ settlementSize: 'Town' }));
+    const early = new Date(getNextRestockAt(shop).getTime() - 1000);
+
+    expect(getNextRestockAt(shop).getTime() - new Date(shop.restockedAt).getTime()).toBe(14 * 24 * 60 * 60 * 1000);
+    await expect(restockShop(shop, undefined, seeded(9), early)).rejects.toThrow(/restocks every 14 days/);
+  });
+
+  it('throws when no item could be forged', async () => {
+    vi.mocked(generateMagicItemText).mockRejectedValue(new Error('down'));
+    await expect(forgeShop(settings())).rejects.toThrow(/could not produce/);
+  });
+});
@@ -0,0 +1,236 @@
+import {
+  GenerationSettings,
+  MagicItemResult,
+  MerchantShop,
+  Rarity,
+  SettlementSize,
+  ShopListing,
+  ShopRestockRules,
+  ShopSettings,
+  ShopType,
+  WealthLevel,
+} from '../types';
+import {
+  SIMPLE_MELEE_WEAPONS,
+  SIMPLE_RANGED_WEAPONS,
+  MARTIAL_MELEE_WEAPONS,
+  MARTIAL_RANGED_WEAPONS,
+} from '../constants';
+import { generateMagicItemText, generateMagicItemImage } from './geminiService';
+import { classifyError } from './generationErrors';
+import { waitForRateLimit } from './rateLimit';
+import { pick, pickWeighted } from './hoardService';
+
+type Rng = () => number;
+
+interface SettlementMarket {
+  stock: number;
+  rarityWeights: Partial<Record<Rarity, number>>;
+  // Scarcity markup: small places charge more for what little reaches them
+  priceMultiplier: number;
+  restock: ShopRestockRules;
+}
+
+interface WealthMarket {
+  stockBonus: number;
+  priceMultiplier: number;
+  // Fraction of the asking price the shopkeeper will come down
+  haggleRoom: number;
+}
+
+const SETTLEMENT_MARKETS: Record<SettlementSize, SettlementMarket> = {
+  Village: {
+    stock: 3,
+    rarityWeights: { Common: 65, Uncommon: 30, Rare: 5 },
+    priceMultiplier: 1.25,
+    restock: { intervalDays: 30, turnover: 1 },
+  },
+  Town: {
+    stock: 5,
+    rarityWeights: { Common: 40, Uncommon: 45, Rare: 15 },
+    priceMultiplier: 1.1,
+    restock: { intervalDays: 14, turnover: 2 },
+  },
+  City: {
+    stock: 7,
+    rarityWeights: { Common: 20, Uncommon: 45, Rare: 30, 'Very Rare': 5 },
+    priceMultiplier: 1,
+    restock: { intervalDays: 7, turnover: 3 },
+  },
+  Metropolis: {
+    stock: 10,
+    rarityWeights: { Common: 10, Uncommon: 35, Rare: 35, 'Very Rare': 15, Legendary: 5 },
+    priceMultiplier: 0.9,
+    restock: { intervalDays: 3, turnover: 4 },
+  },
+};
+
+const WEALTH_MARKETS: Record<WealthLevel, WealthMarket> = {
+  Poor: { stockBonus: -1, priceMultiplier: 0.8, haggleRoom: 0.3 },
+  Modest: { stockBonus: 0, priceMultiplier: 1, haggleRoom: 0.2 },
+  Prosperous: { stockBonus: 1, priceMultiplier: 1.15, haggleRoom: 0.15 },
+  Opulent: { stockBonus: 2, priceMultiplier: 1.35, haggleRoom: 0.1 },
+};
+
+const SHOP_ITEM_TYPES: Record<ShopType, string[]> = {
+  Alchemist: ['Potion', 'Potion', 'Potion', 'Scroll', 'Wondrous Item'],
+  Smithy: [
+    ...SIMPLE_MELEE_WEAPONS,
+    ...SIMPLE_RANGED_WEAPONS,
+    ...MARTIAL_MELEE_WEAPONS,
+    ...MARTIAL_RANGED_WEAPONS,
+    'Armor (Light)',
+    'Armor (Heavy)',
+    'Shield',
+  ],
+  'Curio Dealer': ['Wondrous Item', 'Ring', 'Rod', 'Staff', 'Wand', 'Amulet', 'Scroll'],
+};
+
+// Consumables sit on the shelf several to a row
+const STACKABLE_PATTERN = /potion|scroll/i;
+
+// Round to a price a shopkeeper would chalk on a board
+const roundPrice = (gp: number): number => {
+  if (gp < 10) return Math.max(1, Math.round(gp));
+  const step = gp < 100 ? 5 : gp < 1000 ? 10 : gp < 10000 ? 50 : 100;
+  return Math.round(gp / step) * step;
+};
+
+export const getRestockRules = (settings: ShopSettings): ShopRestockRules =>
+  ({ ...SETTLEMENT_MARKETS[settings.settlementSize].restock });
+
+/**
+ * Generation settings for `count` items suited to the shop, without calling
+ * the generator.
+ */
+export const planShopStock = (settings: ShopSettings, count: number, rng: Rng = Math.random): GenerationSettings[] => {
+  const market = SETTLEMENT_MARKETS[settings.settlementSize];
+  return Array.from({ length: count }, () => ({
+    rarity: pickWeighted(market.rarityWeights, rng),
+    type: pick(SHOP_ITEM_TYPES[settings.shopType], rng),
+    theme: settings.theme,
+    style: settings.style,
+    powerBand: 'Standard',
+    includeCurse: false,
+    includePlotHook: false,
+    customPrompt: '',
+  }));
+};
+
+export const getStockSize = (settings: ShopSettings): number =>
+  Math.max(1, SETTLEMENT_MARKETS[settings.settlementSize].stock + WEALTH_MARKETS[settings.wealth].stockBonus);
+
+/**
+ * Price an item for this market: the forge's price scaled by settlement and
+ * wealth, with the lowest price the shopkeeper accepts after haggling.
+ */
+export const priceListing = (item: MagicItemResult, settings: ShopSettings, rng: Rng = Math.random): ShopListing => {
+  const wealth = WEALTH_MARKETS[settings.wealth];
+  const multiplier = SETTLEMENT_MARKETS[settings.settlementSize].priceMultiplier * wealth.priceMultiplier;
+  const price_gp = roundPrice(item.itemData.price_gp * multiplier);
+  return {
+    price_gp,
+    haggle_min_gp: roundPrice(price_gp * (1 - wealth.haggleRoom)),
+    quantity: STACKABLE_PATTERN.test(item.itemData.type) ? 1 + Math.floor(rng() * 4) : 1,
+  };
+};
+
+/**
+ * Forge the given item slots through the normal text + image pipeline.
+ * Items whose generation fails are skipped; image failures leave the item
+ * without artwork, as in a hoard. Each item waits for a rate-limit token.
+ */
+const forgeStock = async (
+  plan: GenerationSettings[],
+  onProgress?: (completed: number, total: number) => void,
+  onWait?: (seconds: number) => void
+): Promise<MagicItemResult[]> => {
+  const items: MagicItemResult[] = [];
+
+  onProgress?.(0, plan.length);
+  for (const [index, itemSettings] of plan.entries()) {
+    await waitForRateLimit(onWait);
+    try {
+      const content = await generateMagicItemText(itemSettings);
+      let item: MagicItemResult = { ...content };
+      try {
+        const imageUrl = await generateMagicItemImage(content.imagePrompt, itemSettings.style);
+        item = { ...content, imageUrl };
+      } catch (imgErr) {
+        console.warn('Shop item image failed, continuing without it.', imgErr);
+      }
+      items.push(item);
+    } catch (error) {
+      console.warn(`Failed to forge a ${itemSettings.rarity} ${itemSettings.type} for the shop:`, error);
+      // Out of quota: the remaining items would fail the same way, so keep what we have
+      const classified = classifyError(error);
+      if (classified.kind === 'quota') {
+        if (items.length === 0) throw classified;
+        break;
+      }
+    }
+    onProgress?.(index + 1, plan.length);
+  }
+
+  if (items.length === 0 && plan.length > 0) {
+    throw new Error('The forge could not produce any magic items for this shop.');
+  }
+  return items;
+};
+
+/**
+ * Stock a new shop: forge an inventory sized and weighted for the
+ * settlement, then price it for the local market.
+ */
+export const forgeShop = async (
+  settings: ShopSettings,
+  onProgress?: (completed: number, total: number) => void,
+  onWait?: (seconds: number) => void
+): Promise<MerchantShop> => {
+  const items = await forgeStock(planShopStock(settings, getStockSize(settings)), onProgress, onWait);
+  return {
+    settings,
+    restock: getRestockRules(settings),
+    items,
+    listings: items.map((item) => priceListing(item, settings)),
+    restockedAt: new Date().toISOString(),
+  };
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A shop restocks once its interval has passed since the last restock
+export const getNextRestockAt = (shop: MerchantShop): Date =>
+  new Date(new Date(shop.restockedAt).getTime() + shop.restock.intervalDays * DAY_MS);
+
+/**
+ * Restock a shop as its restock rules describe: the listings that sold
+ * (chosen at random) make way for newly forged items. Returns the new
+ * inventory; newly forged items are at the end. Throws if the shop's
+ * restock interval has not passed yet.
+ */
+export const restockShop = async (
+  shop: MerchantShop,
+  onProgress?: (completed: number, total: number) => void,
+  rng: Rng = Math.random,
+  now: Date = new Date(),
+  onWait?: (seconds: number) => void
+): Promise<MerchantShop> => {
+  const nextRestockAt = getNextRestockAt(shop);
+  if (now < nextRestockAt) {
+    throw new Error(`This shop restocks every ${shop.restock.intervalDays} days; the next restock is on ${nextRestockAt.toLocaleDateString()}.`);
+  }
+
+  const kept = shop.items.map((_, index) => index);
+  for (let sold = 0; sold < shop.restock.turnover && kept.length > 0; sold++) {
+    kept.splice(Math.floor(rng() * kept.length), 1);
+  }
+
+  const fresh = await forgeStock(planShopStock(shop.settings, shop.restock.turnover, rng), onProgress, onWait);
+  return {
+    ...shop,
+    items: [...kept.map((index) => shop.items[index]), ...fresh],
+    listings: [...kept.map((index) => shop.listings[index]), ...fresh.map((item) => priceListing(item, shop.settings, rng))],
+    restockedAt: now.toISOString(),
+  };
+};
@@ -1,14 +1,17 @@
-import { MagicItemResult } from '../types';
+import { ItemData, ItemTranslations, ItemUsage, MagicItemResult, MerchantShop, ShopSettings, TreasureHoard } from '../types';
 import { supabase } from './supabaseClient';
 import { generateThumbnail } from './imageUtils';
+import { applySuggestedPrice } from './pricingService';
 
 export interface SavedMagicItem extends MagicItemResult {
   id: string;
   created_at: string; // ISO timestamp from Supabase
 }
 
-// Database table name
+// Database table names
 const TABLE_NAME = 'magic_items';
+const HOARDS_TABLE_NAME = 'treasure_hoards';
+const SHOPS_TABLE_NAME = 'merchant_shops';
 
 // Cache keys
 const CACHE_KEY_ITEMS = 'arcane-forge-items-cache';
@@ -350,6 +353,10 @@ export const saveItem = async (item: MagicItemResult): Promise<SavedMagicItem |
         item_card: item.itemCard,
         image_url: item.imageUrl || null,
         thumbnail_url: thumbnailUrl,
+        alternate_image_urls: item.alternateImageUrls || [],
+        image_aspect_ratio: item.imageAspectRatio || null,
+        provenance: item.provenance || null,
+        translations: item.translations || {},
       })
       .select()
       .single();
@@ -376,6 +383,460 @@ export const saveItem = async (item: MagicItemResult): Promise<SavedMagicItem |
   }
 };
 
+/**
+ * Overwrite the text content of a saved item (item data, card, image prompt and provenance).
+ * The stored image and thumbnail are left untouched.
+ */
+export const updateItem = async (id: string, item: MagicItemResult): Promise<void> => {
+  if (!isSupabaseConfigured()) {
+    return;
+  }
+
+  try {
+    const { error } = await supabase
+      .from(TABLE_NAME)
+      .update({
+        item_data: item.itemData,
+        image_prompt: item.imagePrompt,
+        item_card: item.itemCard,
+        provenance: item.provenance || null,
+        // Translations of an earlier revision are dropped with it
+        translations: item.translations || {},
+      })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Failed to update item:', error);
+      throw new Error('Failed to update item in database');
+    }
+
+    invalidateCache();
+  } catch (error) {
+    console.error('Failed to update item:', error);
+    throw error;
+  }
+};
+
+/**
+ * Replace a saved item's chosen image (and the alternates kept alongside it),
+ * regenerating the list-view thumbnail to match.
+ */
+export const updateItemImage = async (id: string, imageUrl: string, alternateImageUrls: string[] = []): Promise<void> => {
+  if (!isSupabaseConfigured()) {
+    return;
+  }
+
+  try {
+    let thumbnailUrl: string | null = null;
+    try {
+      thumbnailUrl = await generateThumbnail(imageUrl, 340, 340, 0.6);
+    } catch (thumbError) {
+      console.warn('Failed to generate thumbnail, saving without it:', thumbError);
+    }
+
+    const { error } = await supabase
+      .from(TABLE_NAME)
+      .update({
+        image_url: imageUrl,
+        thumbnail_url: thumbnailUrl,
+        alternate_image_urls: alternateImageUrls,
+      })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Failed to update item image:', error);
+      throw new Error('Failed to update item image in database');
+    }
+
+    invalidateCache();
+  } catch (error) {
+    console.error('Failed to update item image:', error);
+    throw error;
+  }
+};
+
+/**
+ * Replace the translations stored alongside a saved item.
+ */
+export const updateItemTranslations = async (id: string, translations: ItemTranslations): Promise<void> => {
+  if (!isSupabaseConfigured()) {
+    return;
+  }
+
+  try {
+    const { error } = await supabase
+      .from(TABLE_NAME)
+      .update({ translations })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Failed to update item translations:', error);
+      throw new Error('Failed to update item translations in database');
+    }
+
+    invalidateCache();
+  } catch (error) {
+    console.error('Failed to update item translations:', error);
+    throw error;
+  }
+};
+
+/**
+ * Replace a saved item's usage trackers; null stops tracking the item.
+ */
+export const updateItemUsage = async (id: string, usage: ItemUsage | null): Promise<void> => {
+  if (!isSupabaseConfigured()) {
+    return;
+  }
+
+  try {
+    const { error } = await supabase
+      .from(TABLE_NAME)
+      .update({ usage })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Failed to update item usage:', error);
+      throw new Error('Failed to update item usage in database');
+    }
+  } catch (error) {
+    console.error('Failed to update item usage:', error);
+    throw error;
+  }
+};
+
+/**
+ * Record the stage an evolving item has reached (an index into its stages).
+ */
+export const updateItemStage = async (id: string, stage: number): Promise<void> => {
+  if (!isSupabaseConfigured()) {
+    return;
+  }
+
+  try {
+    const { error } = await supabase
+      .from(TABLE_NAME)
+      .update({ current_stage: stage })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Failed to update item stage:', error);
+      throw new Error('Failed to update item stage in database');
+    }
+  } catch (error) {
+    console.error('Failed to update item stage:', error);
+    throw error;
+  }
+};
+
+/**
+ * Load every saved item that has usage trackers, oldest first so the order
+ * at the table stays stable as items are added.
+ */
+export const getItemsInPlay = async (): Promise<SavedMagicItem[]> => {
+  if (!isSupabaseConfigured()) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from(TABLE_NAME)
+    .select('id, created_at, item_data, thumbnail_url, usage')
+    .not('usage', 'is', null)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Failed to load items in play:', error);
+    throw new Error('Failed to load items in play');
+  }
+
+  return (data || []).map((item: any) => ({
+    itemData: item.item_data || {},
+    imagePrompt: '',
+    itemCard: '',
+    imageUrl: item.thumbnail_url || null,
+    usage: item.usage,
+    id: item.id,
+    created_at: item.created_at,
+    savedAt: new Date(item.created_at).getTime(),
+  })) as SavedMagicItem[];
+};
+
+/**
+ * Re-price every saved item with the pricing rules, updating only items whose
+ * stored price differs. Only item_data is written, so cards and images are
+ * untouched. Returns the number of items that changed.
+ */
+export const repriceSavedItems = async (): Promise<number> => {
+  if (!isSupabaseConfigured()) {
+    return 0;
+  }
+
+  const { data, error } = await supabase
+    .from(TABLE_NAME)
+    .select('id, item_data');
+
+  if (error) {
+    console.error('Failed to load items for re-pricing:', error);
+    throw new Error('Failed to load items for re-pricing');
+  }
+
+  let changed = 0;
+  for (const row of data || []) {
+    if (!row.item_data?.rarity) continue;
+    const repriced = applySuggestedPrice(row.item_data as ItemData);
+    if (repriced.price_gp === row.item_data.price_gp) continue;
+
+    const { error: updateError } = await supabase
+      .from(TABLE_NAME)
+      .update({ item_data: repriced })
+      .eq('id', row.id);
+
+    if (updateError) {
+      console.error(`Failed to re-price item ${row.id}:`, updateError);
+      continue;
+    }
+    changed++;
+  }
+
+  if (changed > 0) {
+    invalidateCache();
+  }
+  return changed;
+};
+
+export interface SavedTreasureHoard extends TreasureHoard {
+  id: string;
+  created_at: string;
+  items: SavedMagicItem[];
+}
+
+/**
+ * Save a treasure hoard: each magic item is saved individually, then a hoard
+ * row links them together with the coins and valuables.
+ */
+export const saveHoard = async (hoard: TreasureHoard): Promise<SavedTreasureHoard | null> => {
+  if (!isSupabaseConfigured()) {
+    return null;
+  }
+
+  try {
+    const savedItems: SavedMagicItem[] = [];
+    for (const item of hoard.items) {
+      const saved = await saveItem(item);
+      if (saved) {
+        savedItems.push(saved);
+      }
+    }
+
+    const { data, error } = await supabase
+      .from(HOARDS_TABLE_NAME)
+      .insert({
+        settings: hoard.settings,
+        coins: hoard.coins,
+        valuables: hoard.valuables,
+        item_ids: savedItems.map(item => item.id),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Failed to save hoard:', error);
+      throw new Error('Failed to save hoard to database');
+    }
+
+    return {
+      ...hoard,
+      items: savedItems,
+      id: data.id,
+      created_at: data.created_at,
+    };
+  } catch (error) {
+    console.error('Failed to save hoard:', error);
+    throw error;
+  }
+};
+
+export interface SavedMerchantShop extends MerchantShop {
+  id: string;
+  created_at: string;
+  items: SavedMagicItem[];
+}
+
+export interface SavedShopSummary {
+  id: string;
+  created_at: string;
+  settings: ShopSettings;
+  restockedAt: string;
+  itemCount: number;
+}
+
+// Save the shop's unsaved items, keeping each listing with its item
+const saveShopItems = async (shop: MerchantShop): Promise<Pick<SavedMerchantShop, 'items' | 'listings'>> => {
+  const items: SavedMagicItem[] = [];
+  const listings: MerchantShop['listings'] = [];
+  for (const [index, item] of shop.items.entries()) {
+    const saved = (item as any).id ? item as SavedMagicItem : await saveItem(item);
+    if (saved) {
+      items.push(saved);
+      listings.push(shop.listings[index]);
+    }
+  }
+  return { items, listings };
+};
+
+/**
+ * Save a merchant shop: each item is saved individually, then a shop row
+ * links them together with their market listings and restock rules.
+ */
+export const saveShop = async (shop: MerchantShop): Promise<SavedMerchantShop | null> => {
+  if (!isSupabaseConfigured()) {
+    return null;
+  }
+
+  try {
+    const { items, listings } = await saveShopItems(shop);
+
+    const { data, error } = await supabase
+      .from(SHOPS_TABLE_NAME)
+      .insert({
+        settings: shop.settings,
+        restock: shop.restock,
+        listings,
+        item_ids: items.map(item => item.id),
+        restocked_at: shop.restockedAt,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Failed to save shop:', error);
+      throw new Error('Failed to save shop to database');
+    }
+
+    return {
+      ...shop,
+      items,
+      listings,
+      id: data.id,
+      created_at: data.created_at,
+    };
+  } catch (error) {
+    console.error('Failed to save shop:', error);
+    throw error;
+  }
+};
+
+/**
+ * Store a restocked inventory for a saved shop, saving its new items first.
+ */
+export const updateShopStock = async (id: string, shop: MerchantShop): Promise<Pick<SavedMerchantShop, 'items' | 'listings'>> => {
+  if (!isSupabaseConfigured()) {
+    return { items: shop.items as SavedMagicItem[], listings: shop.listings };
+  }
+
+  const { items, listings } = await saveShopItems(shop);
+  const { error } = await supabase
+    .from(SHOPS_TABLE_NAME)
+    .update({
+      listings,
+      item_ids: items.map(item => item.id),
+      restocked_at: shop.restockedAt,
+    })
+    .eq('id', id);
+
+  if (error) {
+    console.error('Failed to restock shop:', error);
+    throw new Error('Failed to save the restocked shop');
+  }
+  return { items, listings };
+};
+
+/**
+ * List saved shops, newest first, without loading their items.
+ */
+export const getSavedShops = async (): Promise<SavedShopSummary[]> => {
+  if (!isSupabaseConfigured()) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from(SHOPS_TABLE_NAME)
+    .select('id, created_at, settings, item_ids, restocked_at')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Failed to load shops:', error);
+    throw new Error('Failed to load shops');
+  }
+
+  return (data || []).map((shop: any) => ({
+    id: shop.id,
+    created_at: shop.created_at,
+    settings: shop.settings,
+    restockedAt: shop.restocked_at || shop.created_at,
+    itemCount: (shop.item_ids || []).length,
+  }));
+};
+
+/**
+ * Reopen a saved shop with its items (list fields and thumbnails only).
+ * Items deleted from the archives since drop off the shelves.
+ */
+export const getShopById = async (id: string): Promise<SavedMerchantShop | null> => {
+  if (!isSupabaseConfigured()) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from(SHOPS_TABLE_NAME)
+    .select('id, created_at, settings, restock, listings, item_ids, restocked_at')
+    .eq('id', id)
+    .single();
+
+  if (error || !data) {
+    return null;
+  }
+
+  const itemIds: string[] = data.item_ids || [];
+  const { data: rows, error: itemsError } = await supabase
+    .from(TABLE_NAME)
+    .select('id, created_at, item_data, thumbnail_url')
+    .in('id', itemIds);
+
+  if (itemsError) {
+    console.error('Failed to load shop items:', itemsError);
+    throw new Error('Failed to load the shop\'s items');
+  }
+
+  const byId = new Map((rows || []).map((item: any) => [item.id, item]));
+  const items: SavedMagicItem[] = [];
+  const listings: MerchantShop['listings'] = [];
+  itemIds.forEach((itemId, index) => {
+    const item: any = byId.get(itemId);
+    if (!item) return;
+    items.push({
+      itemData: item.item_data || {},
+      imagePrompt: '',
+      itemCard: '',
+      imageUrl: item.thumbnail_url || null,
+      id: item.id,
+      created_at: item.created_at,
+      savedAt: new Date(item.created_at).getTime(),
+    } as SavedMagicItem);
+    listings.push(data.listings[index]);
+  });
+
+  return {
+    settings: data.settings,
+    restock: data.restock,
+    items,
+    listings,
+    restockedAt: data.restocked_at || data.created_at,
+    id: data.id,
+    created_at: data.created_at,
+  };
+};
+
 /**
  * Remove a saved item by ID
  */
@@ -415,7 +876,7 @@ export const getItemById = async (id: string): Promise<SavedMagicItem | null> =>
   try {
     const { data, error } = await supabase
       .from(TABLE_NAME)
-      .select('id, created_at, item_data, image_prompt, item_card, image_url')
+      .select('id, created_at, item_data, image_prompt, item_card, image_url, alternate_image_urls, image_aspect_ratio, provenance, translations, usage, current_stage')
       .eq('id', id)
       .single();
 
@@ -428,6 +889,12 @@ export const getItemById = async (id: string): Promise<SavedMagicItem | null> =>
       imagePrompt: data.image_prompt || '',
       itemCard: data.item_card || '',
       imageUrl: data.image_url || null,
+      alternateImageUrls: data.alternate_image_urls || [],
+      imageAspectRatio: data.image_aspect_ratio || undefined,
+      provenance: data.provenance || undefined,
+      translations: data.translations || {},
+      usage: data.usage || undefined,
+      currentStage: data.current_stage ?? undefined,
       id: data.id,
       created_at: data.created_at,
       savedAt: new Date(data.created_at).getTime(),
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createTracker,
+  parseRechargeTrigger,
+  rechargeTracker,
+  rechargeUsage,
+  spendCharges,
+  suggestTrackers,
+} from './usageTracker';
+import { ItemData, UsageTracker } from '../types';
+
+const makeItem = (effects: string[], effect_details?: ItemData['mechanics']['effect_details']): ItemData => ({
+  name: 'Wand of Embers',
+  type: 'Wand',
+  rarity: 'Rare',
+  style: 'Oil Painting',
+  theme: 'None',
+  powerBand: 'Standard',
+  description: '',
+  mechanics: { attunement: false, effects, activation: '', scaling: '', ...(effect_details && { effect_details }) },
+  curse: '',
+  plot_hook: '',
+  price_gp: 0,
+});
+
+const tracker = (overrides: Partial<UsageTracker> = {}): UsageTracker => ({
+  name: 'Charges',
+  current: 2,
+  max: 7,
+  recharge: 'dawn',
+  ...overrides,
+});
+
+describe('createTracker', () => {
+  it('starts full and normalizes the recharge dice', () => {
+    expect(createTracker({ name: ' Charges ', max: 7, recharge: 'dawn', rechargeDice: '1d6 + 1' })).toEqual({
+      name: 'Charges',
+      current: 7,
+      max: 7,
+      recharge: 'dawn',
+      rechargeDice: '1d6+1',
+    });
+  });
+
+  it('rejects missing names, bad maximums and bad dice', () => {
+    expect(() => createTracker({ name: '', max: 3, recharge: 'dawn' })).toThrow('Give the tracker a name.');
+    expect(() => createTracker({ name: 'Uses', max: 0, recharge: 'dawn' })).toThrow(/whole number/);
+    expect(() => createTracker({ name: 'Uses', max: 2.5, recharge: 'dawn' })).toThrow(/whole number/);
+    expect(() => createTracker({ name: 'Uses', max: 3, recharge: 'dawn', rechargeDice: 'some' })).toThrow(/not a dice expression/);
+  });
+});
+
+describe('suggestTrackers', () => {
+  it('reads charges and recharge dice from the effect text', () => {
+    const item = makeItem([
+      'The wand has 7 charges. Expend 1 charge to deal 2d6 fire damage.',
+      'The wand regains 1d6 + 1 expended charges daily at dawn.',
+      'Ember Ward. Once per day you can wreathe yourself in flame.',
+    ]);
+
+    expect(suggestTrackers(item)).toEqual([
+      { name: 'Charges', current: 7, max: 7, recharge: 'dawn', rechargeDice: '1d6+1' },
+      { name: 'Ember Ward', current: 1, max: 1, recharge: 'dawn' },
+    ]);
+  });
+
+  it('prefers structured effect details', () => {
+    const item = makeItem(['Some prose with 3 charges.'], [
+      { kind: 'spell', name: 'Fireball', charges: 3, recharge: '1d3 at dusk' },
+      { kind: 'buff', name: 'Warmth' },
+    ]);
+
+    expect(suggestTrackers(item)).toEqual([
+      { name: 'Fireball', current: 3, max: 3, recharge: 'dusk', rechargeDice: '1d3' },
+    ]);
+  });
+
+  it('suggests nothing for items without limited uses', () => {
+    expect(suggestTrackers(makeItem(['You gain a +1 bonus to AC.']))).toEqual([]);
+  });
+});
+
+describe('parseRechargeTrigger', () => {
+  it('reads the trigger from recharge text', () => {
+    expect(parseRechargeTrigger('regains all charges after a short rest')).toBe('short_rest');
+    expect(parseRechargeTrigger('once per long rest')).toBe('long_rest');
+    expect(parseRechargeTrigger('once per day')).toBe('dawn');
+    expect(parseRechargeTrigger('when the moon is full')).toBe('manual');
+  });
+});
+
+describe('spendCharges', () => {
+  it('stays between zero and the maximum', () => {
+    expect(spendCharges(tracker(), 5).current).toBe(0);
+    expect(spendCharges(tracker(), -10).current).toBe(7);
+  });
+});
+
+describe('rechargeTracker', () => {
+  it('adds rolled charges up to the maximum', () => {
+    const rolled = rechargeTracker(tracker({ rechargeDice: '1d6+1' }), 'dawn', () => 0.2);
+    expect(rolled.current).toBe(5);
+
+    const capped = rechargeTracker(tracker({ current: 6, rechargeDice: '1d6+1' }), 'dawn', () => 0.99);
+    expect(capped.current).toBe(7);
+  });
+
+  it('refills trackers without dice and skips other triggers', () => {
+    expect(rechargeTracker(tracker(), 'dawn').current).toBe(7);
+    expect(rechargeTracker(tracker(), 'long_rest').current).toBe(2);
+  });
+
+  it('counts a long rest as a short rest', () => {
+    expect(rechargeTracker(tracker({ recharge: 'short_rest' }), 'long_rest').current).toBe(7);
+    expect(rechargeTracker(tracker({ recharge: 'long_rest' }), 'short_rest').current).toBe(2);
+    expect(rechargeTracker(tracker({ recharge: 'manual' }), 'long_rest').current).toBe(2);
+  });
+});
+
+describe('rechargeUsage', () => {
+  it('recharges every tracker of an item that the event triggers', () => {
+    const usage = rechargeUsage(
+      { set: 'Party', trackers: [tracker(), tracker({ name: 'Ward', current: 0, max: 1, recharge: 'short_rest' })] },
+      'long_rest'
+    );
+
+    expect(usage.set).toBe('Party');
+    expect(usage.trackers.map((t) => t.current)).toEqual([2, 1]);
+  });
+});
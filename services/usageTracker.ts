@@ -0,0 +1,148 @@
+import { ItemData, ItemUsage, RechargeTrigger, RestEvent, UsageTracker } from '../types';
+import { findDiceExpressions, parseDiceExpression, rollDice } from './dice';
+
+type Rng = () => number;
+
+export const DEFAULT_USAGE_SET = 'Party';
+export const MAX_TRACKER_CHARGES = 100;
+export const MAX_TRACKER_NAME_LENGTH = 40;
+
+export const RECHARGE_TRIGGERS: { value: RechargeTrigger; label: string }[] = [
+  { value: 'dawn', label: 'Dawn' },
+  { value: 'dusk', label: 'Dusk' },
+  { value: 'short_rest', label: 'Short Rest' },
+  { value: 'long_rest', label: 'Long Rest' },
+  { value: 'manual', label: 'Manual' },
+];
+
+export const REST_EVENTS: { value: RestEvent; label: string }[] = [
+  { value: 'short_rest', label: 'Short Rest' },
+  { value: 'long_rest', label: 'Long Rest' },
+  { value: 'dawn', label: 'Dawn' },
+  { value: 'dusk', label: 'Dusk' },
+];
+
+// A long rest also counts as a short rest; dawn and dusk stand alone
+const TRIGGERS_FOR_EVENT: Record<RestEvent, RechargeTrigger[]> = {
+  short_rest: ['short_rest'],
+  long_rest: ['short_rest', 'long_rest'],
+  dawn: ['dawn'],
+  dusk: ['dusk'],
+};
+
+const CHARGES = /(?:has|holds|contains|with)\s+(\d+)\s+charges/i;
+// The rest of the sentence after "regains", e.g. "regains 1d6 + 1 expended charges daily at dawn"
+const REGAINS = /regains?\b[^.]*/i;
+const LIMITED_USE = /once per (day|long rest|short rest)|(?:until|at) the next (dawn|dusk)/i;
+// "Flame Burst." or "**Flame Burst:**" at the start of an effect
+const EFFECT_TITLE = /^\W*([^.:*]{1,40})[.:]/;
+
+/**
+ * Read a recharge trigger from text like "1d6+1 at dawn" or "after a long rest".
+ * "Per day" counts as dawn, the usual reading in 5e.
+ */
+export const parseRechargeTrigger = (text: string): RechargeTrigger => {
+  const lower = text.toLowerCase();
+  if (lower.includes('dawn') || lower.includes('per day') || lower.includes('daily')) return 'dawn';
+  if (lower.includes('dusk')) return 'dusk';
+  if (lower.includes('short rest')) return 'short_rest';
+  if (lower.includes('long rest')) return 'long_rest';
+  return 'manual';
+};
+
+/**
+ * Build a tracker from user input. Throws if the name is missing, the maximum
+ * is not a whole number of charges, or the recharge dice don't parse.
+ */
+export const createTracker = (input: {
+  name: string;
+  max: number;
+  recharge: RechargeTrigger;
+  rechargeDice?: string;
+}): UsageTracker => {
+  const name = input.name.trim();
+  if (!name) {
+    throw new Error('Give the tracker a name.');
+  }
+  if (name.length > MAX_TRACKER_NAME_LENGTH) {
+    throw new Error(`Tracker names can be at most ${MAX_TRACKER_NAME_LENGTH} characters.`);
+  }
+  if (!Number.isInteger(input.max) || input.max < 1 || input.max > MAX_TRACKER_CHARGES) {
+    throw new Error(`Charges must be a whole number from 1 to ${MAX_TRACKER_CHARGES}.`);
+  }
+
+  const tracker: UsageTracker = { name, current: input.max, max: input.max, recharge: input.recharge };
+  if (input.rechargeDice?.trim()) {
+    const dice = parseDiceExpression(input.rechargeDice);
+    if (!dice) {
+      throw new Error(`"${input.rechargeDice}" is not a dice expression.`);
+    }
+    tracker.rechargeDice = dice.text;
+  }
+  return tracker;
+};
+
+// Normalized form of the first dice expression in the text, if any
+const firstDice = (text: string): string | undefined => {
+  const found = findDiceExpressions(text)[0];
+  return found ? parseDiceExpression(found.expression)!.text : undefined;
+};
+
+const suggested = (name: string, max: number, rechargeText: string, rechargeDice?: string): UsageTracker => ({
+  name: name.slice(0, MAX_TRACKER_NAME_LENGTH),
+  current: max,
+  max,
+  recharge: parseRechargeTrigger(rechargeText),
+  ...(rechargeDice && { rechargeDice }),
+});
+
+/**
+ * Trackers suggested by an item's structured effects, falling back to its
+ * effect text ("has 7 charges", "regains 1d6+1 charges at dawn", "once per day").
+ */
+export const suggestTrackers = (itemData: ItemData): UsageTracker[] => {
+  const fromDetails = (itemData.mechanics.effect_details || [])
+    .filter((effect) => effect.charges !== undefined)
+    .map((effect) => suggested(effect.name, effect.charges!, effect.recharge || '', firstDice(effect.recharge || '')));
+  if (fromDetails.length > 0) return fromDetails;
+
+  const trackers: UsageTracker[] = [];
+  const text = itemData.mechanics.effects.join(' ');
+  const charges = Number(text.match(CHARGES)?.[1]);
+  if (charges >= 1 && charges <= MAX_TRACKER_CHARGES) {
+    const regains = text.match(REGAINS)?.[0] || '';
+    trackers.push(suggested('Charges', charges, regains, firstDice(regains)));
+  }
+
+  itemData.mechanics.effects.forEach((effect) => {
+    const limited = effect.match(LIMITED_USE);
+    if (limited) {
+      const title = effect.match(EFFECT_TITLE)?.[1].trim();
+      trackers.push(suggested(title || `Limited Use ${trackers.length + 1}`, 1, limited[0]));
+    }
+  });
+  return trackers;
+};
+
+// Spend (positive) or restore (negative) charges, staying within 0..max
+export const spendCharges = (tracker: UsageTracker, amount: number): UsageTracker => ({
+  ...tracker,
+  current: Math.min(Math.max(tracker.current - amount, 0), tracker.max),
+});
+
+/**
+ * Recharge a tracker if the event triggers it: rolled dice are added up to
+ * the maximum, and trackers without dice refill completely.
+ */
+export const rechargeTracker = (tracker: UsageTracker, event: RestEvent, rng: Rng = Math.random): UsageTracker => {
+  if (!TRIGGERS_FOR_EVENT[event].includes(tracker.recharge)) return tracker;
+
+  const dice = tracker.rechargeDice ? parseDiceExpression(tracker.rechargeDice) : null;
+  const regained = dice ? Math.max(rollDice(dice, {}, rng).total, 0) : tracker.max;
+  return { ...tracker, current: Math.min(tracker.current + regained, tracker.max) };
+};
+
+export const rechargeUsage = (usage: ItemUsage, event: RestEvent, rng: Rng = Math.random): ItemUsage => ({
+  ...usage,
+  trackers: usage.trackers.map((tracker) => rechargeTracker(tracker, event, rng)),
+});
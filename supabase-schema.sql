@@ -33,6 +33,22 @@ BEGIN
   END IF;
 END $$;
 
+-- Image variations: the ones not chosen, and the aspect ratio they were generated at
+ALTER TABLE magic_items ADD COLUMN IF NOT EXISTS alternate_image_urls TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE magic_items ADD COLUMN IF NOT EXISTS image_aspect_ratio TEXT;
+
+-- Generation settings, model, temperature and prompt version that produced the item
+ALTER TABLE magic_items ADD COLUMN IF NOT EXISTS provenance JSONB;
+
+-- Translations of the item's text, keyed by language code
+ALTER TABLE magic_items ADD COLUMN IF NOT EXISTS translations JSONB NOT NULL DEFAULT '{}';
+
+-- Charges and limited uses tracked while the item is in play (NULL when not tracked)
+ALTER TABLE magic_items ADD COLUMN IF NOT EXISTS usage JSONB;
+
+-- Stage an evolving item has reached, as an index into item_data.stages
+ALTER TABLE magic_items ADD COLUMN IF NOT EXISTS current_stage INTEGER;
+
 -- Enable Row Level Security (RLS) - adjust policies as needed
 ALTER TABLE magic_items ENABLE ROW LEVEL SECURITY;
 
@@ -40,6 +56,7 @@ ALTER TABLE magic_items ENABLE ROW LEVEL SECURITY;
 DROP POLICY IF EXISTS "Allow public read access" ON magic_items;
 DROP POLICY IF EXISTS "Allow public insert access" ON magic_items;
 DROP POLICY IF EXISTS "Allow public delete access" ON magic_items;
+DROP POLICY IF EXISTS "Allow public update access" ON magic_items;
 
 -- Policy: Allow anyone to read (public read access)
 CREATE POLICY "Allow public read access" ON magic_items
@@ -56,6 +73,81 @@ CREATE POLICY "Allow public delete access" ON magic_items
   FOR DELETE
   USING (true);
 
+-- Policy: Allow anyone to update (used when saving a refined revision over the original)
+CREATE POLICY "Allow public update access" ON magic_items
+  FOR UPDATE
+  USING (true)
+  WITH CHECK (true);
+
+-- Treasure hoards: coins, gems/art objects and the magic items rolled together
+CREATE TABLE IF NOT EXISTS treasure_hoards (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  settings JSONB NOT NULL,
+  coins JSONB NOT NULL,
+  valuables JSONB NOT NULL DEFAULT '[]'::jsonb,
+  item_ids UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_treasure_hoards_created_at ON treasure_hoards(created_at DESC);
+
+ALTER TABLE treasure_hoards ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public read access" ON treasure_hoards;
+DROP POLICY IF EXISTS "Allow public insert access" ON treasure_hoards;
+DROP POLICY IF EXISTS "Allow public delete access" ON treasure_hoards;
+
+CREATE POLICY "Allow public read access" ON treasure_hoards
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Allow public insert access" ON treasure_hoards
+  FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public delete access" ON treasure_hoards
+  FOR DELETE
+  USING (true);
+
+-- Merchant shops: market listings (price, haggle floor, quantity) for linked magic items
+CREATE TABLE IF NOT EXISTS merchant_shops (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  settings JSONB NOT NULL,
+  restock JSONB NOT NULL,
+  -- One listing per entry of item_ids, in the same order
+  listings JSONB NOT NULL DEFAULT '[]'::jsonb,
+  item_ids UUID[] NOT NULL DEFAULT '{}',
+  restocked_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_merchant_shops_created_at ON merchant_shops(created_at DESC);
+
+ALTER TABLE merchant_shops ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public read access" ON merchant_shops;
+DROP POLICY IF EXISTS "Allow public insert access" ON merchant_shops;
+DROP POLICY IF EXISTS "Allow public update access" ON merchant_shops;
+DROP POLICY IF EXISTS "Allow public delete access" ON merchant_shops;
+
+CREATE POLICY "Allow public read access" ON merchant_shops
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Allow public insert access" ON merchant_shops
+  FOR INSERT
+  WITH CHECK (true);
+
+-- Restocking replaces the listings and items in place
+CREATE POLICY "Allow public update access" ON merchant_shops
+  FOR UPDATE
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public delete access" ON merchant_shops
+  FOR DELETE
+  USING (true);
+
 -- Optional: If you want to restrict to authenticated users only, use:
 -- CREATE POLICY "Allow authenticated users to read" ON magic_items
 --   FOR SELECT
@@ -1,8 +1,18 @@
-export type Rarity = 'Common' | 'Uncommon' | 'Rare' | 'Very Rare' | 'Legendary' | 'Artifact';
+export type Rarity = 'Common' | 'Uncommon' | 'Rare' | 'Very Rare' | 'Legendary' | 'Artifact' | 'Unique';
+
+export type GameSystemId = 'dnd5e-2014' | 'dnd5e-2024' | 'pf2e' | 'osr';
 
 export type PowerBand = 'Low Magic' | 'Standard' | 'High Magic' | 'Mythic';
 
+export type ImageAspectRatio = '1:1' | '3:4' | '16:9';
+
+export type ItemLanguage = 'en' | 'es' | 'de' | 'fr' | 'it' | 'pt';
+
+// How an Artifact gets its property tables: invented by the generator or rolled by the forge
+export type ArtifactPropertyMode = 'none' | 'generate' | 'roll';
+
 export interface GenerationSettings {
+  gameSystem?: GameSystemId; // Defaults to D&D 5e (2014)
   rarity: Rarity;
   type: string;
   theme: string;
@@ -10,16 +20,97 @@ export interface GenerationSettings {
   powerBand: PowerBand;
   includeCurse: boolean;
   includePlotHook: boolean;
+  includeSentience?: boolean;
+  includeEvolution?: boolean; // Staged item that grows with its wielder
+  artifactProperties?: ArtifactPropertyMode; // Only used when rarity is Artifact
+  autoRebalance?: boolean; // Re-roll items the balance analyzer flags as overtuned
+  imageCount?: number; // Image variations to generate (1-4)
+  aspectRatio?: ImageAspectRatio;
+  language?: ItemLanguage; // Language of the player-facing text; defaults to English
+  partyTarget?: PartyTarget; // Who the item is for; absent for no one in particular
+  campaign?: CampaignProfile; // Snapshot of the selected campaign profile; absent for none
   customPrompt?: string;
 }
 
+export interface PartyMember {
+  name: string;
+  className: string; // e.g. "Fighter" or "Wizard (Evoker)"
+  level: number;
+  notes: string; // Playstyle, e.g. "front-line tank who loves shoving"
+}
+
+// A snapshot of the party taken at generation time, so provenance records who an item was for
+export interface PartyTarget {
+  members: PartyMember[];
+  character?: string; // Name of the member the item is for; absent for the whole party
+}
+
+// A campaign's world bible, kept in the browser and passed to generation as narrative context
+export interface CampaignProfile {
+  name: string;
+  setting: string; // Summary of the world and the campaign's premise
+  pantheon: string;
+  factions: string;
+  places: string;
+  tone: string; // e.g. "grim and low-magic, with gallows humour"
+  bannedContent: string; // Topics and content the table has ruled out
+}
+
+export type CampaignField = Exclude<keyof CampaignProfile, 'name'>;
+
+export type EffectKind = 'attack' | 'damage' | 'healing' | 'save' | 'spell' | 'defense' | 'buff' | 'utility' | 'other';
+
+export type AbilityScore = 'STR' | 'DEX' | 'CON' | 'INT' | 'WIS' | 'CHA';
+
+// Machine-readable counterpart of one entry in ItemMechanics.effects. Every
+// field but kind and name is optional: only what applies to the effect is set.
+export interface ItemEffect {
+  kind: EffectKind;
+  name: string;
+  dice?: string; // Dice expression, e.g. "2d6+1"
+  damage_type?: string;
+  save_ability?: AbilityScore;
+  save_dc?: number;
+  range?: string;
+  duration?: string;
+  charges?: number; // Uses or charges the effect draws on
+  recharge?: string; // e.g. "dawn", "short rest", "1d6+1 at dawn"
+}
+
 export interface ItemMechanics {
   attunement: boolean;
   effects: string[];
+  // Optional so items saved before structured effects keep working; the prose in effects stays authoritative
+  effect_details?: ItemEffect[];
   activation: string;
   scaling: string;
 }
 
+export interface ItemSentience {
+  intelligence: number;
+  wisdom: number;
+  charisma: number;
+  alignment: string;
+  senses: string;
+  communication: string;
+  special_purpose: string;
+  conflict: string; // How the item behaves when its will opposes the wielder's
+}
+
+// One tier of an evolving item. Effects are cumulative: each stage adds to the ones before it.
+export interface ItemStage {
+  name: string; // e.g. "Dormant", "Awakened", "Exalted"
+  unlock: string; // What the wielder must do or reach to unlock the stage
+  effects: string[];
+}
+
+export type ArtifactPropertyKind = 'minor_beneficial' | 'major_beneficial' | 'minor_detrimental' | 'major_detrimental';
+
+// Structured artifact properties, one list per kind, plus how the artifact can be destroyed
+export type ItemArtifactProperties = Record<ArtifactPropertyKind, string[]> & {
+  destruction: string;
+};
+
 export interface ItemData {
   name: string;
   type: string;
@@ -32,14 +123,225 @@ export interface ItemData {
   curse: string;
   plot_hook: string;
   price_gp: number;
+  sentience?: ItemSentience;
+  stages?: ItemStage[]; // Evolving items only, in unlock order
+  artifact?: ItemArtifactProperties; // Artifacts forged with property tables only
+  gameSystem?: GameSystemId; // Absent on items forged before other systems were supported
+  level?: number; // Pathfinder 2e item level
+  traits?: string[]; // Pathfinder 2e traits
+  language?: ItemLanguage; // Absent means English
+}
+
+export interface ItemRefinement {
+  instruction: string;
+  textModel: string;
+  refinedAt: string; // ISO timestamp
+}
+
+// How an item was produced, recorded by the forge (never by the model) so results can be reproduced or audited
+export interface ItemProvenance {
+  settings: GenerationSettings; // Includes the lore seed as customPrompt
+  provider: string;
+  textModel: string;
+  imageModel: string;
+  temperature: number;
+  promptVersion: string;
+  generatedAt: string; // ISO timestamp
+  refinements?: ItemRefinement[];
+}
+
+// Schema field descriptions a prompt template can reword
+export interface PromptSchemaDescriptions {
+  powerBand: string;
+  effectDetails: string;
+  effectName: string;
+  effectDice: string;
+  effectDamageType: string;
+  effectRange: string;
+  effectDuration: string;
+  effectCharges: string;
+  effectRecharge: string;
+  sentienceCommunication: string;
+  sentienceConflict: string;
+  stages: string;
+  stageName: string;
+  stageUnlock: string;
+  stageEffects: string;
+  artifactMinorBeneficial: string;
+  artifactMajorBeneficial: string;
+  artifactMinorDetrimental: string;
+  artifactMajorDetrimental: string;
+  artifactDestruction: string;
+  imagePrompt: string;
+  itemCard: string;
+}
+
+// Item generation prompt with {{variable}} placeholders; the built-in template ships with the app, others are edited in the browser
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  version: string; // Recorded as the promptVersion of every item forged with the template
+  revision: number; // Bumped on each saved edit
+  systemInstruction: string;
+  prompt: string;
+  descriptions: PromptSchemaDescriptions;
+  updatedAt: string; // ISO timestamp
 }
 
 export interface GeneratedContent {
   itemData: ItemData;
   imagePrompt: string;
   itemCard: string;
+  provenance?: ItemProvenance;
+}
+
+// The item's text rewritten in another language; rarity, type and numbers stay as in the original
+export interface ItemTranslation {
+  language: ItemLanguage;
+  itemData: ItemData;
+  itemCard: string;
+  textModel: string;
+  translatedAt: string; // ISO timestamp
+}
+
+export type ItemTranslations = Partial<Record<ItemLanguage, ItemTranslation>>;
+
+// When a tracker's charges come back; 'manual' trackers are only refilled by hand
+export type RechargeTrigger = 'dawn' | 'dusk' | 'short_rest' | 'long_rest' | 'manual';
+export type RestEvent = Exclude<RechargeTrigger, 'manual'>;
+
+// A pool of charges or limited uses tracked during play
+export interface UsageTracker {
+  name: string;
+  current: number;
+  max: number;
+  recharge: RechargeTrigger;
+  rechargeDice?: string; // Charges regained, e.g. "1d6+1"; absent means all of them
+}
+
+// Usage state of a saved item in play; items in the same set rest together
+export interface ItemUsage {
+  set: string;
+  trackers: UsageTracker[];
 }
 
 export interface MagicItemResult extends GeneratedContent {
   imageUrl?: string;
+  alternateImageUrls?: string[]; // Variations generated alongside imageUrl but not chosen
+  imageAspectRatio?: ImageAspectRatio;
+  translations?: ItemTranslations;
+  usage?: ItemUsage;
+  currentStage?: number; // Index into itemData.stages the item has reached; absent means the first
+}
+
+// Shape of an item while it is still being streamed from the generator
+export type PartialItemData = Partial<Omit<ItemData, 'mechanics' | 'sentience' | 'stages' | 'artifact'>> & {
+  mechanics?: Partial<ItemMechanics>;
+  sentience?: Partial<ItemSentience>;
+  stages?: Partial<ItemStage>[];
+  artifact?: Partial<ItemArtifactProperties>;
+};
+
+export interface PartialGeneratedContent {
+  itemData?: PartialItemData;
+  imagePrompt?: string;
+  itemCard?: string;
+}
+
+export type VocabularyKind = 'themes' | 'styles' | 'itemTypes';
+
+// A user-defined theme, art style or item type. For art styles the description
+// is the prompt fragment sent to the image model.
+export interface CustomVocabularyEntry {
+  name: string;
+  description: string;
+}
+
+export type CustomVocabulary = Record<VocabularyKind, CustomVocabularyEntry[]>;
+
+export type ChallengeRatingBand = '0-4' | '5-10' | '11-16' | '17+';
+
+export interface HoardSettings {
+  crBand: ChallengeRatingBand;
+  partySize: number;
+  theme: string;
+  style: string;
+  powerBand: PowerBand;
+}
+
+export interface CoinPurse {
+  cp: number;
+  sp: number;
+  ep: number;
+  gp: number;
+  pp: number;
+}
+
+export interface HoardValuable {
+  kind: 'gem' | 'art';
+  name: string;
+  value_gp: number;
+  quantity: number;
+}
+
+export interface TreasureHoard {
+  settings: HoardSettings;
+  coins: CoinPurse;
+  valuables: HoardValuable[];
+  items: MagicItemResult[];
+}
+
+export type SettlementSize = 'Village' | 'Town' | 'City' | 'Metropolis';
+
+export type ShopType = 'Alchemist' | 'Smithy' | 'Curio Dealer';
+
+export type WealthLevel = 'Poor' | 'Modest' | 'Prosperous' | 'Opulent';
+
+export interface ShopSettings {
+  settlementSize: SettlementSize;
+  shopType: ShopType;
+  wealth: WealthLevel;
+  theme: string;
+  style: string;
+}
+
+// How a shop's shelves turn over between visits
+export interface ShopRestockRules {
+  intervalDays: number;
+  // Listings replaced at each restock
+  turnover: number;
+}
+
+export interface ShopListing {
+  // Asking price in this market, and the lowest the shopkeeper will go
+  price_gp: number;
+  haggle_min_gp: number;
+  quantity: number;
+}
+
+export interface MerchantShop {
+  settings: ShopSettings;
+  restock: ShopRestockRules;
+  items: MagicItemResult[];
+  // One per item, in the same order
+  listings: ShopListing[];
+  restockedAt: string;
+}
+
+export type RandomTableDie = 'd20' | 'd100';
+
+export interface RandomTableEntry {
+  // Archived item the entry was taken from, if any
+  itemId?: string;
+  name: string;
+  rarity: string;
+  type: string;
+  // Relative chance of the entry; the die's faces are shared out in proportion
+  weight: number;
+}
+
+export interface RandomTable {
+  name: string;
+  die: RandomTableDie;
+  entries: RandomTableEntry[];
 }
@@ -14,6 +14,11 @@ export default defineConfig(({ mode }) => {
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY || env.API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY || env.API_KEY),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER || 'gemini'),
+        'process.env.AI_TEXT_MODEL': JSON.stringify(env.AI_TEXT_MODEL || ''),
+        'process.env.AI_IMAGE_MODEL': JSON.stringify(env.AI_IMAGE_MODEL || ''),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL || ''),
+        'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY || ''),
       },
       resolve: {
         alias: {
@@ -30,7 +35,7 @@ export default defineConfig(({ mode }) => {
           output: {
             manualChunks: {
               'react-vendor': ['react', 'react-dom'],
-              'services': ['./services/geminiService', './services/storageService'],
+              'services': ['./services/geminiService', './services/aiProvider', './services/storageService'],
             },
           },
         },